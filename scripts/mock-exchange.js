@@ -0,0 +1,647 @@
+#!/usr/bin/env node
+/**
+ * Mock Exchange
+ * A local stand-in for Binance (REST + WebSocket streams) and Finnhub (REST + trade socket)
+ * so the dashboard can run without network access
+ *
+ * Usage: npm run mock-exchange -- [--port 8090] [--tick 1000] [--seed 42] [--volatility 0.001] [--script prices.json]
+ *
+ * Point the app at it in .env.local:
+ *   REACT_APP_BINANCE_REST_URL=http://localhost:8090/api/v3
+ *   REACT_APP_BINANCE_WS_URL=ws://localhost:8090
+ *   REACT_APP_FINNHUB_BASE_URL=http://localhost:8090/finnhub
+ *   REACT_APP_FINNHUB_WS_URL=ws://localhost:8090/finnhub
+ *   REACT_APP_FINNHUB_API_KEY=mock
+ *
+ * A price script is JSON mapping symbols to price sequences, e.g. { "BTCUSDT": [60000, 60100, 59900] };
+ * scripted symbols step through their prices once per tick and hold the last one, the rest random-walk
+ */
+
+const fs = require('fs');
+const http = require('http');
+const { URL } = require('url');
+const { WebSocketServer } = require('ws');
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+const readArg = (name, fallback) => {
+  const index = process.argv.indexOf(`--${name}`);
+  if (index >= 0 && process.argv[index + 1] !== undefined) return process.argv[index + 1];
+  const env = process.env[`MOCK_EXCHANGE_${name.toUpperCase()}`];
+  return env !== undefined ? env : fallback;
+};
+
+const CONFIG = {
+  port: Number(readArg('port', 8090)),
+  tickMs: Number(readArg('tick', 1000)),
+  seed: Number(readArg('seed', 42)),
+  volatility: Number(readArg('volatility', 0.001)), // Per-tick standard deviation of returns
+  script: readArg('script', ''),
+  depthLevels: 20,
+};
+
+// Starting prices; anything else starts at 100
+const INITIAL_PRICES = {
+  BTCUSDT: 60000,
+  ETHUSDT: 3000,
+  BNBUSDT: 550,
+  SOLUSDT: 150,
+  ADAUSDT: 0.45,
+  XRPUSDT: 0.55,
+  DOGEUSDT: 0.12,
+  AVAXUSDT: 30,
+  DOTUSDT: 6.5,
+  MATICUSDT: 0.7,
+  EURUSDT: 1.08,
+  GBPUSDT: 1.27,
+  AAPL: 190,
+  MSFT: 420,
+  GOOGL: 170,
+  AMZN: 180,
+  TSLA: 240,
+  META: 500,
+  NVDA: 120,
+  SPY: 550,
+};
+
+const INTERVAL_MS = {
+  '1m': 60000,
+  '3m': 180000,
+  '5m': 300000,
+  '15m': 900000,
+  '30m': 1800000,
+  '1h': 3600000,
+  '2h': 7200000,
+  '4h': 14400000,
+  '6h': 21600000,
+  '8h': 28800000,
+  '12h': 43200000,
+  '1d': 86400000,
+  '3d': 259200000,
+  '1w': 604800000,
+  '1M': 2592000000,
+};
+
+// Finnhub candle resolutions
+const RESOLUTION_MS = {
+  '1': 60000,
+  '5': 300000,
+  '15': 900000,
+  '30': 1800000,
+  '60': 3600000,
+  D: 86400000,
+  W: 604800000,
+  M: 2592000000,
+};
+
+// ---------------------------------------------------------------------------
+// Deterministic randomness
+// ---------------------------------------------------------------------------
+
+// mulberry32: small seeded PRNG so runs are reproducible
+const createRandom = (seed) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const hashString = (value) => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+// Standard normal draw (Box-Muller)
+const gaussian = (random) => {
+  const u = Math.max(random(), 1e-12);
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+const random = createRandom(CONFIG.seed);
+
+// ---------------------------------------------------------------------------
+// Market state
+// ---------------------------------------------------------------------------
+
+const loadScript = (path) => {
+  if (!path) return {};
+  try {
+    const script = JSON.parse(fs.readFileSync(path, 'utf8'));
+    console.log(`Loaded price script for ${Object.keys(script).join(', ')}`);
+    return script;
+  } catch (error) {
+    console.error(`Could not read price script ${path}:`, error.message);
+    process.exit(1);
+  }
+};
+
+const script = loadScript(CONFIG.script);
+const markets = new Map();
+
+// Prices are quoted with a precision that suits their size
+const getPrecision = (price) => (price >= 1000 ? 2 : price >= 1 ? 4 : 6);
+const format = (value, price = value) => value.toFixed(getPrecision(price));
+
+const getMarket = (rawSymbol) => {
+  const symbol = rawSymbol.toUpperCase();
+  if (!markets.has(symbol)) {
+    const scripted = script[symbol];
+    const price = scripted && scripted.length > 0 ? scripted[0] : INITIAL_PRICES[symbol] || 100;
+    markets.set(symbol, {
+      symbol,
+      price,
+      open: price,
+      high: price,
+      low: price,
+      volume: 0,
+      quoteVolume: 0,
+      openTime: Date.now(),
+      scriptIndex: 0,
+      updateId: 1,
+      tradeId: 1,
+      lastQuantity: 0,
+      lastSide: 'buy',
+      book: null,
+      depthDiff: null,
+    });
+    updateBook(markets.get(symbol));
+  }
+  return markets.get(symbol);
+};
+
+// Move every known market one step along its script or random walk, recording a trade
+const stepMarket = (market) => {
+  const scripted = script[market.symbol];
+  const previous = market.price;
+
+  if (scripted && scripted.length > 0) {
+    market.scriptIndex = Math.min(market.scriptIndex + 1, scripted.length - 1);
+    market.price = scripted[market.scriptIndex];
+  } else {
+    market.price = previous * Math.exp(CONFIG.volatility * gaussian(random));
+  }
+
+  const quantity = Number((random() * 2 * (1000 / Math.max(market.price, 1))).toFixed(4)) || 0.0001;
+  market.high = Math.max(market.high, market.price);
+  market.low = Math.min(market.low, market.price);
+  market.volume += quantity;
+  market.quoteVolume += quantity * market.price;
+  market.lastQuantity = quantity;
+  market.lastSide = market.price >= previous ? 'buy' : 'sell';
+  market.tradeId += 1;
+  market.updateId += 1;
+  updateBook(market);
+};
+
+// Synthetic ladder around the last price on a fixed tick grid, so the best bid always sits below the best ask
+const buildLadder = (market, levels) => {
+  const decimals = getPrecision(market.price);
+  const step = 10 ** -decimals;
+  const tickUnits = Math.max(1, Math.round((market.price * 0.0001) / step));
+  const priceUnits = market.price / step / tickUnits;
+  const bestBid = (Math.ceil(priceUnits) - 1) * tickUnits;
+  const bestAsk = (Math.floor(priceUnits) + 1) * tickUnits;
+
+  const bids = new Map();
+  const asks = new Map();
+  for (let i = 0; i < levels; i++) {
+    const size = (1 + random() * 4) * (1000 / Math.max(market.price, 1));
+    bids.set(((bestBid - i * tickUnits) * step).toFixed(decimals), size.toFixed(4));
+    asks.set(((bestAsk + i * tickUnits) * step).toFixed(decimals), size.toFixed(4));
+  }
+  return { bids, asks };
+};
+
+// Every level of the new side, plus a zero quantity for each price that dropped off it
+const diffSide = (previous, next) => {
+  const changes = Array.from(next.entries());
+  previous.forEach((quantity, price) => {
+    if (!next.has(price)) changes.push([price, '0']);
+  });
+  return changes;
+};
+
+// Rebuild the book for the current tick and keep the diff from the previous one for the depth streams
+const updateBook = (market) => {
+  const book = buildLadder(market, CONFIG.depthLevels);
+  market.depthDiff = market.book
+    ? { bids: diffSide(market.book.bids, book.bids), asks: diffSide(market.book.asks, book.asks) }
+    : { bids: Array.from(book.bids.entries()), asks: Array.from(book.asks.entries()) };
+  market.book = book;
+};
+
+// Top of the current book, best prices first
+const getBookSnapshot = (market, levels) => ({
+  bids: Array.from(market.book.bids.entries()).slice(0, levels),
+  asks: Array.from(market.book.asks.entries()).slice(0, levels),
+});
+
+/**
+ * Bars ending at the current price, walked backwards from now so each symbol/interval/time always gets
+ * the same shape and paged range requests join up
+ */
+const buildBars = (market, intervalMs, limit, startTime, endTime) => {
+  const now = Date.now();
+  const currentOpen = Math.floor(now / intervalMs) * intervalMs;
+  const lastOpen = Math.floor(Math.min(endTime || now, now) / intervalMs) * intervalMs;
+  const firstOpen = startTime ? Math.ceil(startTime / intervalMs) * intervalMs : lastOpen - (limit - 1) * intervalMs;
+  const bars = [];
+
+  let close = market.price;
+  const barVolatility = CONFIG.volatility * Math.sqrt(intervalMs / 60000); // Volatility is scaled as if per minute
+  for (let openTime = currentOpen; openTime >= firstOpen; openTime -= intervalMs) {
+    const barRandom = createRandom(hashString(`${market.symbol}:${intervalMs}:${openTime}`) ^ CONFIG.seed);
+    const open = close / Math.exp(barVolatility * gaussian(barRandom));
+    const high = Math.max(open, close) * (1 + Math.abs(gaussian(barRandom)) * barVolatility * 0.5);
+    const low = Math.min(open, close) * (1 - Math.abs(gaussian(barRandom)) * barVolatility * 0.5);
+    const volume = (0.5 + barRandom()) * (intervalMs / 60000) * (10000 / Math.max(market.price, 1));
+    if (openTime <= lastOpen) bars.unshift({ openTime, open, high, low, close, volume });
+    close = open;
+  }
+
+  // Like Binance, a start time pages forward from it; otherwise the latest bars are returned
+  return startTime ? bars.slice(0, limit) : bars.slice(-limit);
+};
+
+// ---------------------------------------------------------------------------
+// Binance message formats
+// ---------------------------------------------------------------------------
+
+const toTicker = (market, event = true) => {
+  const change = market.price - market.open;
+  const ticker = {
+    s: market.symbol,
+    p: format(change, market.price),
+    P: ((change / market.open) * 100).toFixed(3),
+    w: format(market.volume > 0 ? market.quoteVolume / market.volume : market.price, market.price),
+    c: format(market.price),
+    Q: market.lastQuantity.toFixed(4),
+    o: format(market.open, market.price),
+    h: format(market.high, market.price),
+    l: format(market.low, market.price),
+    v: market.volume.toFixed(4),
+    q: market.quoteVolume.toFixed(2),
+    O: market.openTime,
+    C: Date.now(),
+    n: market.tradeId,
+  };
+  return event ? { e: '24hrTicker', E: Date.now(), ...ticker } : ticker;
+};
+
+// REST /ticker/24hr uses long field names
+const toRestTicker = (market) => {
+  const ticker = toTicker(market, false);
+  return {
+    symbol: ticker.s,
+    priceChange: ticker.p,
+    priceChangePercent: ticker.P,
+    weightedAvgPrice: ticker.w,
+    lastPrice: ticker.c,
+    lastQty: ticker.Q,
+    openPrice: ticker.o,
+    highPrice: ticker.h,
+    lowPrice: ticker.l,
+    volume: ticker.v,
+    quoteVolume: ticker.q,
+    openTime: ticker.O,
+    closeTime: ticker.C,
+    count: ticker.n,
+  };
+};
+
+const toKlineRow = (bar, intervalMs) => [
+  bar.openTime,
+  format(bar.open),
+  format(bar.high, bar.open),
+  format(bar.low, bar.open),
+  format(bar.close, bar.open),
+  bar.volume.toFixed(4),
+  bar.openTime + intervalMs - 1,
+  (bar.volume * bar.close).toFixed(2),
+  Math.round(bar.volume * 10),
+  (bar.volume / 2).toFixed(4),
+  ((bar.volume / 2) * bar.close).toFixed(2),
+  '0',
+];
+
+const buildStreamEvent = (market, stream) => {
+  const now = Date.now();
+  if (stream === 'ticker') return toTicker(market);
+  if (stream === 'miniTicker') {
+    const { s, c, o, h, l, v, q } = toTicker(market, false);
+    return { e: '24hrMiniTicker', E: now, s, c, o, h, l, v, q };
+  }
+  if (stream === 'trade' || stream === 'aggTrade') {
+    return {
+      e: stream,
+      E: now,
+      s: market.symbol,
+      t: market.tradeId,
+      p: format(market.price),
+      q: market.lastQuantity.toFixed(4),
+      b: market.tradeId * 2,
+      a: market.tradeId * 2 + 1,
+      T: now,
+      m: market.lastSide === 'sell', // Buyer is the maker when the seller was the aggressor
+    };
+  }
+  if (stream.startsWith('depth')) {
+    // One update id per tick, so snapshots and diffs line up
+    const { bids, asks } = market.depthDiff;
+    return { e: 'depthUpdate', E: now, s: market.symbol, U: market.updateId, u: market.updateId, b: bids, a: asks };
+  }
+  if (stream.startsWith('kline_')) {
+    const interval = stream.slice('kline_'.length);
+    const intervalMs = INTERVAL_MS[interval] || 60000;
+    const [bar] = buildBars(market, intervalMs, 1);
+    return {
+      e: 'kline',
+      E: now,
+      s: market.symbol,
+      k: {
+        t: bar.openTime,
+        T: bar.openTime + intervalMs - 1,
+        s: market.symbol,
+        i: interval,
+        o: format(bar.open),
+        c: format(bar.close, bar.open),
+        h: format(bar.high, bar.open),
+        l: format(bar.low, bar.open),
+        v: bar.volume.toFixed(4),
+        x: false,
+      },
+    };
+  }
+  return null;
+};
+
+// ---------------------------------------------------------------------------
+// HTTP
+// ---------------------------------------------------------------------------
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': '*',
+  });
+  res.end(JSON.stringify(body));
+};
+
+const requireSymbol = (res, params) => {
+  const symbol = params.get('symbol');
+  if (!symbol) {
+    sendJson(res, 400, { code: -1102, msg: "Mandatory parameter 'symbol' was not sent" });
+    return null;
+  }
+  return symbol;
+};
+
+const binanceRoutes = {
+  '/api/v3/ping': (res) => sendJson(res, 200, {}),
+  '/api/v3/time': (res) => sendJson(res, 200, { serverTime: Date.now() }),
+  '/api/v3/klines': (res, params) => {
+    const symbol = requireSymbol(res, params);
+    if (!symbol) return;
+    const interval = params.get('interval');
+    const intervalMs = INTERVAL_MS[interval];
+    if (!intervalMs) {
+      sendJson(res, 400, { code: -1120, msg: 'Invalid interval.' });
+      return;
+    }
+    const limit = Math.min(Number(params.get('limit')) || 500, 1000);
+    const startTime = Number(params.get('startTime')) || undefined;
+    const endTime = Number(params.get('endTime')) || undefined;
+    const bars = buildBars(getMarket(symbol), intervalMs, limit, startTime, endTime);
+    sendJson(res, 200, bars.map(bar => toKlineRow(bar, intervalMs)));
+  },
+  '/api/v3/ticker/24hr': (res, params) => {
+    const symbol = params.get('symbol');
+    if (symbol) {
+      sendJson(res, 200, toRestTicker(getMarket(symbol)));
+      return;
+    }
+    sendJson(res, 200, Array.from(markets.values()).map(toRestTicker));
+  },
+  '/api/v3/ticker/price': (res, params) => {
+    const symbol = requireSymbol(res, params);
+    if (!symbol) return;
+    const market = getMarket(symbol);
+    sendJson(res, 200, { symbol: market.symbol, price: format(market.price) });
+  },
+  '/api/v3/depth': (res, params) => {
+    const symbol = requireSymbol(res, params);
+    if (!symbol) return;
+    const market = getMarket(symbol);
+    const limit = Math.min(Number(params.get('limit')) || 100, 5000);
+    sendJson(res, 200, { lastUpdateId: market.updateId, ...getBookSnapshot(market, Math.min(limit, CONFIG.depthLevels)) });
+  },
+};
+
+const finnhubRoutes = {
+  '/finnhub/quote': (res, params) => {
+    const symbol = requireSymbol(res, params);
+    if (!symbol) return;
+    const market = getMarket(symbol);
+    const change = market.price - market.open;
+    sendJson(res, 200, {
+      c: market.price,
+      d: change,
+      dp: (change / market.open) * 100,
+      h: market.high,
+      l: market.low,
+      o: market.open,
+      pc: market.open,
+      t: Math.floor(Date.now() / 1000),
+    });
+  },
+  '/finnhub/stock/candle': (res, params) => {
+    const symbol = requireSymbol(res, params);
+    if (!symbol) return;
+    const intervalMs = RESOLUTION_MS[params.get('resolution')];
+    const from = Number(params.get('from')) * 1000;
+    const to = Number(params.get('to')) * 1000;
+    if (!intervalMs || !from || !to) {
+      sendJson(res, 200, { s: 'no_data' });
+      return;
+    }
+    const bars = buildBars(getMarket(symbol), intervalMs, 5000, from, to);
+    sendJson(res, 200, {
+      s: bars.length > 0 ? 'ok' : 'no_data',
+      t: bars.map(bar => Math.floor(bar.openTime / 1000)),
+      o: bars.map(bar => bar.open),
+      h: bars.map(bar => bar.high),
+      l: bars.map(bar => bar.low),
+      c: bars.map(bar => bar.close),
+      v: bars.map(bar => Math.round(bar.volume)),
+    });
+  },
+};
+finnhubRoutes['/finnhub/crypto/candle'] = finnhubRoutes['/finnhub/stock/candle'];
+
+const server = http.createServer((req, res) => {
+  if (req.method === 'OPTIONS') {
+    sendJson(res, 204, {});
+    return;
+  }
+
+  const url = new URL(req.url, `http://${req.headers.host || 'localhost'}`);
+  const route = binanceRoutes[url.pathname] || finnhubRoutes[url.pathname];
+  if (!route) {
+    sendJson(res, 404, { error: `Unknown endpoint ${url.pathname}` });
+    return;
+  }
+
+  try {
+    route(res, url.searchParams);
+  } catch (error) {
+    console.error(`Error handling ${url.pathname}:`, error);
+    sendJson(res, 500, { error: error.message });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// WebSockets
+// ---------------------------------------------------------------------------
+
+// Binance: /ws sends raw events, /stream wraps them as { stream, data }; both accept SUBSCRIBE messages
+// Finnhub: /finnhub takes { type: 'subscribe', symbol } and sends { type: 'trade', data: [...] }
+const binanceClients = new Set();
+const finnhubClients = new Set();
+const wss = new WebSocketServer({ noServer: true });
+
+const parseStreamName = (name) => {
+  const at = name.indexOf('@');
+  if (at < 0) return null;
+  return { symbol: name.slice(0, at).toUpperCase(), stream: name.slice(at + 1) };
+};
+
+const handleBinanceMessage = (client, raw) => {
+  let message;
+  try {
+    message = JSON.parse(raw);
+  } catch (error) {
+    client.socket.send(JSON.stringify({ error: { code: 2, msg: 'Invalid JSON' } }));
+    return;
+  }
+
+  const params = Array.isArray(message.params) ? message.params : [];
+  switch (message.method) {
+    case 'SUBSCRIBE':
+      params.forEach(name => {
+        const parsed = parseStreamName(name);
+        if (!parsed) return;
+        getMarket(parsed.symbol);
+        client.streams.add(name);
+      });
+      client.socket.send(JSON.stringify({ result: null, id: message.id }));
+      break;
+    case 'UNSUBSCRIBE':
+      params.forEach(name => client.streams.delete(name));
+      client.socket.send(JSON.stringify({ result: null, id: message.id }));
+      break;
+    case 'LIST_SUBSCRIPTIONS':
+      client.socket.send(JSON.stringify({ result: Array.from(client.streams), id: message.id }));
+      break;
+    default:
+      client.socket.send(JSON.stringify({ error: { code: 2, msg: `Unknown method ${message.method}` }, id: message.id }));
+  }
+};
+
+const handleFinnhubMessage = (client, raw) => {
+  try {
+    const message = JSON.parse(raw);
+    if (!message.symbol) return;
+    getMarket(message.symbol);
+    if (message.type === 'subscribe') client.symbols.add(message.symbol.toUpperCase());
+    if (message.type === 'unsubscribe') client.symbols.delete(message.symbol.toUpperCase());
+  } catch (error) {
+    client.socket.send(JSON.stringify({ type: 'error', msg: 'Invalid JSON' }));
+  }
+};
+
+server.on('upgrade', (req, socket, head) => {
+  const url = new URL(req.url, `http://${req.headers.host || 'localhost'}`);
+  const path = url.pathname.replace(/\/$/, '');
+
+  wss.handleUpgrade(req, socket, head, (ws) => {
+    if (path === '/finnhub') {
+      const client = { socket: ws, symbols: new Set() };
+      finnhubClients.add(client);
+      ws.on('message', data => handleFinnhubMessage(client, data.toString()));
+      ws.on('close', () => finnhubClients.delete(client));
+      return;
+    }
+
+    const combined = path === '/stream';
+    const client = { socket: ws, combined, streams: new Set() };
+
+    // Streams can also be given up front: /stream?streams=btcusdt@ticker/ethusdt@trade or /ws/btcusdt@ticker
+    const initial = url.searchParams.get('streams') || (path.startsWith('/ws/') ? path.slice('/ws/'.length) : '');
+    initial.split('/').filter(Boolean).forEach(name => {
+      const parsed = parseStreamName(name);
+      if (!parsed) return;
+      getMarket(parsed.symbol);
+      client.streams.add(name);
+    });
+
+    binanceClients.add(client);
+    ws.on('message', data => handleBinanceMessage(client, data.toString()));
+    ws.on('close', () => binanceClients.delete(client));
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Tick loop
+// ---------------------------------------------------------------------------
+
+const tick = () => {
+  markets.forEach(stepMarket);
+
+  binanceClients.forEach(client => {
+    client.streams.forEach(name => {
+      const parsed = parseStreamName(name);
+      const event = parsed && buildStreamEvent(getMarket(parsed.symbol), parsed.stream);
+      if (!event) return;
+      client.socket.send(JSON.stringify(client.combined ? { stream: name, data: event } : event));
+    });
+  });
+
+  finnhubClients.forEach(client => {
+    const data = Array.from(client.symbols).map(symbol => {
+      const market = getMarket(symbol);
+      return { s: symbol, p: market.price, t: Date.now(), v: market.lastQuantity, c: null };
+    });
+    if (data.length > 0) client.socket.send(JSON.stringify({ type: 'trade', data }));
+  });
+};
+
+const timer = setInterval(tick, CONFIG.tickMs);
+
+server.listen(CONFIG.port, () => {
+  console.log(`Mock exchange listening on http://localhost:${CONFIG.port}`);
+  console.log(`  Binance REST  http://localhost:${CONFIG.port}/api/v3`);
+  console.log(`  Binance WS    ws://localhost:${CONFIG.port}/ws  (combined: /stream)`);
+  console.log(`  Finnhub REST  http://localhost:${CONFIG.port}/finnhub`);
+  console.log(`  Finnhub WS    ws://localhost:${CONFIG.port}/finnhub`);
+  console.log(`  Tick ${CONFIG.tickMs}ms, seed ${CONFIG.seed}, volatility ${CONFIG.volatility}`);
+});
+
+const shutdown = () => {
+  clearInterval(timer);
+  wss.clients.forEach(ws => ws.terminate());
+  server.close(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
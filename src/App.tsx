@@ -6,6 +6,10 @@ import { HybridDataProvider } from './components/HybridDataProvider';
 import { CurrencyProvider } from './contexts/CurrencyContext';
 import { Dashboard } from './pages/Dashboard';
 import { Trading } from './pages/Trading';
+import { Portfolio } from './pages/Portfolio';
+import { Accounts } from './pages/Accounts';
+import { History } from './pages/History';
+import { Analysis } from './pages/Analysis';
 
 function App() {
   return (
@@ -25,26 +29,22 @@ function App() {
           <Route path="/trading" element={<Trading />} />
           <Route path="/portfolio" element={
             <DashboardLayout>
-              <div className="trading-card">
-                <h2 className="text-2xl font-bold text-white mb-4">Portfolio</h2>
-                <p className="text-gray-400">Portfolio management coming soon...</p>
-              </div>
+              <Portfolio />
             </DashboardLayout>
           } />
           <Route path="/history" element={
             <DashboardLayout>
-              <div className="trading-card">
-                <h2 className="text-2xl font-bold text-white mb-4">History</h2>
-                <p className="text-gray-400">Trade history coming soon...</p>
-              </div>
+              <History />
             </DashboardLayout>
           } />
           <Route path="/analysis" element={
             <DashboardLayout>
-              <div className="trading-card">
-                <h2 className="text-2xl font-bold text-white mb-4">Analysis</h2>
-                <p className="text-gray-400">Market analysis coming soon...</p>
-              </div>
+              <Analysis />
+            </DashboardLayout>
+          } />
+          <Route path="/accounts" element={
+            <DashboardLayout>
+              <Accounts />
             </DashboardLayout>
           } />
           <Route path="/settings" element={
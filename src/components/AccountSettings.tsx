@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { Archive, Receipt, RotateCcw, ShieldAlert, Trash2, Wallet } from 'lucide-react';
+import { usePortfolioStore } from '../stores/portfolioStore';
+import { formatCurrency } from '../utils/constants';
+import { FEE_SCHEDULES, getFeeSchedule } from '../utils/fees';
+import { RiskLimits } from '../types/trading';
+
+// Editable pre-trade limits; scale converts the stored value to what the input shows
+const RISK_LIMIT_FIELDS: { key: keyof RiskLimits; label: string; unit: string; scale: number }[] = [
+  { key: 'maxOrderNotional', label: 'Max order value', unit: '$', scale: 1 },
+  { key: 'maxPositionNotional', label: 'Max position per symbol', unit: '$', scale: 1 },
+  { key: 'maxGrossExposure', label: 'Max gross exposure', unit: '× equity', scale: 1 },
+  { key: 'maxNetExposure', label: 'Max net exposure', unit: '× equity', scale: 1 },
+  { key: 'maxOpenOrders', label: 'Max open orders', unit: 'orders', scale: 1 },
+  { key: 'dailyLossLimit', label: 'Daily loss limit', unit: '%', scale: 100 },
+  { key: 'priceBandPercent', label: 'Price band', unit: '%', scale: 1 },
+];
+
+export const AccountSettings: React.FC = () => {
+  const initialCash = usePortfolioStore(state => state.initialCash);
+  const tradeCount = usePortfolioStore(state => state.trades.length);
+  const archivedAccounts = usePortfolioStore(state => state.archivedAccounts);
+  const resetPortfolio = usePortfolioStore(state => state.resetPortfolio);
+  const deleteArchivedAccount = usePortfolioStore(state => state.deleteArchivedAccount);
+  const activeAccountId = usePortfolioStore(state => state.activeAccountId);
+  const feeScheduleId = usePortfolioStore(state => state.config.feeScheduleId);
+  const updateAccountConfig = usePortfolioStore(state => state.updateAccountConfig);
+  const riskLimits = usePortfolioStore(state => state.config.riskLimits);
+  const tradingLockedUntil = usePortfolioStore(state => state.accounts[state.activeAccountId]?.tradingLockedUntil);
+
+  const [startingCash, setStartingCash] = useState<string>(String(initialCash));
+  const [confirming, setConfirming] = useState(false);
+
+  const startingCashValue = parseFloat(startingCash);
+  const isValidCash = Number.isFinite(startingCashValue) && startingCashValue > 0;
+
+  const handleRiskLimitChange = (key: keyof RiskLimits, scale: number, value: string) => {
+    const parsed = parseFloat(value);
+    // Blank or negative input switches the rule off
+    const limit = Number.isFinite(parsed) && parsed > 0 ? parsed / scale : 0;
+    updateAccountConfig(activeAccountId, { riskLimits: { ...riskLimits, [key]: limit } });
+  };
+
+  const handleReset = () => {
+    if (!isValidCash) return;
+    resetPortfolio(startingCashValue);
+    setConfirming(false);
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">Paper Trading Account</h3>
+
+      {/* Starting Cash */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Wallet className="w-4 h-4 text-gray-500" />
+          <div>
+            <p className="text-white font-medium">Starting Cash</p>
+            <p className="text-xs text-gray-500">Balance for the next account after a reset</p>
+          </div>
+        </div>
+        <input
+          type="number"
+          min="1"
+          value={startingCash}
+          onChange={(e) => setStartingCash(e.target.value)}
+          className="w-32 bg-gray-800 text-white px-3 py-1.5 rounded-lg text-sm border border-gray-700 focus:border-blue-500 focus:outline-none"
+        />
+      </div>
+
+      {/* Fee Schedule */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Receipt className="w-4 h-4 text-gray-500" />
+          <div>
+            <p className="text-white font-medium">Fee Schedule</p>
+            <p className="text-xs text-gray-500">{getFeeSchedule(feeScheduleId).description}</p>
+          </div>
+        </div>
+        <select
+          value={feeScheduleId}
+          onChange={(e) => updateAccountConfig(activeAccountId, { feeScheduleId: e.target.value })}
+          className="bg-gray-800 text-white px-3 py-1.5 rounded-lg text-sm border border-gray-700 focus:border-blue-500 focus:outline-none"
+        >
+          {Object.values(FEE_SCHEDULES).map(schedule => (
+            <option key={schedule.id} value={schedule.id}>{schedule.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Risk Limits */}
+      <div className="space-y-2">
+        <div className="flex items-center gap-3">
+          <ShieldAlert className="w-4 h-4 text-gray-500" />
+          <div>
+            <p className="text-white font-medium">Risk Limits</p>
+            <p className="text-xs text-gray-500">Checked before every order; 0 switches a limit off</p>
+          </div>
+        </div>
+        {tradingLockedUntil !== undefined && tradingLockedUntil > Date.now() && (
+          <p className="text-xs text-yellow-400">
+            Trading locked until {new Date(tradingLockedUntil).toLocaleString()} after hitting the daily loss limit
+          </p>
+        )}
+        <div className="grid grid-cols-2 gap-2">
+          {RISK_LIMIT_FIELDS.map(field => (
+            <label key={field.key} className="flex items-center justify-between bg-gray-800/50 px-3 py-1.5 rounded-lg text-sm">
+              <span className="text-gray-300">{field.label}</span>
+              <span className="flex items-center gap-1">
+                {/* Committed on blur so partial input like "0." is not rewritten while typing */}
+                <input
+                  key={`${activeAccountId}-${field.key}-${riskLimits[field.key]}`}
+                  type="number"
+                  min="0"
+                  defaultValue={+(riskLimits[field.key] * field.scale).toFixed(4)}
+                  onBlur={(e) => handleRiskLimitChange(field.key, field.scale, e.target.value)}
+                  className="w-24 bg-gray-800 text-white px-2 py-1 rounded text-sm border border-gray-700 focus:border-blue-500 focus:outline-none"
+                />
+                <span className="text-xs text-gray-500 w-14">{field.unit}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* Reset Account */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <RotateCcw className="w-4 h-4 text-gray-500" />
+          <div>
+            <p className="text-white font-medium">Reset Account</p>
+            <p className="text-xs text-gray-500">
+              Archives the current account ({tradeCount} trades) and starts a fresh one
+            </p>
+          </div>
+        </div>
+        {confirming ? (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleReset}
+              disabled={!isValidCash}
+              className="px-3 py-1.5 bg-red-600 hover:bg-red-700 disabled:bg-gray-700 text-white rounded-lg text-sm font-medium transition-colors"
+            >
+              Confirm
+            </button>
+            <button
+              onClick={() => setConfirming(false)}
+              className="px-3 py-1.5 text-sm text-gray-400 hover:text-white transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() => setConfirming(true)}
+            className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-white rounded-lg text-sm border border-gray-700 transition-colors"
+          >
+            Reset
+          </button>
+        )}
+      </div>
+
+      {/* Archived Accounts */}
+      {archivedAccounts.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-xs text-gray-500">
+            <Archive className="w-3 h-3" />
+            <span>Archived accounts</span>
+          </div>
+          {[...archivedAccounts].reverse().map(account => {
+            const pl = account.finalValue - account.initialCash;
+            return (
+              <div key={account.id} className="flex items-center justify-between bg-gray-800/50 px-3 py-2 rounded-lg text-sm">
+                <div>
+                  <p className="text-white">{new Date(account.archivedAt).toLocaleString()}</p>
+                  <p className="text-xs text-gray-500">
+                    {formatCurrency(account.initialCash)} → {formatCurrency(account.finalValue)} · {account.trades.length} trades
+                  </p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className={pl >= 0 ? 'text-green-400' : 'text-red-400'}>
+                    {pl >= 0 ? '+' : '-'}{formatCurrency(Math.abs(pl))}
+                  </span>
+                  <button
+                    onClick={() => deleteArchivedAccount(account.id)}
+                    className="p-1 hover:bg-gray-700 rounded transition-colors"
+                    title="Delete archived account"
+                  >
+                    <Trash2 className="w-4 h-4 text-gray-500" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ChevronDown, Plus, BarChart3 } from 'lucide-react';
+import { usePortfolioStore, useAccounts, useActiveAccountId } from '../stores/portfolioStore';
+import { formatCurrency, TRADING_CONFIG } from '../utils/constants';
+import { FEE_SCHEDULES } from '../utils/fees';
+
+interface NewAccountForm {
+  name: string;
+  initialCash: string;
+  feeScheduleId: string;
+  commissionPercent: string;
+  maxPositionPercent: string;
+  allowShortSelling: boolean;
+}
+
+const DEFAULT_FORM: NewAccountForm = {
+  name: '',
+  initialCash: String(TRADING_CONFIG.INITIAL_CASH),
+  feeScheduleId: TRADING_CONFIG.FEE_SCHEDULE,
+  commissionPercent: String(TRADING_CONFIG.COMMISSION_RATE * 100),
+  maxPositionPercent: String(TRADING_CONFIG.MAX_POSITION_SIZE * 100),
+  allowShortSelling: TRADING_CONFIG.ALLOW_SHORT_SELLING,
+};
+
+export const AccountSwitcher: React.FC = () => {
+  const navigate = useNavigate();
+  const accounts = useAccounts();
+  const activeAccountId = useActiveAccountId();
+  const switchAccount = usePortfolioStore(state => state.switchAccount);
+  const createAccount = usePortfolioStore(state => state.createAccount);
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [form, setForm] = useState<NewAccountForm>(DEFAULT_FORM);
+
+  const activeAccount = accounts[activeAccountId];
+  const accountList = Object.values(accounts).sort((a, b) => a.createdAt - b.createdAt);
+
+  const initialCash = parseFloat(form.initialCash);
+  const commissionPercent = parseFloat(form.commissionPercent);
+  const maxPositionPercent = parseFloat(form.maxPositionPercent);
+  const isFormValid = form.name.trim().length > 0
+    && initialCash > 0
+    && commissionPercent >= 0
+    && maxPositionPercent > 0 && maxPositionPercent <= 100;
+
+  const handleSwitch = (id: string) => {
+    switchAccount(id);
+    setIsOpen(false);
+  };
+
+  const handleCreate = () => {
+    if (!isFormValid) return;
+
+    const id = createAccount({
+      name: form.name.trim(),
+      feeScheduleId: form.feeScheduleId,
+      commissionRate: commissionPercent / 100,
+      maxPositionSize: maxPositionPercent / 100,
+      allowShortSelling: form.allowShortSelling,
+    }, initialCash);
+
+    switchAccount(id);
+    setForm(DEFAULT_FORM);
+    setIsCreating(false);
+    setIsOpen(false);
+  };
+
+  const inputClass = 'w-full bg-gray-800 text-white px-2 py-1 rounded text-sm border border-gray-700 focus:border-blue-500 focus:outline-none';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center space-x-2 px-3 py-1.5 rounded-lg hover:bg-gray-800 transition-colors"
+      >
+        <div className="text-left">
+          <div className="text-sm font-medium text-white">{activeAccount?.config.name}</div>
+          <div className="text-xs text-gray-400 font-mono">{formatCurrency(activeAccount?.totalValue || 0)}</div>
+        </div>
+        <ChevronDown className="w-4 h-4 text-gray-400" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 bg-trading-surface border border-trading-border rounded-lg shadow-xl z-50">
+          <div className="max-h-64 overflow-y-auto py-1">
+            {accountList.map(account => {
+              const returnPercent = ((account.totalValue - account.initialCash) / account.initialCash) * 100;
+              return (
+                <button
+                  key={account.id}
+                  onClick={() => handleSwitch(account.id)}
+                  className={`w-full flex items-center justify-between px-4 py-2 text-left hover:bg-gray-800 transition-colors ${
+                    account.id === activeAccountId ? 'bg-gray-800/60' : ''
+                  }`}
+                >
+                  <div>
+                    <div className="text-sm text-white">{account.config.name}</div>
+                    <div className="text-xs text-gray-500 font-mono">{formatCurrency(account.totalValue)}</div>
+                  </div>
+                  <span className={`text-xs font-mono ${returnPercent >= 0 ? 'text-trading-green' : 'text-trading-red'}`}>
+                    {returnPercent >= 0 ? '+' : ''}{returnPercent.toFixed(2)}%
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="border-t border-trading-border p-3 space-y-2">
+            {isCreating ? (
+              <div className="space-y-2">
+                <input
+                  type="text"
+                  placeholder="Account name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className={inputClass}
+                />
+                <label className="block text-xs text-gray-400">
+                  Fee schedule
+                  <select
+                    value={form.feeScheduleId}
+                    onChange={(e) => setForm({ ...form, feeScheduleId: e.target.value })}
+                    className={inputClass}
+                  >
+                    {Object.values(FEE_SCHEDULES).map(schedule => (
+                      <option key={schedule.id} value={schedule.id}>{schedule.name}</option>
+                    ))}
+                  </select>
+                </label>
+                <div className="grid grid-cols-3 gap-2 text-xs text-gray-400">
+                  <label>
+                    Cash
+                    <input
+                      type="number"
+                      value={form.initialCash}
+                      onChange={(e) => setForm({ ...form, initialCash: e.target.value })}
+                      className={inputClass}
+                    />
+                  </label>
+                  <label>
+                    Fee %
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={form.commissionPercent}
+                      onChange={(e) => setForm({ ...form, commissionPercent: e.target.value })}
+                      className={inputClass}
+                    />
+                  </label>
+                  <label>
+                    Max pos %
+                    <input
+                      type="number"
+                      value={form.maxPositionPercent}
+                      onChange={(e) => setForm({ ...form, maxPositionPercent: e.target.value })}
+                      className={inputClass}
+                    />
+                  </label>
+                </div>
+                <label className="flex items-center space-x-2 text-xs text-gray-400">
+                  <input
+                    type="checkbox"
+                    checked={form.allowShortSelling}
+                    onChange={(e) => setForm({ ...form, allowShortSelling: e.target.checked })}
+                  />
+                  <span>Allow short selling</span>
+                </label>
+                <div className="flex justify-end space-x-2">
+                  <button
+                    onClick={() => setIsCreating(false)}
+                    className="px-3 py-1 text-sm text-gray-400 hover:text-white transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleCreate}
+                    disabled={!isFormValid}
+                    className="px-3 py-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 text-white rounded text-sm transition-colors"
+                  >
+                    Create
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button
+                onClick={() => setIsCreating(true)}
+                className="w-full flex items-center space-x-2 text-sm text-blue-400 hover:text-blue-300 transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                <span>New account</span>
+              </button>
+            )}
+            <button
+              onClick={() => {
+                setIsOpen(false);
+                navigate('/accounts');
+              }}
+              className="w-full flex items-center space-x-2 text-sm text-gray-400 hover:text-white transition-colors"
+            >
+              <BarChart3 className="w-4 h-4" />
+              <span>Compare accounts</span>
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
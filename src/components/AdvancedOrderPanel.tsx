@@ -1,18 +1,31 @@
 import React, { useState, useEffect } from 'react';
-import { useMarketStore, usePrice } from '../stores/marketStore';
-import { usePortfolioStore } from '../stores/portfolioStore';
+import { ShieldAlert } from 'lucide-react';
+import { useMarketStore, usePrice, useOrderBook } from '../stores/marketStore';
+import { usePortfolioStore, useMarginSummary } from '../stores/portfolioStore';
+import { getMarketTime } from '../stores/replayStore';
 import { formatCurrency } from '../utils/constants';
+import { getSymbolType, toMarketSymbol } from '../utils/symbolUtils';
+import { formatForexPrice, formatPips, getPipSize, getPipValue, getSpreadPips, LOT_LABELS, LOT_SIZES, LOT_STEP, LotType, lotsToUnits, unitsToLots } from '../utils/forex';
+import { simulateFill } from '../utils/fillModel';
+import { calculateTradeFees, getFeeSchedule } from '../utils/fees';
+import { isTradingLocked } from '../utils/riskRules';
+import { getTrailingLevels } from '../utils/orderMatching';
+import { RiskViolation, TimeInForce } from '../types/trading';
+import { orderService } from '../services/OrderService';
 
 interface OrderFormData {
   symbol: string;
   side: 'buy' | 'sell';
-  orderType: 'market' | 'limit' | 'stop' | 'stopLimit' | 'bracket';
+  orderType: 'market' | 'limit' | 'stop' | 'stopLimit' | 'bracket' | 'trailingStop' | 'trailingStopLimit';
   quantity: number;
   limitPrice?: number;
   stopPrice?: number;
+  trailMode: 'amount' | 'percent';
+  trailValue?: number;
+  limitOffset?: number;
   takeProfitPrice?: number;
   stopLossPrice?: number;
-  timeInForce: 'GTC' | 'DAY' | 'IOC';
+  timeInForce: TimeInForce;
   positionSizeMode: 'shares' | 'dollars' | 'percentage';
   riskAmount?: number;
   riskPercentage?: number;
@@ -38,9 +51,12 @@ export const AdvancedOrderPanel: React.FC = () => {
     timeInForce: 'GTC',
     positionSizeMode: 'shares',
     riskPercentage: 2,
+    trailMode: 'percent',
   });
 
+  const [lotType, setLotType] = useState<LotType>('mini'); // Forex sizes are entered in lots of this type
   const [showPositionSizing, setShowPositionSizing] = useState(false);
+  const [rejection, setRejection] = useState<{ reason?: string; violations: RiskViolation[] } | null>(null);
   const [positionSizing, setPositionSizing] = useState<PositionSizingData>({
     accountValue: 100000,
     riskPerTrade: 2,
@@ -50,10 +66,13 @@ export const AdvancedOrderPanel: React.FC = () => {
     dollarRisk: 0,
   });
 
-  const currentPrice = usePrice(selectedSymbol);
+  const currentPrice = usePrice(toMarketSymbol(selectedSymbol));
+  const orderBook = useOrderBook(toMarketSymbol(selectedSymbol));
   const portfolioStore = usePortfolioStore();
-  const addOrder = usePortfolioStore(state => state.addOrder);
-  const canPlaceOrder = usePortfolioStore(state => state.canPlaceOrder);
+  const { buyingPower } = useMarginSummary();
+  const isForex = getSymbolType(selectedSymbol) === 'forex';
+  const priceStep = isForex ? String(getPipSize(selectedSymbol) / 10) : '0.01';
+  const formatQuote = (price: number) => (isForex ? formatForexPrice(price, selectedSymbol) : formatCurrency(price));
 
   // Update position sizing when prices change
   useEffect(() => {
@@ -100,79 +119,81 @@ export const AdvancedOrderPanel: React.FC = () => {
     }
   };
 
+  const activeAccount = portfolioStore.accounts[portfolioStore.activeAccountId];
+  const lockedUntil = activeAccount && isTradingLocked(activeAccount, getMarketTime()) ? activeAccount.tradingLockedUntil : undefined;
+
   const handleInputChange = (field: keyof OrderFormData, value: any) => {
     setOrderForm(prev => ({ ...prev, [field]: value }));
-  };
-
-  const validateOrder = () => {
-    const validation = canPlaceOrder(orderForm.symbol, orderForm.quantity, orderForm.limitPrice || currentPrice?.price || 0);
-    return validation;
+    setRejection(null);
   };
 
   const placeOrder = () => {
     if (!currentPrice) return;
 
-    const validation = validateOrder();
-    if (!validation.canPlace) {
-      alert(`Cannot place order: ${validation.reason}`);
-      return;
-    }
-
-    const orderData = {
+    const isBracket = orderForm.orderType === 'bracket';
+    const isTrailing = orderForm.orderType === 'trailingStop' || orderForm.orderType === 'trailingStopLimit';
+    const result = orderService.placeOrder({
       symbol: orderForm.symbol,
       side: orderForm.side,
       type: orderForm.orderType,
       quantity: orderForm.quantity,
-      price: orderForm.orderType === 'limit' ? orderForm.limitPrice : undefined,
-      stopPrice: orderForm.orderType === 'stop' ? orderForm.stopPrice : undefined,
-      status: 'pending' as const,
-    };
-
-    const orderId = addOrder(orderData);
-    
-    // For demo purposes, immediately fill market orders
-    if (orderForm.orderType === 'market') {
-      portfolioStore.fillOrder(orderId, currentPrice.price);
-    }
-    
-    // Add stop loss and take profit orders for bracket orders
-    if (orderForm.orderType === 'bracket') {
-      if (orderForm.stopLossPrice) {
-        addOrder({
-          symbol: orderForm.symbol,
-          side: orderForm.side === 'buy' ? 'sell' : 'buy',
-          type: 'stop',
-          quantity: orderForm.quantity,
-          stopPrice: orderForm.stopLossPrice,
-          status: 'pending' as const,
-        });
-      }
-
-      if (orderForm.takeProfitPrice) {
-        addOrder({
-          symbol: orderForm.symbol,
-          side: orderForm.side === 'buy' ? 'sell' : 'buy',
-          type: 'limit',
-          quantity: orderForm.quantity,
-          price: orderForm.takeProfitPrice,
-          status: 'pending' as const,
-        });
-      }
+      price: orderForm.orderType === 'limit' || orderForm.orderType === 'stopLimit' || isBracket ? orderForm.limitPrice : undefined,
+      stopPrice: orderForm.orderType === 'stop' || orderForm.orderType === 'stopLimit' ? orderForm.stopPrice : undefined,
+      // The take-profit and stop-loss legs are created as an OCO pair once the entry fills
+      takeProfitPrice: isBracket ? orderForm.takeProfitPrice || undefined : undefined,
+      stopLossPrice: isBracket ? orderForm.stopLossPrice || undefined : undefined,
+      timeInForce: orderForm.timeInForce,
+      trailAmount: isTrailing && orderForm.trailMode === 'amount' ? orderForm.trailValue : undefined,
+      trailPercent: isTrailing && orderForm.trailMode === 'percent' ? orderForm.trailValue : undefined,
+      limitOffset: orderForm.orderType === 'trailingStopLimit' ? orderForm.limitOffset : undefined,
+    });
+
+    if (!result.success) {
+      setRejection({ reason: result.reason, violations: result.violations || [] });
+      return;
     }
+    setRejection(null);
 
     // Reset form
     setOrderForm(prev => ({
       ...prev,
-      quantity: orderForm.positionSizeMode === 'shares' ? 100 : prev.quantity,
+      quantity: orderForm.positionSizeMode === 'shares' ? (isForex ? LOT_SIZES[lotType] : 100) : prev.quantity,
     }));
   };
 
   const getEstimatedCost = () => {
     if (!currentPrice) return 0;
+    if (orderForm.orderType === 'market') {
+      // Market orders pay away the spread and walk the book, so estimate the average fill
+      const fill = simulateFill({
+        side: orderForm.side,
+        quantity: orderForm.quantity,
+        referencePrice: currentPrice.price,
+        book: orderBook,
+        bid: currentPrice.bid,
+        ask: currentPrice.ask,
+      });
+      return fill ? fill.quantity * fill.price : 0;
+    }
     const price = orderForm.limitPrice || currentPrice.price;
     return orderForm.quantity * price;
   };
 
+  // Market and stop orders take liquidity; limit orders are estimated as resting (maker)
+  const getEstimatedCommission = () => {
+    const cost = getEstimatedCost();
+    if (!(cost > 0) || !(orderForm.quantity > 0)) return 0;
+    const liquidity = ['market', 'stop', 'trailingStop'].includes(orderForm.orderType) ? 'taker' : 'maker';
+    return calculateTradeFees(
+      getFeeSchedule(portfolioStore.config.feeScheduleId),
+      selectedSymbol,
+      orderForm.quantity,
+      cost / orderForm.quantity,
+      liquidity,
+      portfolioStore.config.commissionRate
+    ).total;
+  };
+
   return (
     <div className="space-y-6">
       {/* Order Entry Panel */}
@@ -198,8 +219,14 @@ export const AdvancedOrderPanel: React.FC = () => {
               <select
                 value={selectedSymbol}
                 onChange={(e) => {
-                  setSelectedSymbol(e.target.value);
-                  handleInputChange('symbol', e.target.value);
+                  const symbol = e.target.value;
+                  // Forex is sized in lots, so switching between forex and other assets resets the default size
+                  const toForex = getSymbolType(symbol) === 'forex';
+                  if (toForex !== isForex) {
+                    handleInputChange('quantity', toForex ? LOT_SIZES[lotType] : 100);
+                  }
+                  setSelectedSymbol(symbol);
+                  handleInputChange('symbol', symbol);
                 }}
                 className="w-full bg-trading-bg border border-trading-border rounded-md px-3 py-2 text-white focus:ring-2 focus:ring-blue-500"
               >
@@ -209,6 +236,8 @@ export const AdvancedOrderPanel: React.FC = () => {
                 <option value="TSLA">TSLA - Tesla Inc.</option>
                 <option value="BINANCE:BTCUSDT">BTC - Bitcoin</option>
                 <option value="BINANCE:ETHUSDT">ETH - Ethereum</option>
+                <option value="OANDA:EUR_USD">EUR/USD - Euro</option>
+                <option value="OANDA:GBP_USD">GBP/USD - British Pound</option>
               </select>
             </div>
 
@@ -255,11 +284,30 @@ export const AdvancedOrderPanel: React.FC = () => {
                   <option value="limit">Limit</option>
                   <option value="stop">Stop</option>
                   <option value="stopLimit">Stop Limit</option>
+                  <option value="trailingStop">Trailing Stop</option>
+                  <option value="trailingStopLimit">Trailing Stop Limit</option>
                   <option value="bracket">Bracket</option>
                 </select>
               </div>
             </div>
 
+            {/* Time in Force */}
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Time in Force
+              </label>
+              <select
+                value={orderForm.timeInForce}
+                onChange={(e) => handleInputChange('timeInForce', e.target.value)}
+                className="w-full bg-trading-bg border border-trading-border rounded-md px-3 py-2 text-white text-sm focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="GTC">GTC - Good till cancelled</option>
+                <option value="DAY">DAY - Expires at session close</option>
+                <option value="IOC">IOC - Immediate or cancel</option>
+                <option value="FOK">FOK - Fill or kill</option>
+              </select>
+            </div>
+
             {/* Quantity */}
             <div>
               <label className="block text-sm font-medium text-gray-300 mb-2">
@@ -276,17 +324,45 @@ export const AdvancedOrderPanel: React.FC = () => {
                         : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
                     }`}
                   >
-                    {mode === 'shares' ? 'Shares' : mode === 'dollars' ? '$' : '%'}
+                    {mode === 'shares' ? (isForex ? 'Lots' : 'Shares') : mode === 'dollars' ? '$' : '%'}
                   </button>
                 ))}
               </div>
-              <input
-                type="number"
-                value={orderForm.quantity}
-                onChange={(e) => handleInputChange('quantity', parseInt(e.target.value) || 0)}
-                className="w-full bg-trading-bg border border-trading-border rounded-md px-3 py-2 text-white focus:ring-2 focus:ring-blue-500"
-                min="1"
-              />
+              {isForex ? (
+                <>
+                  <div className="flex space-x-1">
+                    <input
+                      type="number"
+                      value={Number(unitsToLots(orderForm.quantity, lotType).toFixed(4))}
+                      onChange={(e) => handleInputChange('quantity', lotsToUnits(parseFloat(e.target.value) || 0, lotType))}
+                      className="flex-1 bg-trading-bg border border-trading-border rounded-md px-3 py-2 text-white focus:ring-2 focus:ring-blue-500"
+                      min={LOT_STEP}
+                      step={LOT_STEP}
+                    />
+                    <select
+                      value={lotType}
+                      onChange={(e) => setLotType(e.target.value as LotType)}
+                      className="bg-trading-bg border border-trading-border rounded-md px-2 py-2 text-white text-sm focus:ring-2 focus:ring-blue-500"
+                    >
+                      {(Object.keys(LOT_SIZES) as LotType[]).map(type => (
+                        <option key={type} value={type}>{LOT_LABELS[type]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="text-xs text-gray-400 mt-1">
+                    {orderForm.quantity.toLocaleString()} units
+                    {currentPrice && ` - pip value ${formatCurrency(getPipValue(selectedSymbol, orderForm.quantity, currentPrice.price))}`}
+                  </div>
+                </>
+              ) : (
+                <input
+                  type="number"
+                  value={orderForm.quantity}
+                  onChange={(e) => handleInputChange('quantity', parseInt(e.target.value) || 0)}
+                  className="w-full bg-trading-bg border border-trading-border rounded-md px-3 py-2 text-white focus:ring-2 focus:ring-blue-500"
+                  min="1"
+                />
+              )}
             </div>
           </div>
 
@@ -296,8 +372,14 @@ export const AdvancedOrderPanel: React.FC = () => {
             <div className="bg-trading-bg rounded-md p-3">
               <div className="text-sm text-gray-400 mb-1">Current Price</div>
               <div className="text-2xl font-mono font-bold text-white">
-                {currentPrice ? formatCurrency(currentPrice.price) : 'Loading...'}
+                {currentPrice ? formatQuote(currentPrice.price) : 'Loading...'}
               </div>
+              {currentPrice?.bid !== undefined && currentPrice.ask !== undefined && (
+                <div className="text-xs font-mono text-gray-400">
+                  Bid {formatQuote(currentPrice.bid)} / Ask {formatQuote(currentPrice.ask)}
+                  {isForex && ` (${getSpreadPips(currentPrice.bid, currentPrice.ask, selectedSymbol).toFixed(1)} pips)`}
+                </div>
+              )}
               {currentPrice && (
                 <div className={`text-sm font-mono ${
                   currentPrice.changePercent >= 0 ? 'text-trading-green' : 'text-trading-red'
@@ -317,7 +399,7 @@ export const AdvancedOrderPanel: React.FC = () => {
                     </label>
                     <input
                       type="number"
-                      step="0.01"
+                      step={priceStep}
                       value={orderForm.limitPrice || ''}
                       onChange={(e) => handleInputChange('limitPrice', parseFloat(e.target.value))}
                       className="w-full bg-trading-bg border border-trading-border rounded-md px-3 py-2 text-white focus:ring-2 focus:ring-blue-500"
@@ -332,7 +414,7 @@ export const AdvancedOrderPanel: React.FC = () => {
                     </label>
                     <input
                       type="number"
-                      step="0.01"
+                      step={priceStep}
                       value={orderForm.stopPrice || ''}
                       onChange={(e) => handleInputChange('stopPrice', parseFloat(e.target.value))}
                       className="w-full bg-trading-bg border border-trading-border rounded-md px-3 py-2 text-white focus:ring-2 focus:ring-blue-500"
@@ -340,6 +422,60 @@ export const AdvancedOrderPanel: React.FC = () => {
                   </div>
                 )}
 
+                {(orderForm.orderType === 'trailingStop' || orderForm.orderType === 'trailingStopLimit') && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-300 mb-2">
+                        Trail By
+                      </label>
+                      <div className="flex space-x-1">
+                        <input
+                          type="number"
+                          step="0.01"
+                          value={orderForm.trailValue || ''}
+                          onChange={(e) => handleInputChange('trailValue', parseFloat(e.target.value))}
+                          className="flex-1 bg-trading-bg border border-trading-border rounded-md px-3 py-2 text-white focus:ring-2 focus:ring-blue-500"
+                        />
+                        {(['percent', 'amount'] as const).map(mode => (
+                          <button
+                            key={mode}
+                            onClick={() => handleInputChange('trailMode', mode)}
+                            className={`px-3 rounded text-sm transition-colors ${
+                              orderForm.trailMode === mode ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                            }`}
+                          >
+                            {mode === 'percent' ? '%' : '$'}
+                          </button>
+                        ))}
+                      </div>
+                      {currentPrice && orderForm.trailValue ? (
+                        <div className="text-xs text-gray-400 mt-1">
+                          Stop starts at {formatCurrency(getTrailingLevels({
+                            side: orderForm.side,
+                            type: orderForm.orderType,
+                            trailAmount: orderForm.trailMode === 'amount' ? orderForm.trailValue : undefined,
+                            trailPercent: orderForm.trailMode === 'percent' ? orderForm.trailValue : undefined,
+                          }, currentPrice.price).stopPrice || 0)} and follows the {orderForm.side === 'sell' ? 'high' : 'low'}
+                        </div>
+                      ) : null}
+                    </div>
+                    {orderForm.orderType === 'trailingStopLimit' && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">
+                          Limit Offset
+                        </label>
+                        <input
+                          type="number"
+                          step={priceStep}
+                          value={orderForm.limitOffset ?? ''}
+                          onChange={(e) => handleInputChange('limitOffset', e.target.value === '' ? undefined : parseFloat(e.target.value))}
+                          className="w-full bg-trading-bg border border-trading-border rounded-md px-3 py-2 text-white focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                    )}
+                  </>
+                )}
+
                 {orderForm.orderType === 'bracket' && (
                   <>
                     <div>
@@ -348,7 +484,7 @@ export const AdvancedOrderPanel: React.FC = () => {
                       </label>
                       <input
                         type="number"
-                        step="0.01"
+                        step={priceStep}
                         value={orderForm.stopLossPrice || ''}
                         onChange={(e) => handleInputChange('stopLossPrice', parseFloat(e.target.value))}
                         className="w-full bg-trading-bg border border-trading-border rounded-md px-3 py-2 text-white focus:ring-2 focus:ring-blue-500"
@@ -360,7 +496,7 @@ export const AdvancedOrderPanel: React.FC = () => {
                       </label>
                       <input
                         type="number"
-                        step="0.01"
+                        step={priceStep}
                         value={orderForm.takeProfitPrice || ''}
                         onChange={(e) => handleInputChange('takeProfitPrice', parseFloat(e.target.value))}
                         className="w-full bg-trading-bg border border-trading-border rounded-md px-3 py-2 text-white focus:ring-2 focus:ring-blue-500"
@@ -401,15 +537,15 @@ export const AdvancedOrderPanel: React.FC = () => {
               </div>
             </div>
             <div>
-              <div className="text-gray-400">Available Cash</div>
+              <div className="text-gray-400">Buying Power</div>
               <div className="font-mono text-white">
-                {formatCurrency(portfolioStore.cash)}
+                {formatCurrency(buyingPower)}
               </div>
             </div>
             <div>
               <div className="text-gray-400">Commission</div>
               <div className="font-mono text-white">
-                {formatCurrency(getEstimatedCost() * 0.001)}
+                {formatCurrency(getEstimatedCommission())}
               </div>
             </div>
             <div>
@@ -419,6 +555,31 @@ export const AdvancedOrderPanel: React.FC = () => {
           </div>
         </div>
 
+        {/* Risk rejections and trading lock */}
+        {lockedUntil && (
+          <div className="mt-6 flex items-start space-x-2 bg-yellow-900/30 border border-yellow-700 rounded-md p-3 text-sm text-yellow-300">
+            <ShieldAlert className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>Daily loss limit reached. Only orders that reduce positions are accepted until {new Date(lockedUntil).toLocaleString()}.</span>
+          </div>
+        )}
+        {rejection && (
+          <div className="mt-6 bg-red-900/30 border border-red-700 rounded-md p-3 text-sm">
+            <div className="flex items-center space-x-2 font-semibold text-red-400 mb-1">
+              <ShieldAlert className="w-4 h-4" />
+              <span>Order rejected</span>
+            </div>
+            {rejection.violations.length > 0 ? (
+              <ul className="space-y-1 text-red-300">
+                {rejection.violations.map(violation => (
+                  <li key={violation.ruleId}>{violation.message}</li>
+                ))}
+              </ul>
+            ) : (
+              <div className="text-red-300">{rejection.reason}</div>
+            )}
+          </div>
+        )}
+
         {/* Place Order Button */}
         <div className="mt-6">
           <button
@@ -467,21 +628,28 @@ export const AdvancedOrderPanel: React.FC = () => {
               <div className="bg-trading-bg rounded-md p-3">
                 <div className="text-sm text-gray-400 mb-1">Entry Price</div>
                 <div className="text-xl font-mono text-white">
-                  {formatCurrency(positionSizing.entryPrice)}
+                  {formatQuote(positionSizing.entryPrice)}
                 </div>
               </div>
 
               <div className="bg-trading-bg rounded-md p-3">
                 <div className="text-sm text-gray-400 mb-1">Stop Loss</div>
                 <div className="text-xl font-mono text-trading-red">
-                  {formatCurrency(positionSizing.stopLossPrice)}
+                  {formatQuote(positionSizing.stopLossPrice)}
                 </div>
+                {isForex && positionSizing.stopLossPrice > 0 && (
+                  <div className="text-xs text-gray-400">
+                    {formatPips(positionSizing.stopLossPrice - positionSizing.entryPrice, selectedSymbol)} from entry
+                  </div>
+                )}
               </div>
 
               <div className="bg-trading-bg rounded-md p-3">
                 <div className="text-sm text-gray-400 mb-1">Position Size</div>
                 <div className="text-xl font-mono text-trading-green">
-                  {positionSizing.positionSize} shares
+                  {isForex
+                    ? `${unitsToLots(positionSizing.positionSize, lotType).toFixed(2)} ${lotType} lots`
+                    : `${positionSizing.positionSize} shares`}
                 </div>
               </div>
 
@@ -3,6 +3,7 @@ import { Header } from './Header';
 import { Sidebar } from './Sidebar';
 // import { marketDataService } from '../services/MarketDataService';
 import { useConnectionStatus } from '../stores/marketStore';
+import { usePortfolioStore, usePortfolioValue } from '../stores/portfolioStore';
 
 interface DashboardLayoutProps {
   children: React.ReactNode;
@@ -79,11 +80,10 @@ export const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) =>
 
 // Portfolio Summary Card Component
 export const PortfolioSummary: React.FC = () => {
-  const portfolioData = {
-    totalValue: 100000,
-    dayChange: 0,
-    dayChangePercent: 0,
-  };
+  const totalValue = usePortfolioValue();
+  const dayChange = usePortfolioStore(state => state.dayChange);
+  const dayChangePercent = usePortfolioStore(state => state.dayChangePercent);
+  const portfolioData = { totalValue, dayChange, dayChangePercent };
 
   return (
     <div className="trading-card">
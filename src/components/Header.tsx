@@ -1,8 +1,11 @@
 import React, { useState } from 'react';
 import { useConnectionStatus } from '../stores/marketStore';
 import { WSConnectionStatus } from '../services/WebSocketManager';
-import { Settings } from 'lucide-react';
+import { AlertTriangle, Settings } from 'lucide-react';
 import { SettingsModal } from './SettingsModal';
+import { AccountSwitcher } from './AccountSwitcher';
+import { useReplayActive } from '../stores/replayStore';
+import { useCurrency } from '../contexts/CurrencyContext';
 
 interface HeaderProps {
   onToggleSidebar?: () => void;
@@ -40,6 +43,8 @@ const getStatusText = (status: WSConnectionStatus): string => {
 
 export const Header: React.FC<HeaderProps> = ({ onToggleSidebar }) => {
   const connectionStatus = useConnectionStatus();
+  const replayActive = useReplayActive();
+  const { currency, rateUpdatedAt, isRateStale, refreshRates } = useCurrency();
   const [settingsOpen, setSettingsOpen] = useState(false);
 
   return (<>
@@ -64,24 +69,49 @@ export const Header: React.FC<HeaderProps> = ({ onToggleSidebar }) => {
 
       <div className="flex items-center space-x-4">
         {/* Market Status */}
-        <div className="flex items-center space-x-2">
-          <div className={`w-2 h-2 rounded-full ${
-            connectionStatus === 'connected' 
-              ? 'bg-trading-green animate-pulse' 
-              : connectionStatus === 'connecting'
-              ? 'bg-yellow-500 animate-pulse'
-              : 'bg-gray-400'
-          }`}></div>
-          <span className={`text-sm font-medium ${getStatusColor(connectionStatus)}`}>
-            {getStatusText(connectionStatus)}
-          </span>
-        </div>
+        {replayActive ? (
+          <div className="flex items-center space-x-2">
+            <div className="w-2 h-2 rounded-full bg-yellow-500"></div>
+            <span className="text-sm font-medium text-yellow-500">Replay</span>
+          </div>
+        ) : (
+          <div className="flex items-center space-x-2">
+            <div className={`w-2 h-2 rounded-full ${
+              connectionStatus === 'connected' 
+                ? 'bg-trading-green animate-pulse' 
+                : connectionStatus === 'connecting'
+                ? 'bg-yellow-500 animate-pulse'
+                : 'bg-gray-400'
+            }`}></div>
+            <span className={`text-sm font-medium ${getStatusColor(connectionStatus)}`}>
+              {getStatusText(connectionStatus)}
+            </span>
+          </div>
+        )}
+
+        {/* Display currency rate; prices are converted with it */}
+        {currency.code !== 'USD' && (
+          <button
+            onClick={() => refreshRates()}
+            className={`hidden sm:flex items-center space-x-1 text-xs px-2 py-1 rounded ${
+              isRateStale ? 'bg-yellow-500/10 text-yellow-500' : 'text-gray-400 hover:text-white'
+            }`}
+            title={`${rateUpdatedAt ? `Rate updated ${new Date(rateUpdatedAt).toLocaleString()}` : 'Using a fallback rate - live rates have not loaded'}. Click to refresh.`}
+          >
+            {isRateStale && <AlertTriangle className="w-3 h-3" />}
+            <span>USD/{currency.code} {currency.rate.toFixed(currency.rate >= 10 ? 2 : 4)}</span>
+            {isRateStale && <span className="font-medium">Stale</span>}
+          </button>
+        )}
 
         {/* Current time */}
         <div className="text-sm text-gray-400 hidden sm:block">
           {new Date().toLocaleTimeString()}
         </div>
 
+        {/* Paper trading account */}
+        <AccountSwitcher />
+
         {/* Settings button */}
         <button
           onClick={() => setSettingsOpen(true)}
@@ -1,13 +1,15 @@
 import React, { useEffect } from 'react';
-import { binanceWebSocket } from '../services/BinanceWebSocketService';
-import { stockDataService, DEFAULT_STOCK_SYMBOLS } from '../services/StockDataService';
-import { MarketPrice } from '../types/trading';
+import { DEFAULT_STOCK_SYMBOLS } from '../services/StockDataService';
+import { DEFAULT_FOREX_PAIRS, forexDataService } from '../services/ForexDataService';
+import { marketDataRegistry } from '../services/MarketDataRegistry';
+import { MarketDataListener } from '../types/trading';
 import { useMarketStore } from '../stores/marketStore';
+import { useReplayActive } from '../stores/replayStore';
 
 // Crypto pairs to auto-subscribe - include all that we show in trading
 const DEFAULT_CRYPTO_PAIRS = [
   'BTCUSDT',
-  'ETHUSDT', 
+  'ETHUSDT',
   'BNBUSDT',
   'SOLUSDT',
   'ADAUSDT',
@@ -21,110 +23,61 @@ const DEFAULT_CRYPTO_PAIRS = [
 export const HybridDataProvider: React.FC = () => {
   const updatePrice = useMarketStore(state => state.updatePrice);
   const setConnectionStatus = useMarketStore(state => state.setConnectionStatus);
+  const replayActive = useReplayActive();
 
   useEffect(() => {
+    // While a replay is running it is the only source of market data
+    if (replayActive) {
+      console.log('⏪ Replay started - pausing live market data');
+      return;
+    }
+
     let mounted = true;
-    let refreshInterval: NodeJS.Timeout | null = null;
 
-    const initializeDataServices = async () => {
-      if (!mounted) return;
+    // Each symbol is routed to its feed by the registry: Binance WebSocket for crypto, Finnhub polling for stocks,
+    // TraderMade / Twelve Data polling for forex
+    const listener: MarketDataListener = {
+      onPrice: (price) => {
+        // Pass through data directly from the feed
+        updatePrice(price);
+      },
+      onStatusChange: () => {
+        if (mounted) setConnectionStatus(marketDataRegistry.getStatus());
+      },
+    };
 
-      // 1. Initialize Binance WebSocket for crypto
-      binanceWebSocket.setHandlers({
-        onPriceUpdate: (price: MarketPrice) => {
-          // ONLY track price, don't let PriceHistoryService calculate percentages
-          // priceHistoryService.updatePrice(price.symbol, price.price); // DISABLED - causes percentage overwrites
-          
-          // Pass through data directly from Binance
-          updatePrice(price);
-        },
-        onStatusChange: (status) => {
-          // Only update to connected when both services are running
-          if (status === 'connected' && stockDataService.isRunning()) {
-            setConnectionStatus('connected');
-          } else if (status === 'connecting') {
-            setConnectionStatus('connecting');
-          } else if (status === 'error') {
-            setConnectionStatus('error');
-          } else if (status === 'disconnected') {
-            setConnectionStatus('disconnected');
-          }
-        },
-        onError: (error) => {
-          console.error('Binance WebSocket error:', error);
-        },
-      });
+    // Subscriptions made before connecting are sent once each feed is up
+    // Forex pairs need an API key, so they are only streamed by default when one is configured
+    const market = useMarketStore.getState();
+    const forexPairs = forexDataService.isConfigured() ? DEFAULT_FOREX_PAIRS : [];
+    [...DEFAULT_CRYPTO_PAIRS, ...DEFAULT_STOCK_SYMBOLS, ...forexPairs].forEach(symbol => {
+      marketDataRegistry.subscribe(symbol);
+      market.addSubscription(symbol);
+    });
+    console.log('✅ Subscribed to default symbols:', DEFAULT_CRYPTO_PAIRS.length, 'crypto pairs,', DEFAULT_STOCK_SYMBOLS.length, 'stocks,', forexPairs.length, 'forex pairs');
 
-      try {
-        // Connect to Binance
-        console.log('Connecting to Binance WebSocket...');
-        await binanceWebSocket.connect();
-        
-        // Wait for connection to stabilize
-        setTimeout(() => {
-          if (!mounted) return;
-          
-          // Subscribe to all crypto pairs through the service's batching mechanism
-          DEFAULT_CRYPTO_PAIRS.forEach(symbol => {
-            binanceWebSocket.subscribe(symbol, 'ticker');
-            useMarketStore.getState().addSubscription(symbol);
-          });
-          
-          console.log('✅ Queued subscriptions for', DEFAULT_CRYPTO_PAIRS.length, 'crypto pairs');
-          
-          console.log('✅ Subscribed to crypto pairs:', DEFAULT_CRYPTO_PAIRS);
-          
-          // No REST API fallback - WebSocket only
-          console.log('✅ WebSocket-only mode - no REST API fallback');
-        }, 500);
-        
-      } catch (error) {
-        console.error('Failed to connect to Binance:', error);
-      }
+    marketDataRegistry.connectAll(listener).then(() => {
+      if (mounted) setConnectionStatus(marketDataRegistry.getStatus());
+    });
 
-      // 2. Start polling for stock data
-      console.log('Starting stock data polling...');
-      stockDataService.startPolling(DEFAULT_STOCK_SYMBOLS);
-      
-      // Add stock symbols to subscriptions
-      DEFAULT_STOCK_SYMBOLS.forEach(symbol => {
-        useMarketStore.getState().addSubscription(symbol);
-      });
-      
-      // Set overall status to connected
-      setTimeout(() => {
-        if (mounted && binanceWebSocket.getConnectionStatus()) {
-          setConnectionStatus('connected');
-        }
-      }, 1000);
-      
-      // Set up periodic connection check only
-      refreshInterval = setInterval(() => {
-        if (!mounted) return;
-        
-        // Check if WebSocket is still connected
-        if (!binanceWebSocket.getConnectionStatus()) {
-          console.log('WebSocket disconnected, attempting to reconnect...');
-          setConnectionStatus('disconnected');
-          binanceWebSocket.forceReconnect();
-        }
-      }, 30000); // Check connection every 30 seconds
-    };
+    // Set up periodic connection check only
+    const refreshInterval = setInterval(() => {
+      const status = marketDataRegistry.getStatus();
+      if (status !== 'disconnected' && status !== 'error') return;
 
-    initializeDataServices();
+      console.log('Market data disconnected, attempting to reconnect...');
+      setConnectionStatus(status);
+      marketDataRegistry.reconnect();
+    }, 30000); // Check connection every 30 seconds
 
     return () => {
       mounted = false;
-      // Clear refresh interval
-      if (refreshInterval) {
-        clearInterval(refreshInterval);
-      }
-      // Stop stock polling on unmount
-      stockDataService.stopPolling();
-      // Keep Binance connected for other components
+      clearInterval(refreshInterval);
+      // Stops stock and forex polling; the Binance socket stays open for other components
+      marketDataRegistry.disconnectAll();
     };
-  }, [updatePrice, setConnectionStatus]);
+  }, [replayActive, updatePrice, setConnectionStatus]);
 
   // This component doesn't render anything
   return null;
-};
\ No newline at end of file
+};
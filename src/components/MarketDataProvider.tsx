@@ -3,6 +3,7 @@ import { useMarketStore, useWatchlist } from '../stores/marketStore';
 // import { marketDataService } from '../services/MarketDataService';
 import { usePriceUpdates } from '../hooks/useWebSocket';
 import { MarketPrice } from '../types/trading';
+import { orderMatchingEngine } from '../services/OrderMatchingEngine';
 
 interface MarketDataProviderProps {
   children: React.ReactNode;
@@ -83,6 +84,15 @@ export const MarketDataProvider: React.FC<MarketDataProviderProps> = ({ children
     };
   }, []); // Empty dependency array - only run once on mount
 
+  // Fill simulated orders as live prices arrive
+  useEffect(() => {
+    orderMatchingEngine.start();
+
+    return () => {
+      orderMatchingEngine.stop();
+    };
+  }, []);
+
   // DISABLED: Handle watchlist changes - using Binance WebSocket instead
   // useEffect(() => {
   //   if (!marketDataService.isServiceInitialized()) return;
@@ -0,0 +1,94 @@
+import React, { useEffect } from 'react';
+import { useOrderBook } from '../stores/marketStore';
+import { orderBookService } from '../services/OrderBookService';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { DepthRow, getCumulativeDepth, getSpread } from '../utils/orderBook';
+
+interface OrderBookProps {
+  symbol: string;
+  enabled: boolean; // Depth is only streamed for Binance pairs
+  levels?: number;
+}
+
+interface DepthRowsProps {
+  rows: DepthRow[];
+  side: 'bids' | 'asks';
+  maxTotal: number;
+  formatPrice: (price: number, decimals?: number) => string;
+}
+
+const DepthRows: React.FC<DepthRowsProps> = ({ rows, side, maxTotal, formatPrice }) => (
+  <div className="space-y-px">
+    {rows.map(row => (
+      <div key={row.price} className="relative grid grid-cols-3 text-xs py-0.5">
+        {/* Cumulative depth bar */}
+        <div
+          className={`absolute inset-y-0 right-0 ${side === 'bids' ? 'bg-green-900/40' : 'bg-red-900/40'}`}
+          style={{ width: `${maxTotal > 0 ? (row.total / maxTotal) * 100 : 0}%` }}
+        />
+        <div className={`relative text-right ${side === 'bids' ? 'text-green-400' : 'text-red-400'}`}>
+          {formatPrice(row.price, 4)}
+        </div>
+        <div className="relative text-gray-400 text-right">{row.quantity.toFixed(4)}</div>
+        <div className="relative text-gray-500 text-right">{row.total.toFixed(4)}</div>
+      </div>
+    ))}
+  </div>
+);
+
+export const OrderBook: React.FC<OrderBookProps> = ({ symbol, enabled, levels = 10 }) => {
+  const { formatPrice } = useCurrency();
+  const book = useOrderBook(symbol);
+
+  useEffect(() => {
+    if (!enabled) return;
+    orderBookService.subscribe(symbol);
+    return () => orderBookService.unsubscribe(symbol);
+  }, [symbol, enabled]);
+
+  if (!enabled) {
+    return (
+      <div className="trading-card">
+        <h3 className="text-lg font-semibold text-white mb-4">Order Book</h3>
+        <div className="text-center text-gray-500 text-sm py-4">Market depth is not available for this symbol</div>
+      </div>
+    );
+  }
+
+  const bids = book ? getCumulativeDepth(book.bids, levels) : [];
+  // Asks are listed best-last so the spread sits between the two sides
+  const asks = book ? getCumulativeDepth(book.asks, levels).reverse() : [];
+  const maxTotal = Math.max(bids[bids.length - 1]?.total || 0, asks[0]?.total || 0);
+  const spread = book ? getSpread(book) : null;
+
+  return (
+    <div className="trading-card">
+      <h3 className="text-lg font-semibold text-white mb-4">Order Book</h3>
+      {!book ? (
+        <div className="text-center text-gray-500 text-sm py-4">Syncing order book...</div>
+      ) : (
+        <div className="space-y-2">
+          <div className="grid grid-cols-3 text-xs text-gray-500">
+            <div className="text-right">Price</div>
+            <div className="text-right">Size</div>
+            <div className="text-right">Total</div>
+          </div>
+
+          <DepthRows rows={asks} side="asks" maxTotal={maxTotal} formatPrice={formatPrice} />
+
+          {/* Spread */}
+          <div className="border-t border-b border-trading-border py-2 flex items-center justify-between text-xs">
+            <span className="font-semibold text-white text-sm">
+              {spread ? formatPrice(spread.midPrice, 4) : '---'}
+            </span>
+            <span className="text-gray-400">
+              Spread {spread ? `${formatPrice(spread.spread, 4)} (${spread.spreadPercent.toFixed(3)}%)` : '---'}
+            </span>
+          </div>
+
+          <DepthRows rows={bids} side="bids" maxTotal={maxTotal} formatPrice={formatPrice} />
+        </div>
+      )}
+    </div>
+  );
+};
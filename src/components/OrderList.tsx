@@ -0,0 +1,289 @@
+import React, { useState } from 'react';
+import { useOrders, usePortfolioStore } from '../stores/portfolioStore';
+import { Order, OrderAmendment, OrderAmendmentFields } from '../types/trading';
+import { orderService, OrderResult } from '../services/OrderService';
+import { formatCurrency } from '../utils/constants';
+import { isOrderOpen, isTrailingOrder } from '../utils/orderMatching';
+import { groupOrders, isGroupOpen } from '../utils/orderGroups';
+
+const getStatusColor = (status: Order['status']): string => {
+  switch (status) {
+    case 'filled':
+      return 'text-trading-green';
+    case 'partiallyFilled':
+      return 'text-yellow-500';
+    case 'cancelled':
+    case 'rejected':
+      return 'text-trading-red';
+    case 'expired':
+      return 'text-gray-500';
+    default:
+      return 'text-gray-400';
+  }
+};
+
+const getOrderLabel = (order: Order): string => {
+  if (order.liquidation) return 'Liquidation';
+  if (order.bracketLeg === 'takeProfit') return 'Take Profit';
+  if (order.bracketLeg === 'stopLoss') return 'Stop Loss';
+  switch (order.type) {
+    case 'stopLimit':
+      return 'Stop Limit';
+    case 'trailingStop':
+      return 'Trailing Stop';
+    case 'trailingStopLimit':
+      return 'Trailing Stop Limit';
+    default:
+      return order.type.charAt(0).toUpperCase() + order.type.slice(1);
+  }
+};
+
+const getOrderPrice = (order: Order): string => {
+  const parts: string[] = [];
+  if (isTrailingOrder(order)) {
+    const trail = order.trailPercent !== undefined ? `${order.trailPercent}%` : formatCurrency(order.trailAmount || 0);
+    const mark = order.highWaterMark !== undefined ? ` from ${order.side === 'sell' ? 'high' : 'low'} ${formatCurrency(order.highWaterMark)}` : '';
+    parts.push(`trail ${trail}${mark}`);
+  }
+  if (order.stopPrice !== undefined) parts.push(`stop ${formatCurrency(order.stopPrice)}`);
+  if (order.price !== undefined) parts.push(`limit ${formatCurrency(order.price)}`);
+  return parts.length > 0 ? parts.join(' / ') : 'market';
+};
+
+const AMENDMENT_LABELS: Record<keyof OrderAmendmentFields, string> = {
+  quantity: 'qty',
+  price: 'limit',
+  stopPrice: 'stop',
+  trailAmount: 'trail',
+  trailPercent: 'trail %',
+  limitOffset: 'offset',
+};
+
+const formatAmendment = (amendment: OrderAmendment): string => {
+  const fields = Object.keys(amendment.changes) as (keyof OrderAmendmentFields)[];
+  return fields.map(field => {
+    const format = (value?: number) => {
+      if (value === undefined) return '—';
+      if (field === 'quantity') return String(value);
+      return field === 'trailPercent' ? `${value}%` : formatCurrency(value);
+    };
+    return `${AMENDMENT_LABELS[field]} ${format(amendment.previous[field])} → ${format(amendment.changes[field])}`;
+  }).join(', ');
+};
+
+// Which fields an open order can still have amended; trailing levels move with the market, so their trail is edited instead
+const getEditableFields = (order: Order): Record<keyof OrderAmendmentFields, boolean> => {
+  const trailing = isTrailingOrder(order) && !order.triggered;
+  return {
+    quantity: !order.bracketLeg,
+    price: order.type === 'limit' || order.type === 'stopLimit' || order.type === 'bracket',
+    stopPrice: (order.type === 'stop' || order.type === 'stopLimit') && !order.triggered,
+    trailAmount: trailing && order.trailPercent === undefined,
+    trailPercent: trailing && order.trailPercent !== undefined,
+    limitOffset: trailing && order.type === 'trailingStopLimit',
+  };
+};
+
+const EMPTY_DRAFT: Record<keyof OrderAmendmentFields, string> = {
+  quantity: '',
+  price: '',
+  stopPrice: '',
+  trailAmount: '',
+  trailPercent: '',
+  limitOffset: '',
+};
+
+interface OrderRowProps {
+  order: Order;
+  isChild?: boolean;
+  onCancel: (id: string) => void;
+  onReplace: (id: string, changes: OrderAmendmentFields) => OrderResult;
+}
+
+const OrderRow: React.FC<OrderRowProps> = ({ order, isChild, onCancel, onReplace }) => {
+  const [editing, setEditing] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [draft, setDraft] = useState<Record<keyof OrderAmendmentFields, string>>(EMPTY_DRAFT);
+  const [error, setError] = useState<string | null>(null);
+
+  const editable = getEditableFields(order);
+  const canEdit = isOrderOpen(order) && !order.liquidation && Object.values(editable).some(Boolean);
+  const amendments = order.amendments || [];
+
+  const startEditing = () => {
+    const fields = Object.keys(EMPTY_DRAFT) as (keyof OrderAmendmentFields)[];
+    setDraft(fields.reduce((values, field) => {
+      values[field] = order[field] !== undefined ? String(order[field]) : '';
+      return values;
+    }, { ...EMPTY_DRAFT }));
+    setError(null);
+    setEditing(true);
+  };
+
+  const saveChanges = () => {
+    // Only send the fields that were actually edited
+    const changes: OrderAmendmentFields = {};
+    (Object.keys(draft) as (keyof OrderAmendmentFields)[]).forEach(field => {
+      if (!editable[field] || draft[field] === '') return;
+      const value = parseFloat(draft[field]);
+      if (value !== order[field]) changes[field] = value;
+    });
+    if (Object.keys(changes).length === 0) {
+      setEditing(false);
+      return;
+    }
+
+    const result = onReplace(order.id, changes);
+    if (!result.success) {
+      setError(result.violations?.map(v => v.message).join('; ') || result.reason || 'Amendment rejected');
+      return;
+    }
+    setEditing(false);
+    setError(null);
+  };
+
+  const renderInput = (field: keyof OrderAmendmentFields) => (
+    <label className="flex items-center space-x-1">
+      <span className="text-gray-500">{AMENDMENT_LABELS[field]}</span>
+      <input
+        type="number"
+        min="0"
+        step="any"
+        value={draft[field]}
+        onChange={(e) => setDraft(prev => ({ ...prev, [field]: e.target.value }))}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') saveChanges();
+          if (e.key === 'Escape') setEditing(false);
+        }}
+        className="w-20 bg-trading-bg border border-trading-border rounded px-1.5 py-0.5 text-white font-mono focus:ring-1 focus:ring-blue-500"
+      />
+    </label>
+  );
+
+  return (
+    <div className={`text-sm py-2 ${isChild ? 'pl-6 border-l-2 border-trading-border ml-2' : ''}`}>
+      <div className="flex justify-between items-center">
+        <div>
+          <div className="flex items-center space-x-2">
+            <span className={`text-xs font-semibold px-2 py-0.5 rounded ${
+              order.side === 'buy' ? 'bg-green-900 text-green-300' : 'bg-red-900 text-red-300'
+            }`}>
+              {order.side.toUpperCase()}
+            </span>
+            <span className="text-white">{order.symbol}</span>
+            <span className="text-gray-400">{getOrderLabel(order)}</span>
+          </div>
+          <div className="text-xs text-gray-500 mt-1 font-mono">
+            {order.filledQuantity ? `${order.filledQuantity}/` : ''}{order.quantity} @ {getOrderPrice(order)}
+            {order.timeInForce && order.timeInForce !== 'GTC' && ` · ${order.timeInForce}`}
+            {order.expiresAt !== undefined && isOrderOpen(order) && ` until ${new Date(order.expiresAt).toLocaleString()}`}
+            {order.type === 'bracket' && (
+              <span>
+                {order.takeProfitPrice !== undefined && ` · TP ${formatCurrency(order.takeProfitPrice)}`}
+                {order.stopLossPrice !== undefined && ` · SL ${formatCurrency(order.stopLossPrice)}`}
+              </span>
+            )}
+          </div>
+        </div>
+        <div className="flex items-center space-x-3">
+          {amendments.length > 0 && (
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              className="text-xs text-gray-500 hover:text-gray-300 transition-colors"
+              title="Amendment history"
+            >
+              amended ×{amendments.length}
+            </button>
+          )}
+          <span className={`text-xs font-medium ${getStatusColor(order.status)}`}>
+            {order.status === 'partiallyFilled' ? 'partial' : order.status}
+          </span>
+          {canEdit && !editing && (
+            <button
+              onClick={startEditing}
+              className="text-xs text-gray-400 hover:text-blue-400 transition-colors"
+            >
+              Modify
+            </button>
+          )}
+          {isOrderOpen(order) && (
+            <button
+              onClick={() => onCancel(order.id)}
+              className="text-xs text-gray-400 hover:text-trading-red transition-colors"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Inline cancel-replace */}
+      {editing && canEdit && (
+        <div className="mt-2 flex flex-wrap items-center gap-3 text-xs">
+          {editable.quantity && renderInput('quantity')}
+          {editable.price && renderInput('price')}
+          {editable.stopPrice && renderInput('stopPrice')}
+          {editable.trailAmount && renderInput('trailAmount')}
+          {editable.trailPercent && renderInput('trailPercent')}
+          {editable.limitOffset && renderInput('limitOffset')}
+          <button onClick={saveChanges} className="text-blue-400 hover:text-blue-300 transition-colors">
+            Replace
+          </button>
+          <button onClick={() => setEditing(false)} className="text-gray-400 hover:text-white transition-colors">
+            Discard
+          </button>
+        </div>
+      )}
+      {editing && canEdit && error && <div className="mt-1 text-xs text-trading-red">{error}</div>}
+
+      {showHistory && amendments.length > 0 && (
+        <div className="mt-2 space-y-0.5 text-xs text-gray-500 font-mono">
+          {amendments.map((amendment, index) => (
+            <div key={index}>
+              {new Date(amendment.timestamp).toLocaleTimeString()} · {formatAmendment(amendment)}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const OrderList: React.FC = () => {
+  const orders = useOrders();
+  const cancelOrder = usePortfolioStore(state => state.cancelOrder);
+  const replaceOrder = (id: string, changes: OrderAmendmentFields) => orderService.replaceOrder(id, changes);
+  const [showAll, setShowAll] = useState(false);
+
+  const groups = groupOrders(orders).filter(group => showAll || isGroupOpen(group));
+
+  return (
+    <div className="trading-card">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-white">Orders</h2>
+        <button
+          onClick={() => setShowAll(!showAll)}
+          className="text-sm text-blue-400 hover:text-blue-300 transition-colors"
+        >
+          {showAll ? 'Open only' : 'Show all'}
+        </button>
+      </div>
+      {groups.length === 0 ? (
+        <div className="text-center text-gray-500 text-sm py-8">
+          {showAll ? 'No orders yet' : 'No open orders'}
+        </div>
+      ) : (
+        <div className="divide-y divide-trading-border max-h-80 overflow-y-auto">
+          {groups.map(({ root, children }) => (
+            <div key={root.id}>
+              <OrderRow order={root} onCancel={cancelOrder} onReplace={replaceOrder} />
+              {children.map(child => (
+                <OrderRow key={child.id} order={child} isChild onCancel={cancelOrder} onReplace={replaceOrder} />
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
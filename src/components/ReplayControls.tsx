@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { History, Pause, Play, SkipForward, Square } from 'lucide-react';
+import { useReplayStore, useReplayActive } from '../stores/replayStore';
+import { replayService, ReplayInterval, MIN_REPLAY_SPEED, MAX_REPLAY_SPEED } from '../services/ReplayService';
+
+interface ReplayControlsProps {
+  symbol: string; // Preselected symbol to replay
+}
+
+const SPEED_PRESETS = [1, 5, 10, 25, 50, 100];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Yesterday as a yyyy-mm-dd date input value
+const getDefaultDate = (): string => {
+  const yesterday = new Date(Date.now() - DAY_MS);
+  const month = String(yesterday.getMonth() + 1).padStart(2, '0');
+  const day = String(yesterday.getDate()).padStart(2, '0');
+  return `${yesterday.getFullYear()}-${month}-${day}`;
+};
+
+export const ReplayControls: React.FC<ReplayControlsProps> = ({ symbol }) => {
+  const status = useReplayStore(state => state.status);
+  const speed = useReplayStore(state => state.speed);
+  const position = useReplayStore(state => state.position);
+  const length = useReplayStore(state => state.length);
+  const currentTime = useReplayStore(state => state.currentTime);
+  const replaySymbols = useReplayStore(state => state.symbols);
+  const error = useReplayStore(state => state.error);
+  const active = useReplayActive();
+
+  const [symbols, setSymbols] = useState(symbol);
+  const [date, setDate] = useState(getDefaultDate);
+  const [interval, setInterval] = useState<ReplayInterval>('1m');
+
+  const handleLoad = () => {
+    // Replay the chosen day in local time
+    const startTime = new Date(`${date}T00:00:00`).getTime();
+    const endTime = Math.min(startTime + DAY_MS, Date.now());
+    const list = symbols.split(',').map(s => s.trim().toUpperCase()).filter(Boolean);
+    replayService.loadHistorical({ symbols: list, interval, startTime, endTime });
+  };
+
+  const progress = length > 0 ? (position / length) * 100 : 0;
+
+  return (
+    <div className="trading-card">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <History className="w-4 h-4 text-gray-400" />
+          <h3 className="text-lg font-semibold text-white">Market Replay</h3>
+          {active && (
+            <span className="text-xs font-semibold px-2 py-0.5 rounded bg-yellow-900 text-yellow-300">
+              REPLAY · {replaySymbols.join(', ')}
+            </span>
+          )}
+        </div>
+        {active && (
+          <button
+            onClick={() => replayService.stop()}
+            className="flex items-center gap-1 text-sm text-gray-400 hover:text-trading-red transition-colors"
+          >
+            <Square className="w-3.5 h-3.5" />
+            Back to live
+          </button>
+        )}
+      </div>
+
+      {!active ? (
+        <div className="flex flex-wrap items-end gap-3 text-sm">
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-gray-500">Symbols</span>
+            <input
+              type="text"
+              value={symbols}
+              onChange={(e) => setSymbols(e.target.value)}
+              placeholder="BTCUSDT, ETHUSDT"
+              className="w-48 bg-gray-800 text-white px-3 py-1.5 rounded-lg border border-gray-700 focus:border-blue-500 focus:outline-none"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-gray-500">Day</span>
+            <input
+              type="date"
+              value={date}
+              max={getDefaultDate()}
+              onChange={(e) => setDate(e.target.value)}
+              className="bg-gray-800 text-white px-3 py-1.5 rounded-lg border border-gray-700 focus:border-blue-500 focus:outline-none"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-gray-500">Bars</span>
+            <select
+              value={interval}
+              onChange={(e) => setInterval(e.target.value as ReplayInterval)}
+              className="bg-gray-800 text-white px-3 py-1.5 rounded-lg border border-gray-700 focus:border-blue-500 focus:outline-none"
+            >
+              <option value="1m">1 minute</option>
+              <option value="5m">5 minutes</option>
+              <option value="15m">15 minutes</option>
+            </select>
+          </label>
+          <button
+            onClick={handleLoad}
+            disabled={status === 'loading' || !date}
+            className="px-4 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-medium transition-colors"
+          >
+            {status === 'loading' ? 'Loading...' : 'Load replay'}
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-3 text-sm">
+          <div className="flex flex-wrap items-center gap-3">
+            {status === 'playing' ? (
+              <button
+                onClick={() => replayService.pause()}
+                className="p-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-white transition-colors"
+                aria-label="Pause"
+              >
+                <Pause className="w-4 h-4" />
+              </button>
+            ) : (
+              <button
+                onClick={() => replayService.play()}
+                disabled={status === 'finished'}
+                className="p-2 rounded-lg bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-white transition-colors"
+                aria-label="Play"
+              >
+                <Play className="w-4 h-4" />
+              </button>
+            )}
+            <button
+              onClick={() => replayService.step()}
+              disabled={status !== 'paused'}
+              className="p-2 rounded-lg bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-white transition-colors"
+              aria-label="Step"
+            >
+              <SkipForward className="w-4 h-4" />
+            </button>
+
+            <div className="flex items-center gap-1">
+              {SPEED_PRESETS.map(preset => (
+                <button
+                  key={preset}
+                  onClick={() => replayService.setSpeed(preset)}
+                  className={`px-2 py-1 rounded text-xs font-mono transition-colors ${
+                    speed === preset ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'
+                  }`}
+                >
+                  {preset}x
+                </button>
+              ))}
+            </div>
+            <input
+              type="range"
+              min={MIN_REPLAY_SPEED}
+              max={MAX_REPLAY_SPEED}
+              value={speed}
+              onChange={(e) => replayService.setSpeed(parseInt(e.target.value, 10))}
+              className="w-32"
+              aria-label="Replay speed"
+            />
+            <span className="text-gray-400 font-mono w-12">{speed}x</span>
+          </div>
+
+          <div>
+            <div className="h-1.5 bg-gray-800 rounded-full overflow-hidden">
+              <div className="h-full bg-blue-500 transition-all" style={{ width: `${progress}%` }} />
+            </div>
+            <div className="flex justify-between mt-1 text-xs text-gray-500 font-mono">
+              <span>{currentTime !== undefined ? new Date(currentTime).toLocaleString() : '—'}</span>
+              <span>{status === 'finished' ? 'Replay finished' : `${position}/${length} ticks`}</span>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {error && <div className="mt-2 text-xs text-trading-red">{error}</div>}
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { X, Settings, Moon, Sun, Clock, TrendingUp, Grid, Volume2, DollarSign } from 'lucide-react';
+import { AccountSettings } from './AccountSettings';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -311,6 +312,9 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
                 </label>
               </div>
             </div>
+
+            {/* Account Section */}
+            <AccountSettings />
           </div>
         </div>
 
@@ -17,6 +17,7 @@ const navigationItems: NavigationItem[] = [
   { id: 'dashboard', label: 'Dashboard', icon: '📊', active: true },
   { id: 'trading', label: 'Trading', icon: '💱' },
   { id: 'portfolio', label: 'Portfolio', icon: '💼' },
+  { id: 'accounts', label: 'Accounts', icon: '🗂️' },
   { id: 'history', label: 'History', icon: '📈' },
   { id: 'analysis', label: 'Analysis', icon: '🔍' },
   { id: 'settings', label: 'Settings', icon: '⚙️' },
@@ -39,6 +39,7 @@ export const SymbolSelector: React.FC<SymbolSelectorProps> = ({
 
   const cryptoSymbols = symbols.filter(s => s.type === 'crypto');
   const stockSymbols = symbols.filter(s => s.type === 'stock');
+  const forexSymbols = symbols.filter(s => s.type === 'forex');
 
   return (
     <div className="relative" ref={dropdownRef}>
@@ -121,6 +122,37 @@ export const SymbolSelector: React.FC<SymbolSelectorProps> = ({
               ))}
             </>
           )}
+
+          {/* Forex */}
+          {forexSymbols.length > 0 && (
+            <>
+              <div className="px-3 py-2 text-xs font-semibold text-gray-400 uppercase tracking-wider bg-black bg-opacity-20 border-t border-trading-border">
+                Forex
+              </div>
+              {forexSymbols.map(symbol => (
+                <button
+                  key={symbol.displaySymbol || symbol.symbol}
+                  onClick={() => handleSelect(symbol)}
+                  className={`w-full px-3 py-2 text-left hover:bg-trading-border transition-colors flex items-center space-x-2 ${
+                    selectedSymbol.symbol === symbol.symbol
+                      ? 'bg-blue-600 bg-opacity-20 text-blue-400'
+                      : 'text-gray-300 hover:text-white'
+                  }`}
+                >
+                  <span className="text-lg">{symbol.icon}</span>
+                  <div className="flex-1">
+                    <div className="font-medium">{symbol.name}</div>
+                    <div className="text-xs text-gray-500">{symbol.displaySymbol || symbol.symbol}</div>
+                  </div>
+                  {selectedSymbol.symbol === symbol.symbol && (
+                    <svg className="w-4 h-4 text-blue-400" fill="currentColor" viewBox="0 0 20 20">
+                      <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                    </svg>
+                  )}
+                </button>
+              ))}
+            </>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,118 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { useRecentTrades } from '../stores/marketStore';
+import { tradeTapeService } from '../services/TradeTapeService';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { MarketTrade } from '../types/trading';
+
+interface TimeAndSalesProps {
+  symbol: string;
+  enabled: boolean; // Trades are only streamed for Binance pairs
+  rows?: number;
+}
+
+// A print is "large" when it is this many times the median size on the tape
+const LARGE_PRINT_MULTIPLE = 5;
+const MIN_TRADES_FOR_LARGE_PRINTS = 20;
+const RATE_WINDOW_MS = 10000;
+
+const getMedianQuantity = (trades: MarketTrade[]): number => {
+  if (trades.length === 0) return 0;
+  const sorted = trades.map(trade => trade.quantity).sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const getTradesPerSecond = (trades: MarketTrade[], now: number): number => {
+  // Trades are newest first, so stop at the first one outside the window
+  let count = 0;
+  for (const trade of trades) {
+    if (now - trade.timestamp > RATE_WINDOW_MS) break;
+    count++;
+  }
+  return count / (RATE_WINDOW_MS / 1000);
+};
+
+export const TimeAndSales: React.FC<TimeAndSalesProps> = ({ symbol, enabled, rows = 25 }) => {
+  const { formatPrice } = useCurrency();
+  const trades = useRecentTrades(symbol);
+  const [now, setNow] = useState(Date.now());
+  const peakRateRef = useRef(0);
+
+  useEffect(() => {
+    if (!enabled) return;
+    tradeTapeService.subscribe(symbol);
+    return () => tradeTapeService.unsubscribe(symbol);
+  }, [symbol, enabled]);
+
+  // The rate meter decays even when no trades arrive
+  useEffect(() => {
+    if (!enabled) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [enabled]);
+
+  useEffect(() => {
+    peakRateRef.current = 0;
+  }, [symbol]);
+
+  if (!enabled) {
+    return (
+      <div className="trading-card">
+        <h3 className="text-lg font-semibold text-white mb-4">Time &amp; Sales</h3>
+        <div className="text-center text-gray-500 text-sm py-4">Trade data is not available for this symbol</div>
+      </div>
+    );
+  }
+
+  const tape = trades || [];
+  const medianQuantity = getMedianQuantity(tape);
+  const largePrintThreshold = tape.length >= MIN_TRADES_FOR_LARGE_PRINTS ? medianQuantity * LARGE_PRINT_MULTIPLE : Infinity;
+  const tradesPerSecond = getTradesPerSecond(tape, Math.max(now, tape[0]?.timestamp || 0));
+  peakRateRef.current = Math.max(peakRateRef.current, tradesPerSecond);
+
+  return (
+    <div className="trading-card">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white">Time &amp; Sales</h3>
+        <div className="flex items-center space-x-2 text-xs text-gray-400">
+          <div className="w-16 h-1.5 bg-trading-bg rounded overflow-hidden">
+            <div
+              className="h-full bg-blue-500 transition-all"
+              style={{ width: `${peakRateRef.current > 0 ? (tradesPerSecond / peakRateRef.current) * 100 : 0}%` }}
+            />
+          </div>
+          <span className="font-mono">{tradesPerSecond.toFixed(1)}/s</span>
+        </div>
+      </div>
+
+      {tape.length === 0 ? (
+        <div className="text-center text-gray-500 text-sm py-4">Waiting for trades...</div>
+      ) : (
+        <div className="space-y-px">
+          <div className="grid grid-cols-3 text-xs text-gray-500 pb-1">
+            <div>Time</div>
+            <div className="text-right">Price</div>
+            <div className="text-right">Size</div>
+          </div>
+          {tape.slice(0, rows).map(trade => {
+            const isLarge = trade.quantity >= largePrintThreshold;
+            return (
+              <div
+                key={trade.id}
+                className={`grid grid-cols-3 text-xs py-0.5 ${
+                  isLarge ? (trade.side === 'buy' ? 'bg-green-900/50 font-semibold' : 'bg-red-900/50 font-semibold') : ''
+                }`}
+              >
+                <div className="text-gray-500 font-mono">{format(trade.timestamp, 'HH:mm:ss')}</div>
+                <div className={`text-right font-mono ${trade.side === 'buy' ? 'text-green-400' : 'text-red-400'}`}>
+                  {formatPrice(trade.price, 4)}
+                </div>
+                <div className="text-right font-mono text-gray-300">{trade.quantity.toFixed(4)}</div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,3 +1,5 @@
+import { API_CONFIG } from '../utils/constants';
+
 // Enhanced cache for historical data with loading states
 const dataCache = new Map<string, { data: any; timestamp: number; loading?: boolean }>();
 const loadingStates = new Map<string, boolean>();
@@ -112,7 +114,7 @@ export async function fetchBinanceKlines(symbol: string, interval: string, curre
     const maxLimit = 1000;
     const actualLimit = Math.min(limit, maxLimit);
     
-    const url = `https://api.binance.com/api/v3/klines?symbol=${symbol}&interval=${binanceInterval}&limit=${actualLimit}`;
+    const url = `${API_CONFIG.BINANCE.REST_URL}/klines?symbol=${symbol}&interval=${binanceInterval}&limit=${actualLimit}`;
     
     const response = await fetch(url);
     let data = await response.json();
@@ -135,7 +137,7 @@ export async function fetchBinanceKlines(symbol: string, interval: string, curre
             // Get the oldest timestamp from current data
             const endTime = (batch === 1 ? data : additionalData)[0][0];
             
-            const batchUrl = `https://api.binance.com/api/v3/klines?symbol=${symbol}&interval=${binanceInterval}&limit=${batchSize}&endTime=${endTime - 1}`;
+            const batchUrl = `${API_CONFIG.BINANCE.REST_URL}/klines?symbol=${symbol}&interval=${binanceInterval}&limit=${batchSize}&endTime=${endTime - 1}`;
             
             console.log(`Fetching batch ${batch + 1}/${batches} for ${symbol} (${batchSize} candles)`);
             
@@ -1,10 +1,18 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import { createChart, ColorType, CrosshairMode, LineStyle, UTCTimestamp } from 'lightweight-charts';
 import { useMarketStore } from '../stores/marketStore';
 import { API_CONFIG } from '../utils/constants';
 import { fetchBinanceKlines, isLoading, clearSymbolCache } from './TradingViewChartData';
 import { useSettings } from './SettingsModal';
 import { useCurrency } from '../contexts/CurrencyContext';
+import { useOrders } from '../stores/portfolioStore';
+import { isOrderOpen, isTrailingOrder } from '../utils/orderMatching';
+import { getSymbolType, toMarketSymbol } from '../utils/symbolUtils';
+import { formatForexPrice, getForexPriceDecimals } from '../utils/forex';
+import { marketDataRegistry } from '../services/MarketDataRegistry';
+import { BarInterval, TradingSymbol } from '../types/trading';
+import { useReplayStore, useReplayActive } from '../stores/replayStore';
+import { replayService } from '../services/ReplayService';
 
 interface Currency {
   code: 'USD' | 'EUR' | 'GBP';
@@ -17,10 +25,45 @@ interface TradingViewProfessionalChartProps {
   symbol: string;
   displaySymbol?: string; // The symbol to display in the UI (currency-aware)
   height?: number;
-  availableSymbols?: { symbol: string; name: string; type: 'crypto' | 'stock'; icon: string; displaySymbol?: string }[];
+  availableSymbols?: { symbol: string; name: string; type: TradingSymbol['type']; icon: string; displaySymbol?: string }[];
   onSymbolChange?: (symbol: string) => void;
 }
 
+// Candle length for each chart interval
+const CHART_INTERVAL_MS: Record<string, number> = {
+  '1': 60000,
+  '5': 300000,
+  '15': 900000,
+  '30': 1800000,
+  '60': 3600000,
+  '240': 14400000,
+  'D': 86400000,
+  'W': 604800000,
+  'M': 2629746000 // Average month (30.44 days)
+};
+
+// Provider bar interval for each chart interval
+const CHART_BAR_INTERVALS: Record<string, BarInterval> = {
+  '1': '1m',
+  '5': '5m',
+  '15': '15m',
+  '30': '30m',
+  '60': '1h',
+  '240': '4h',
+  'D': '1d',
+  'W': '1w',
+  'M': '1M'
+};
+
+// Axis precision: forex to the pipette, crypto pairs to the cent
+const getPriceFormat = (symbol: string) => {
+  if (getSymbolType(symbol) === 'forex') {
+    const precision = getForexPriceDecimals(symbol);
+    return { type: 'price' as const, precision, minMove: Math.pow(10, -precision) };
+  }
+  return { type: 'price' as const, precision: symbol.includes('USDT') ? 2 : 4, minMove: 0.01 };
+};
+
 interface ChartData {
   candles: any[];
   volumes: any[];
@@ -41,7 +84,19 @@ export const TradingViewProfessionalChart: React.FC<TradingViewProfessionalChart
   const chartDataRef = useRef<Map<string, ChartData>>(new Map());
   const isMountedRef = useRef(true);
   const settings = useSettings();
-  const { currency } = useCurrency();
+  const { currency: displayCurrency } = useCurrency();
+  const orders = useOrders();
+  
+  // Forex rates are quoted in their own currencies, so they are charted without conversion
+  const isForex = getSymbolType(symbol) === 'forex';
+  const currency = useMemo(
+    () => (isForex ? { ...displayCurrency, symbol: '', rate: 1 } : displayCurrency),
+    [isForex, displayCurrency]
+  );
+  const formatOHLC = (value?: number) => {
+    if (!value) return isForex ? formatForexPrice(0, symbol) : '0.00';
+    return isForex ? formatForexPrice(value, symbol) : (value * currency.rate).toFixed(2);
+  };
   
   const [interval, setInterval] = useState<'1' | '5' | '15' | '30' | '60' | '240' | 'D' | 'W' | 'M'>('15');
   const [chartType, setChartType] = useState<'candles' | 'line' | 'area' | 'bars'>(settings.chartType === 'bars' ? 'bars' : settings.chartType === 'line' ? 'line' : 'candles');
@@ -99,6 +154,17 @@ export const TradingViewProfessionalChart: React.FC<TradingViewProfessionalChart
   const prices = useMarketStore(state => state.prices);
   const currentPrice = prices.get(symbol);
 
+  // Replays feed the chart their own history; reload whenever one starts or stops
+  const replaySession = useReplayStore(state => state.session);
+  const replaySymbols = useReplayStore(state => state.symbols);
+  const replayActive = useReplayActive();
+  const replaySessionRef = useRef(replaySession);
+  useEffect(() => {
+    if (replaySessionRef.current === replaySession) return;
+    replaySessionRef.current = replaySession;
+    chartDataRef.current.clear();
+  }, [replaySession]);
+
   // Calculate percentage change for the selected interval
   const calculateIntervalPercentChange = useCallback((candles: any[], currentInterval: string, currentPriceOverride?: number) => {
     if (!candles || candles.length < 2) {
@@ -156,6 +222,43 @@ export const TradingViewProfessionalChart: React.FC<TradingViewProfessionalChart
   const fetchHistoricalData = useCallback(async (symbol: string, interval: string) => {
     console.log('Fetching historical data for', symbol, 'with interval', interval);
     
+    // During a replay, only what has been replayed so far
+    if (replayActive && replaySymbols.includes(symbol)) {
+      const history = replayService.getChartHistory(symbol, CHART_INTERVAL_MS[interval] || 900000);
+      const candles = history.map(bar => ({
+        time: Math.floor(bar.time / 1000),
+        open: bar.open * currency.rate,
+        high: bar.high * currency.rate,
+        low: bar.low * currency.rate,
+        close: bar.close * currency.rate
+      }));
+      const volumes = history.map(bar => ({
+        time: Math.floor(bar.time / 1000),
+        value: bar.volume || 0,
+        color: bar.close >= bar.open ? 'rgba(38, 166, 154, 0.5)' : 'rgba(239, 83, 80, 0.5)'
+      }));
+      return { candles, volumes, lastUpdate: Date.now() };
+    }
+    
+    // For forex, use whichever provider serves the pair (rates are not currency-converted)
+    if (getSymbolType(symbol) === 'forex') {
+      const bars = await marketDataRegistry.fetchHistoricalBars(symbol, CHART_BAR_INTERVALS[interval] || '15m', 150);
+      const candles = bars.map(bar => ({
+        time: Math.floor(bar.time / 1000),
+        open: bar.open,
+        high: bar.high,
+        low: bar.low,
+        close: bar.close
+      }));
+      // Forex has no central volume, so the histogram stays empty
+      const volumes = bars.map(bar => ({
+        time: Math.floor(bar.time / 1000),
+        value: bar.volume || 0,
+        color: bar.close >= bar.open ? 'rgba(38, 166, 154, 0.5)' : 'rgba(239, 83, 80, 0.5)'
+      }));
+      return { candles, volumes, lastUpdate: Date.now() };
+    }
+    
     // For crypto, use Binance API
     if (symbol.includes('USDT')) {
       return await fetchBinanceKlines(symbol, interval, currency.rate, currency.code);
@@ -230,7 +333,7 @@ export const TradingViewProfessionalChart: React.FC<TradingViewProfessionalChart
     
     // Return empty data if fetch fails
     return { candles: [], volumes: [], lastUpdate: Date.now() };
-  }, [currency]);
+  }, [currency, replayActive, replaySymbols]);
   
   // Initialize or get chart data
   const getChartData = useCallback((symbol: string, interval: string) => {
@@ -503,11 +606,7 @@ export const TradingViewProfessionalChart: React.FC<TradingViewProfessionalChart
           priceLineColor: '#2962FF',
           priceLineStyle: LineStyle.Dashed,
           lastValueVisible: true,
-          priceFormat: {
-            type: 'price',
-            precision: symbol.includes('USDT') ? 2 : 4,
-            minMove: 0.01
-          }
+          priceFormat: getPriceFormat(symbol)
         });
         break;
       case 'line':
@@ -521,11 +620,7 @@ export const TradingViewProfessionalChart: React.FC<TradingViewProfessionalChart
           lastValueVisible: true,
           crosshairMarkerVisible: true,
           crosshairMarkerRadius: 5,
-          priceFormat: {
-            type: 'price',
-            precision: symbol.includes('USDT') ? 2 : 4,
-            minMove: 0.01
-          }
+          priceFormat: getPriceFormat(symbol)
         });
         break;
       case 'area':
@@ -541,11 +636,7 @@ export const TradingViewProfessionalChart: React.FC<TradingViewProfessionalChart
           lastValueVisible: true,
           crosshairMarkerVisible: true,
           crosshairMarkerRadius: 5,
-          priceFormat: {
-            type: 'price',
-            precision: symbol.includes('USDT') ? 2 : 4,
-            minMove: 0.01
-          }
+          priceFormat: getPriceFormat(symbol)
         });
         break;
       case 'bars':
@@ -559,11 +650,7 @@ export const TradingViewProfessionalChart: React.FC<TradingViewProfessionalChart
           priceLineColor: '#2962FF',
           priceLineStyle: LineStyle.Dashed,
           lastValueVisible: true,
-          priceFormat: {
-            type: 'price',
-            precision: symbol.includes('USDT') ? 2 : 4,
-            minMove: 0.01
-          }
+          priceFormat: getPriceFormat(symbol)
         });
         break;
     }
@@ -879,7 +966,6 @@ export const TradingViewProfessionalChart: React.FC<TradingViewProfessionalChart
 
     const updatePrice = () => {
       const now = Date.now();
-      const nowSeconds = Math.floor(now / 1000);
       
       // Check if component is still mounted
       if (!isMountedRef.current) return;
@@ -893,14 +979,16 @@ export const TradingViewProfessionalChart: React.FC<TradingViewProfessionalChart
       const data = getChartData(symbol, interval);
       if (!data || data.candles.length === 0) return;
 
+      // Replayed candles follow the replay's clock rather than the wall clock
+      const marketNow = replayActive ? currentPrice.timestamp : now;
       const lastCandle = data.candles[data.candles.length - 1];
-      const timeDiff = (nowSeconds - lastCandle.time) * 1000;
+      const timeDiff = (Math.floor(marketNow / 1000) - lastCandle.time) * 1000;
 
       if (timeDiff >= intervalMs) {
         // Create new candle with currency conversion
         const convertedPrice = currentPrice.price * currency.rate;
         const newCandle = {
-          time: Math.floor((Math.floor(Date.now() / intervalMs) * intervalMs) / 1000),
+          time: Math.floor((Math.floor(marketNow / intervalMs) * intervalMs) / 1000),
           open: convertedPrice, // Use current converted price for open to avoid currency mismatch
           high: convertedPrice,
           low: convertedPrice,
@@ -1015,7 +1103,31 @@ export const TradingViewProfessionalChart: React.FC<TradingViewProfessionalChart
     updatePrice(); // Initial update
 
     return () => window.clearInterval(intervalId);
-  }, [currentPrice, symbol, interval, chartType, getChartData, currency, showVolume, calculateIntervalPercentChange, CHART_UPDATE_INTERVAL, UI_UPDATE_INTERVAL]);
+  }, [currentPrice, symbol, interval, chartType, getChartData, currency, showVolume, calculateIntervalPercentChange, CHART_UPDATE_INTERVAL, UI_UPDATE_INTERVAL, replayActive]);
+
+  // Open trailing stops on this symbol, drawn as price lines that move as the stops ratchet
+  useEffect(() => {
+    const series = candlestickSeriesRef.current;
+    if (!series) return;
+
+    const marketSymbol = toMarketSymbol(symbol);
+    const lines = orders
+      .filter(order => order.symbol === marketSymbol && isTrailingOrder(order) && isOrderOpen(order) && order.stopPrice !== undefined)
+      .map(order => series.createPriceLine({
+        price: order.stopPrice! * currency.rate,
+        color: order.side === 'sell' ? '#ef5350' : '#26a69a',
+        lineWidth: 1,
+        lineStyle: LineStyle.Dotted,
+        axisLabelVisible: true,
+        title: `Trail ${order.side === 'sell' ? 'sell' : 'buy'} ${order.quantity}`,
+      }));
+
+    return () => {
+      // The series is gone if the chart was rebuilt first
+      if (candlestickSeriesRef.current !== series) return;
+      lines.forEach(line => series.removePriceLine(line));
+    };
+  }, [orders, symbol, currency.rate, chartType, showVolume, height, settings.theme, settings.compactMode, settings.showGrid, settings.timezone]);
 
   // Remove dependency on currentPrice for initial chart rendering
   // The chart should initialize immediately and show "Waiting for data..." in the toolbar
@@ -1236,6 +1348,38 @@ export const TradingViewProfessionalChart: React.FC<TradingViewProfessionalChart
                       ))}
                     </>
                   )}
+                  
+                  {/* Forex Section */}
+                  {availableSymbols.some(s => s.type === 'forex') && (
+                    <>
+                      <div className="px-3 py-2 text-xs text-gray-500 font-semibold border-b border-t border-[#2a2e39]">FOREX</div>
+                      {availableSymbols.filter(s => s.type === 'forex').map(sym => (
+                        <button
+                          key={sym.symbol}
+                          onClick={() => {
+                            if (onSymbolChange) onSymbolChange(sym.symbol);
+                            setShowSymbolSelector(false);
+                          }}
+                          className={`w-full px-3 py-2 flex items-center justify-between hover:bg-[#2a2e39] transition-colors ${
+                            symbol === sym.symbol ? 'bg-[#2a2e39]' : ''
+                          }`}
+                        >
+                          <div className="flex items-center space-x-2">
+                            <span className="text-lg">{sym.icon}</span>
+                            <div className="text-left">
+                              <div className="text-white text-sm font-medium">{sym.name}</div>
+                              <div className="text-gray-500 text-xs">{sym.displaySymbol || sym.symbol}</div>
+                            </div>
+                          </div>
+                          {symbol === sym.symbol && (
+                            <svg className="w-4 h-4 text-[#2962FF]" fill="currentColor" viewBox="0 0 20 20">
+                              <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                            </svg>
+                          )}
+                        </button>
+                      ))}
+                    </>
+                  )}
                 </div>
               )}
             </div>
@@ -1252,19 +1396,19 @@ export const TradingViewProfessionalChart: React.FC<TradingViewProfessionalChart
               <>
                 <div>
                   <span className="text-gray-500">O</span>
-                  <span className="text-gray-300 ml-1">{currency.symbol}{currentPrice?.open24h ? (currentPrice.open24h * currency.rate).toFixed(2) : '0.00'}</span>
+                  <span className="text-gray-300 ml-1">{currency.symbol}{formatOHLC(currentPrice?.open24h)}</span>
                 </div>
                 <div>
                   <span className="text-gray-500">H</span>
-                  <span className="text-gray-300 ml-1">{currency.symbol}{currentPrice?.high24h ? (currentPrice.high24h * currency.rate).toFixed(2) : '0.00'}</span>
+                  <span className="text-gray-300 ml-1">{currency.symbol}{formatOHLC(currentPrice?.high24h)}</span>
                 </div>
                 <div>
                   <span className="text-gray-500">L</span>
-                  <span className="text-gray-300 ml-1">{currency.symbol}{currentPrice?.low24h ? (currentPrice.low24h * currency.rate).toFixed(2) : '0.00'}</span>
+                  <span className="text-gray-300 ml-1">{currency.symbol}{formatOHLC(currentPrice?.low24h)}</span>
                 </div>
                 <div>
                   <span className="text-gray-500">C</span>
-                  <span className="text-gray-300 ml-1">{currency.symbol}{currentPrice ? (currentPrice.price * currency.rate).toFixed(2) : '0.00'}</span>
+                  <span className="text-gray-300 ml-1">{currency.symbol}{formatOHLC(currentPrice?.price)}</span>
                 </div>
                 <div>
                   <span className="text-gray-500">Vol</span>
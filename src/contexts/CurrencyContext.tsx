@@ -1,33 +1,56 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
-import { Currency, getCurrency, CURRENCIES } from '../utils/currencies';
+import React, { createContext, useContext, useState, useEffect, useMemo } from 'react';
+import { Currency, CurrencyCode, ExchangeRates, getCurrency, isRateStale } from '../utils/currencies';
 import { useSettings } from '../components/SettingsModal';
+import { exchangeRateService } from '../services/ExchangeRateService';
 
 interface CurrencyContextType {
-  currency: Currency;
+  currency: Currency; // Carries the live rate once one has loaded
   setCurrency: (code: 'USD' | 'EUR' | 'GBP' | 'JPY' | 'CNY') => void;
   convertPrice: (priceInUSD: number) => number;
   formatPrice: (priceInUSD: number, decimals?: number) => string;
+  rateUpdatedAt: number | null; // When the current currency's rate was fetched; null for USD or before the first fetch
+  isRateStale: boolean;         // Converted prices are off: the rate is a fallback or older than EXCHANGE_RATE_MAX_AGE
+  refreshRates: () => Promise<void>;
 }
 
 const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
 
 export const CurrencyProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const settings = useSettings();
-  const [currency, setCurrencyState] = useState<Currency>(
-    getCurrency(settings.defaultCurrency || 'USD')
+  const [currencyCode, setCurrencyCode] = useState<CurrencyCode>(
+    getCurrency(settings.defaultCurrency || 'USD').code
   );
+  const [rates, setRates] = useState<ExchangeRates>(() => exchangeRateService.getRates());
 
   // Update currency when settings change
   useEffect(() => {
     if (settings.defaultCurrency) {
-      setCurrencyState(getCurrency(settings.defaultCurrency));
+      setCurrencyCode(getCurrency(settings.defaultCurrency).code);
     }
   }, [settings.defaultCurrency]);
 
+  // Keep rates current while the app is open
+  useEffect(() => {
+    exchangeRateService.setHandlers({ onRatesUpdate: setRates });
+    exchangeRateService.start();
+    return () => {
+      exchangeRateService.stop();
+      exchangeRateService.setHandlers({});
+    };
+  }, []);
+
+  const liveRate = currencyCode === 'USD' ? undefined : rates[currencyCode];
+  const currency = useMemo<Currency>(() => {
+    const fallback = getCurrency(currencyCode);
+    return liveRate ? { ...fallback, rate: liveRate.rate } : fallback;
+  }, [currencyCode, liveRate]);
+
   const setCurrency = (code: 'USD' | 'EUR' | 'GBP' | 'JPY' | 'CNY') => {
-    setCurrencyState(CURRENCIES[code]);
+    setCurrencyCode(code);
   };
 
+  const refreshRates = () => exchangeRateService.refresh();
+
   const convertPrice = (priceInUSD: number): number => {
     return priceInUSD * currency.rate;
   };
@@ -58,7 +81,15 @@ export const CurrencyProvider: React.FC<{ children: React.ReactNode }> = ({ chil
   };
 
   return (
-    <CurrencyContext.Provider value={{ currency, setCurrency, convertPrice, formatPrice }}>
+    <CurrencyContext.Provider value={{
+      currency,
+      setCurrency,
+      convertPrice,
+      formatPrice,
+      rateUpdatedAt: liveRate?.updatedAt ?? null,
+      isRateStale: isRateStale(currencyCode, liveRate),
+      refreshRates,
+    }}>
       {children}
     </CurrencyContext.Provider>
   );
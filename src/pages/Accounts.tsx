@@ -0,0 +1,115 @@
+import React from 'react';
+import { usePortfolioStore, useAccounts, useActiveAccountId } from '../stores/portfolioStore';
+import { getAccountPerformance } from '../utils/portfolioAccounting';
+import { formatCurrency } from '../utils/constants';
+import { getFeeSchedule } from '../utils/fees';
+
+const formatSigned = (value: number): string => `${value >= 0 ? '+' : '-'}${formatCurrency(Math.abs(value))}`;
+
+export const Accounts: React.FC = () => {
+  const accounts = useAccounts();
+  const activeAccountId = useActiveAccountId();
+  const switchAccount = usePortfolioStore(state => state.switchAccount);
+  const deleteAccount = usePortfolioStore(state => state.deleteAccount);
+
+  const rows = Object.values(accounts)
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map(account => ({ account, performance: getAccountPerformance(account) }));
+
+  // Bars are scaled to the largest absolute return so gains and losses share one axis
+  const maxReturn = Math.max(1, ...rows.map(row => Math.abs(row.performance.totalReturnPercent)));
+
+  return (
+    <div className="space-y-6">
+      {/* Returns */}
+      <div className="trading-card">
+        <h2 className="text-lg font-semibold text-white mb-4">Returns by Account</h2>
+        <div className="space-y-3">
+          {rows.map(({ account, performance }) => {
+            const width = (Math.abs(performance.totalReturnPercent) / maxReturn) * 50;
+            const isGain = performance.totalReturnPercent >= 0;
+            return (
+              <div key={account.id} className="flex items-center text-sm">
+                <div className="w-32 truncate text-gray-300">{account.config.name}</div>
+                <div className="flex-1 relative h-5 bg-trading-bg rounded">
+                  <div className="absolute top-0 bottom-0 left-1/2 w-px bg-trading-border" />
+                  <div
+                    className={`absolute top-0 bottom-0 rounded ${isGain ? 'bg-trading-green' : 'bg-trading-red'}`}
+                    style={isGain ? { left: '50%', width: `${width}%` } : { right: '50%', width: `${width}%` }}
+                  />
+                </div>
+                <div className={`w-24 text-right font-mono ${isGain ? 'text-trading-green' : 'text-trading-red'}`}>
+                  {isGain ? '+' : ''}{performance.totalReturnPercent.toFixed(2)}%
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Comparison table */}
+      <div className="trading-card overflow-x-auto">
+        <h2 className="text-lg font-semibold text-white mb-4">Account Comparison</h2>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-gray-400 text-left border-b border-trading-border">
+              <th className="py-2 pr-4">Account</th>
+              <th className="py-2 pr-4 text-right">Starting Cash</th>
+              <th className="py-2 pr-4 text-right">Equity</th>
+              <th className="py-2 pr-4 text-right">Return</th>
+              <th className="py-2 pr-4 text-right">Realized</th>
+              <th className="py-2 pr-4 text-right">Unrealized</th>
+              <th className="py-2 pr-4 text-right">Commissions</th>
+              <th className="py-2 pr-4 text-right">Trades</th>
+              <th className="py-2 pr-4">Limits</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-trading-border">
+            {rows.map(({ account, performance }) => (
+              <tr key={account.id} className={account.id === activeAccountId ? 'bg-gray-800/40' : ''}>
+                <td className="py-2 pr-4 text-white">
+                  {account.config.name}
+                  {account.id === activeAccountId && <span className="ml-2 text-xs text-blue-400">active</span>}
+                </td>
+                <td className="py-2 pr-4 text-right font-mono text-gray-300">{formatCurrency(account.initialCash)}</td>
+                <td className="py-2 pr-4 text-right font-mono text-white">{formatCurrency(account.totalValue)}</td>
+                <td className={`py-2 pr-4 text-right font-mono ${performance.totalReturn >= 0 ? 'text-trading-green' : 'text-trading-red'}`}>
+                  {formatSigned(performance.totalReturn)}
+                </td>
+                <td className="py-2 pr-4 text-right font-mono text-gray-300">{formatSigned(performance.realizedPL)}</td>
+                <td className="py-2 pr-4 text-right font-mono text-gray-300">{formatSigned(performance.unrealizedPL)}</td>
+                <td className="py-2 pr-4 text-right font-mono text-gray-300">{formatCurrency(performance.commissions)}</td>
+                <td className="py-2 pr-4 text-right text-gray-300">{account.trades.length}</td>
+                <td className="py-2 pr-4 text-xs text-gray-500">
+                  {account.config.feeScheduleId === 'flat'
+                    ? `${(account.config.commissionRate * 100).toFixed(2)}% fee`
+                    : getFeeSchedule(account.config.feeScheduleId).name} · {(account.config.maxPositionSize * 100).toFixed(0)}% max
+                  {account.config.allowShortSelling ? ' · shorts' : ''}
+                </td>
+                <td className="py-2 text-right space-x-3 whitespace-nowrap">
+                  {account.id !== activeAccountId && (
+                    <button
+                      onClick={() => switchAccount(account.id)}
+                      className="text-xs text-blue-400 hover:text-blue-300 transition-colors"
+                    >
+                      Switch
+                    </button>
+                  )}
+                  {rows.length > 1 && (
+                    <button
+                      onClick={() => deleteAccount(account.id)}
+                      className="text-xs text-gray-400 hover:text-trading-red transition-colors"
+                    >
+                      Delete
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,193 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { createChart, IChartApi, ISeriesApi, ColorType, UTCTimestamp } from 'lightweight-charts';
+import { useEquityHistory, useTrades } from '../stores/portfolioStore';
+import { calculatePerformanceMetrics, getDrawdownSeries } from '../utils/performanceAnalytics';
+import { formatCurrency, formatPercentage } from '../utils/constants';
+
+interface CurvePoint {
+  timestamp: number;
+  value: number;
+}
+
+interface CurveChartProps {
+  points: CurvePoint[];
+  height: number;
+  lineColor: string;
+  topColor: string;
+  bottomColor: string;
+}
+
+// Chart times are whole seconds and must be strictly increasing, so keep the last point per second
+const toSeriesData = (points: CurvePoint[]) => {
+  const bySecond = new Map<number, number>();
+  points.forEach(point => bySecond.set(Math.floor(point.timestamp / 1000), point.value));
+  return Array.from(bySecond.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([time, value]) => ({ time: time as UTCTimestamp, value }));
+};
+
+const CurveChart: React.FC<CurveChartProps> = ({ points, height, lineColor, topColor, bottomColor }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const chartRef = useRef<IChartApi | null>(null);
+  const seriesRef = useRef<ISeriesApi<'Area'> | null>(null);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const chart = createChart(containerRef.current, {
+      width: containerRef.current.clientWidth,
+      height,
+      layout: {
+        background: { type: ColorType.Solid, color: '#1a2332' },
+        textColor: '#ffffff',
+      },
+      grid: {
+        vertLines: { color: '#2d3748' },
+        horzLines: { color: '#2d3748' },
+      },
+      timeScale: {
+        timeVisible: true,
+        secondsVisible: false,
+        borderColor: '#485c7b',
+      },
+      rightPriceScale: {
+        borderColor: '#485c7b',
+      },
+    });
+
+    chartRef.current = chart;
+    seriesRef.current = chart.addAreaSeries({ lineColor, topColor, bottomColor, lineWidth: 2 });
+
+    const handleResize = () => {
+      if (containerRef.current && chartRef.current) {
+        chartRef.current.applyOptions({ width: containerRef.current.clientWidth });
+      }
+    };
+
+    window.addEventListener('resize', handleResize);
+
+    return () => {
+      window.removeEventListener('resize', handleResize);
+      chart.remove();
+      chartRef.current = null;
+      seriesRef.current = null;
+    };
+  }, [height, lineColor, topColor, bottomColor]);
+
+  useEffect(() => {
+    if (!seriesRef.current) return;
+    seriesRef.current.setData(toSeriesData(points));
+    chartRef.current?.timeScale().fitContent();
+  }, [points, height, lineColor, topColor, bottomColor]);
+
+  return <div ref={containerRef} className="w-full" />;
+};
+
+const formatRatio = (value: number): string => Number.isFinite(value) ? value.toFixed(2) : '∞';
+
+const formatDuration = (ms: number): string => {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
+
+const getSignColor = (value: number): string => value >= 0 ? 'text-trading-green' : 'text-trading-red';
+
+export const Analysis: React.FC = () => {
+  const equityHistory = useEquityHistory();
+  const trades = useTrades();
+
+  const metrics = useMemo(() => calculatePerformanceMetrics(equityHistory, trades), [equityHistory, trades]);
+
+  const equityPoints = useMemo(
+    () => equityHistory.map(snapshot => ({ timestamp: snapshot.timestamp, value: snapshot.equity })),
+    [equityHistory]
+  );
+  const drawdownPoints = useMemo(
+    () => getDrawdownSeries(equityHistory).map(point => ({ timestamp: point.timestamp, value: -point.drawdown * 100 })),
+    [equityHistory]
+  );
+
+  const returnCards = [
+    { label: 'Total Return', value: formatPercentage(metrics.totalReturn * 100), color: getSignColor(metrics.totalReturn) },
+    { label: 'Annualized Return', value: formatPercentage(metrics.annualizedReturn * 100), color: getSignColor(metrics.annualizedReturn) },
+    { label: 'Volatility', value: `${(metrics.volatility * 100).toFixed(2)}%`, color: 'text-white' },
+    { label: 'Sharpe Ratio', value: formatRatio(metrics.sharpeRatio), color: getSignColor(metrics.sharpeRatio) },
+    { label: 'Sortino Ratio', value: formatRatio(metrics.sortinoRatio), color: getSignColor(metrics.sortinoRatio) },
+    { label: 'Max Drawdown', value: `${(metrics.maxDrawdown * 100).toFixed(2)}%`, color: 'text-trading-red' },
+  ];
+
+  const tradeStats = [
+    { label: 'Closed Trades', value: metrics.closedTrades.toString() },
+    { label: 'Win Rate', value: `${(metrics.winRate * 100).toFixed(1)}%` },
+    { label: 'Profit Factor', value: formatRatio(metrics.profitFactor) },
+    { label: 'Average Win', value: formatCurrency(metrics.averageWin) },
+    { label: 'Average Loss', value: formatCurrency(metrics.averageLoss) },
+    { label: 'Expectancy', value: formatCurrency(metrics.expectancy) },
+    { label: 'Time in Market', value: `${(metrics.exposure * 100).toFixed(1)}%` },
+    { label: 'Avg Gross Leverage', value: `${metrics.averageGrossLeverage.toFixed(2)}x` },
+    { label: 'Longest Drawdown', value: formatDuration(metrics.maxDrawdownDuration) },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Return and risk metrics */}
+      <div className="grid grid-cols-2 lg:grid-cols-6 gap-4">
+        {returnCards.map(card => (
+          <div key={card.label} className="trading-card">
+            <div className="text-sm text-gray-400 mb-1">{card.label}</div>
+            <div className={`text-lg font-mono font-bold ${card.color}`}>{card.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-4 gap-6">
+        {/* Equity curve and drawdown */}
+        <div className="trading-card xl:col-span-3 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-white">Equity Curve</h2>
+            <span className="text-xs text-gray-500">{equityHistory.length} snapshots</span>
+          </div>
+          {equityHistory.length < 2 ? (
+            <div className="text-center text-gray-500 py-8">
+              The equity curve fills in as the account is revalued against live prices
+            </div>
+          ) : (
+            <>
+              <CurveChart
+                points={equityPoints}
+                height={300}
+                lineColor="#3b82f6"
+                topColor="rgba(59, 130, 246, 0.4)"
+                bottomColor="rgba(59, 130, 246, 0.05)"
+              />
+              <h3 className="text-sm font-semibold text-gray-400">Drawdown (%)</h3>
+              <CurveChart
+                points={drawdownPoints}
+                height={150}
+                lineColor="#ef4444"
+                topColor="rgba(239, 68, 68, 0.05)"
+                bottomColor="rgba(239, 68, 68, 0.4)"
+              />
+            </>
+          )}
+        </div>
+
+        {/* Trade statistics */}
+        <div className="trading-card">
+          <h2 className="text-lg font-semibold text-white mb-4">Trade Statistics</h2>
+          <div className="space-y-2">
+            {tradeStats.map(stat => (
+              <div key={stat.label} className="flex items-center justify-between text-sm">
+                <span className="text-gray-400">{stat.label}</span>
+                <span className="font-mono text-white">{stat.value}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -6,8 +6,14 @@ import { StockPriceWidget } from '../components/StockPriceWidget';
 import { CryptoPriceWidget } from '../components/CryptoPriceWidget';
 import { TradingChart } from '../components/TradingChart';
 import { AdvancedOrderPanel } from '../components/AdvancedOrderPanel';
+import { OrderList } from '../components/OrderList';
+import { useTrades } from '../stores/portfolioStore';
+import { formatCurrency } from '../utils/constants';
 
 export const Dashboard: React.FC = () => {
+  const trades = useTrades();
+  const recentTrades = trades.slice(-5).reverse();
+
   return (
     <>
       {/* Market Data Status - Connection info */}
@@ -38,17 +44,36 @@ export const Dashboard: React.FC = () => {
           {/* Advanced Order Panel */}
           <AdvancedOrderPanel />
           
+          {/* Open orders, with bracket legs grouped under their entry */}
+          <OrderList />
+          
           {/* Recent Activity */}
           <div className="trading-card">
             <h2 className="text-lg font-semibold mb-4 text-white">Recent Activity</h2>
             <div className="space-y-3">
-              <div className="flex justify-between items-center text-sm">
-                <span className="text-gray-400">No recent trades</span>
-                <span className="text-gray-500">--</span>
-              </div>
-              <div className="text-center text-gray-500 text-sm py-8">
-                Start trading to see your activity here
-              </div>
+              {recentTrades.length === 0 ? (
+                <>
+                  <div className="flex justify-between items-center text-sm">
+                    <span className="text-gray-400">No recent trades</span>
+                    <span className="text-gray-500">--</span>
+                  </div>
+                  <div className="text-center text-gray-500 text-sm py-8">
+                    Start trading to see your activity here
+                  </div>
+                </>
+              ) : (
+                recentTrades.map(trade => (
+                  <div key={trade.id} className="flex justify-between items-center text-sm">
+                    <span className={trade.side === 'buy' ? 'text-trading-green' : 'text-trading-red'}>
+                      {trade.side.toUpperCase()} {trade.quantity} {trade.symbol}
+                    </span>
+                    <span className="font-mono text-gray-300">
+                      {formatCurrency(trade.price)}
+                      <span className="text-gray-500 ml-2">{new Date(trade.timestamp).toLocaleTimeString()}</span>
+                    </span>
+                  </div>
+                ))
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,382 @@
+import React, { useMemo, useState } from 'react';
+import { useOrders, useTrades } from '../stores/portfolioStore';
+import { Order, Trade } from '../types/trading';
+import { formatCurrency } from '../utils/constants';
+import { ExportColumn, toCSV, toJSON, downloadFile } from '../utils/exportData';
+
+const PAGE_SIZE = 25;
+
+type HistoryTab = 'trades' | 'orders';
+type SortDirection = 'asc' | 'desc';
+
+interface TradeRow extends Trade {
+  orderType?: Order['type'];
+}
+
+interface HistoryColumn<T> extends ExportColumn<T> {
+  key: string;
+  align?: 'left' | 'right';
+  render?: (row: T) => React.ReactNode;
+}
+
+interface HistoryFilters {
+  symbol: string;
+  side: 'all' | Order['side'];
+  orderType: 'all' | Order['type'];
+  status: 'all' | Order['status'];
+  from: string;
+  to: string;
+}
+
+const DEFAULT_FILTERS: HistoryFilters = {
+  symbol: 'all',
+  side: 'all',
+  orderType: 'all',
+  status: 'all',
+  from: '',
+  to: '',
+};
+
+const ORDER_TYPES: Order['type'][] = ['market', 'limit', 'stop', 'stopLimit', 'trailingStop', 'trailingStopLimit', 'bracket'];
+const ORDER_STATUSES: Order['status'][] = ['pending', 'partiallyFilled', 'filled', 'cancelled', 'rejected', 'expired'];
+
+const formatTime = (timestamp: number): string => new Date(timestamp).toLocaleString();
+
+const formatFeeBreakdown = (trade: Trade): string => {
+  return (trade.fees || []).map(fee => `${fee.label}: ${formatCurrency(fee.amount)}`).join('; ');
+};
+
+const renderSide = (side: Order['side']) => (
+  <span className={`text-xs font-semibold px-2 py-0.5 rounded ${
+    side === 'buy' ? 'bg-green-900 text-green-300' : 'bg-red-900 text-red-300'
+  }`}>
+    {side.toUpperCase()}
+  </span>
+);
+
+const TRADE_COLUMNS: HistoryColumn<TradeRow>[] = [
+  { key: 'timestamp', header: 'Time', value: t => new Date(t.timestamp).toISOString(), render: t => formatTime(t.timestamp) },
+  { key: 'symbol', header: 'Symbol', value: t => t.symbol },
+  { key: 'side', header: 'Side', value: t => t.side, render: t => renderSide(t.side) },
+  { key: 'orderType', header: 'Order Type', value: t => t.orderType },
+  { key: 'quantity', header: 'Quantity', align: 'right', value: t => t.quantity },
+  { key: 'price', header: 'Price', align: 'right', value: t => t.price, render: t => formatCurrency(t.price) },
+  { key: 'notional', header: 'Notional', align: 'right', value: t => t.quantity * t.price, render: t => formatCurrency(t.quantity * t.price) },
+  {
+    key: 'commission',
+    header: 'Commission',
+    align: 'right',
+    value: t => t.commission,
+    render: t => <span title={formatFeeBreakdown(t)}>{formatCurrency(t.commission)}</span>,
+  },
+  { key: 'liquidity', header: 'Liquidity', value: t => t.liquidity, render: t => t.liquidity || '—' },
+  { key: 'fees', header: 'Fee Breakdown', value: t => formatFeeBreakdown(t), render: t => <span className="text-xs text-gray-500">{formatFeeBreakdown(t) || '—'}</span> },
+  {
+    key: 'realizedPL',
+    header: 'Realized P&L',
+    align: 'right',
+    value: t => t.realizedPL ?? 0,
+    render: t => t.realizedPL ? (
+      <span className={t.realizedPL >= 0 ? 'text-trading-green' : 'text-trading-red'}>
+        {t.realizedPL >= 0 ? '+' : '-'}{formatCurrency(Math.abs(t.realizedPL))}
+      </span>
+    ) : '—',
+  },
+  { key: 'orderId', header: 'Order ID', value: t => t.orderId, render: t => <span className="text-xs text-gray-500">{t.orderId}</span> },
+];
+
+const ORDER_COLUMNS: HistoryColumn<Order>[] = [
+  { key: 'timestamp', header: 'Time', value: o => new Date(o.timestamp).toISOString(), render: o => formatTime(o.timestamp) },
+  { key: 'symbol', header: 'Symbol', value: o => o.symbol },
+  { key: 'side', header: 'Side', value: o => o.side, render: o => renderSide(o.side) },
+  { key: 'type', header: 'Type', value: o => o.bracketLeg || o.type },
+  { key: 'quantity', header: 'Quantity', align: 'right', value: o => o.quantity },
+  { key: 'filledQuantity', header: 'Filled', align: 'right', value: o => o.filledQuantity ?? 0 },
+  { key: 'price', header: 'Limit', align: 'right', value: o => o.price, render: o => o.price !== undefined ? formatCurrency(o.price) : '—' },
+  { key: 'stopPrice', header: 'Stop', align: 'right', value: o => o.stopPrice, render: o => o.stopPrice !== undefined ? formatCurrency(o.stopPrice) : '—' },
+  { key: 'filledPrice', header: 'Avg Fill', align: 'right', value: o => o.filledPrice, render: o => o.filledPrice !== undefined ? formatCurrency(o.filledPrice) : '—' },
+  { key: 'timeInForce', header: 'TIF', value: o => o.timeInForce },
+  { key: 'status', header: 'Status', value: o => o.status },
+  { key: 'id', header: 'Order ID', value: o => o.id, render: o => <span className="text-xs text-gray-500">{o.id}</span> },
+];
+
+// Undefined values sort last in either direction
+const compareValues = (a: unknown, b: unknown): number => {
+  if (a === b) return 0;
+  if (a === undefined || a === null) return 1;
+  if (b === undefined || b === null) return -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b));
+};
+
+const toDayStart = (date: string): number => new Date(`${date}T00:00:00`).getTime();
+const toDayEnd = (date: string): number => new Date(`${date}T23:59:59.999`).getTime();
+
+interface HistoryTableProps<T> {
+  rows: T[];
+  columns: HistoryColumn<T>[];
+  rowKey: (row: T) => string;
+  exportName: string;
+}
+
+const HistoryTable = <T,>({ rows, columns, rowKey, exportName }: HistoryTableProps<T>) => {
+  const [sortKey, setSortKey] = useState('timestamp');
+  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+  const [page, setPage] = useState(0);
+
+  const sortColumn = columns.find(column => column.key === sortKey) || columns[0];
+  const sortedRows = useMemo(() => {
+    const sorted = [...rows].sort((a, b) => compareValues(sortColumn.value(a), sortColumn.value(b)));
+    return sortDirection === 'asc' ? sorted : sorted.reverse();
+  }, [rows, sortColumn, sortDirection]);
+
+  const pageCount = Math.max(1, Math.ceil(sortedRows.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = sortedRows.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  const handleSort = (key: string) => {
+    if (key === sortKey) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortKey(key);
+      setSortDirection('asc');
+    }
+  };
+
+  // Exports cover every filtered row in the current sort order, not just the visible page
+  const exportRows = (format: 'csv' | 'json') => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    if (format === 'csv') {
+      downloadFile(toCSV(sortedRows, columns), `${exportName}-${stamp}.csv`, 'text/csv');
+    } else {
+      downloadFile(toJSON(sortedRows), `${exportName}-${stamp}.json`, 'application/json');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-sm text-gray-400">{sortedRows.length} records</span>
+        <div className="space-x-2">
+          <button
+            onClick={() => exportRows('csv')}
+            disabled={sortedRows.length === 0}
+            className="px-3 py-1 text-sm rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white transition-colors"
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={() => exportRows('json')}
+            disabled={sortedRows.length === 0}
+            className="px-3 py-1 text-sm rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white transition-colors"
+          >
+            Export JSON
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-gray-400 border-b border-trading-border">
+              {columns.map(column => (
+                <th
+                  key={column.key}
+                  onClick={() => handleSort(column.key)}
+                  className={`py-2 pr-4 cursor-pointer select-none hover:text-white ${
+                    column.align === 'right' ? 'text-right' : 'text-left'
+                  }`}
+                >
+                  {column.header}
+                  {column.key === sortKey && (sortDirection === 'asc' ? ' ▲' : ' ▼')}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-trading-border">
+            {pageRows.length === 0 ? (
+              <tr>
+                <td colSpan={columns.length} className="text-center text-gray-500 py-8">No matching records</td>
+              </tr>
+            ) : (
+              pageRows.map(row => (
+                <tr key={rowKey(row)} className="text-gray-300">
+                  {columns.map(column => (
+                    <td
+                      key={column.key}
+                      className={`py-2 pr-4 whitespace-nowrap ${column.align === 'right' ? 'text-right font-mono' : ''}`}
+                    >
+                      {column.render ? column.render(row) : String(column.value(row) ?? '—')}
+                    </td>
+                  ))}
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-end space-x-3 mt-3 text-sm">
+          <button
+            onClick={() => setPage(Math.max(0, currentPage - 1))}
+            disabled={currentPage === 0}
+            className="px-2 py-1 rounded text-gray-300 hover:text-white disabled:opacity-40"
+          >
+            Previous
+          </button>
+          <span className="text-gray-400">Page {currentPage + 1} of {pageCount}</span>
+          <button
+            onClick={() => setPage(Math.min(pageCount - 1, currentPage + 1))}
+            disabled={currentPage >= pageCount - 1}
+            className="px-2 py-1 rounded text-gray-300 hover:text-white disabled:opacity-40"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const History: React.FC = () => {
+  const trades = useTrades();
+  const orders = useOrders();
+  const [tab, setTab] = useState<HistoryTab>('trades');
+  const [filters, setFilters] = useState<HistoryFilters>(DEFAULT_FILTERS);
+
+  const updateFilter = <K extends keyof HistoryFilters>(key: K, value: HistoryFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  const symbols = useMemo(() => {
+    const all = new Set<string>();
+    orders.forEach(order => all.add(order.symbol));
+    trades.forEach(trade => all.add(trade.symbol));
+    return Array.from(all).sort();
+  }, [orders, trades]);
+
+  // Trades carry the type of the order that produced them so they can be filtered by it
+  const tradeRows = useMemo<TradeRow[]>(() => {
+    const orderTypes = new Map(orders.map(order => [order.id, order.type]));
+    return trades.map(trade => ({ ...trade, orderType: orderTypes.get(trade.orderId) }));
+  }, [trades, orders]);
+
+  const matchesCommon = (row: { symbol: string; side: Order['side']; timestamp: number }, type?: Order['type']) => {
+    if (filters.symbol !== 'all' && row.symbol !== filters.symbol) return false;
+    if (filters.side !== 'all' && row.side !== filters.side) return false;
+    if (filters.orderType !== 'all' && type !== filters.orderType) return false;
+    if (filters.from && row.timestamp < toDayStart(filters.from)) return false;
+    if (filters.to && row.timestamp > toDayEnd(filters.to)) return false;
+    return true;
+  };
+
+  const filteredTrades = tradeRows.filter(trade => matchesCommon(trade, trade.orderType));
+  const filteredOrders = orders.filter(order =>
+    matchesCommon(order, order.type) && (filters.status === 'all' || order.status === filters.status)
+  );
+
+  const selectClass = 'bg-trading-bg border border-trading-border rounded px-2 py-1 text-sm text-white';
+
+  return (
+    <div className="space-y-6">
+      <div className="trading-card">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-white">History</h2>
+          <div className="flex space-x-1 bg-trading-bg rounded p-1">
+            {(['trades', 'orders'] as HistoryTab[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setTab(option)}
+                className={`px-3 py-1 rounded text-sm capitalize transition-colors ${
+                  tab === option ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-end gap-3 mb-4 text-sm">
+          <label className="flex flex-col text-gray-400">
+            Symbol
+            <select value={filters.symbol} onChange={(e) => updateFilter('symbol', e.target.value)} className={selectClass}>
+              <option value="all">All</option>
+              {symbols.map(symbol => <option key={symbol} value={symbol}>{symbol}</option>)}
+            </select>
+          </label>
+          <label className="flex flex-col text-gray-400">
+            Side
+            <select
+              value={filters.side}
+              onChange={(e) => updateFilter('side', e.target.value as HistoryFilters['side'])}
+              className={selectClass}
+            >
+              <option value="all">All</option>
+              <option value="buy">Buy</option>
+              <option value="sell">Sell</option>
+            </select>
+          </label>
+          <label className="flex flex-col text-gray-400">
+            Order Type
+            <select
+              value={filters.orderType}
+              onChange={(e) => updateFilter('orderType', e.target.value as HistoryFilters['orderType'])}
+              className={selectClass}
+            >
+              <option value="all">All</option>
+              {ORDER_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+            </select>
+          </label>
+          {tab === 'orders' && (
+            <label className="flex flex-col text-gray-400">
+              Status
+              <select
+                value={filters.status}
+                onChange={(e) => updateFilter('status', e.target.value as HistoryFilters['status'])}
+                className={selectClass}
+              >
+                <option value="all">All</option>
+                {ORDER_STATUSES.map(status => <option key={status} value={status}>{status}</option>)}
+              </select>
+            </label>
+          )}
+          <label className="flex flex-col text-gray-400">
+            From
+            <input type="date" value={filters.from} onChange={(e) => updateFilter('from', e.target.value)} className={selectClass} />
+          </label>
+          <label className="flex flex-col text-gray-400">
+            To
+            <input type="date" value={filters.to} onChange={(e) => updateFilter('to', e.target.value)} className={selectClass} />
+          </label>
+          <button
+            onClick={() => setFilters(DEFAULT_FILTERS)}
+            className="px-3 py-1 text-sm text-gray-400 hover:text-white transition-colors"
+          >
+            Clear
+          </button>
+        </div>
+
+        {tab === 'trades' ? (
+          <HistoryTable
+            key="trades"
+            rows={filteredTrades}
+            columns={TRADE_COLUMNS}
+            rowKey={trade => trade.id}
+            exportName="trades"
+          />
+        ) : (
+          <HistoryTable
+            key="orders"
+            rows={filteredOrders}
+            columns={ORDER_COLUMNS}
+            rowKey={order => order.id}
+            exportName="orders"
+          />
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,225 @@
+import React, { useState } from 'react';
+import { usePositions, useCashBalance, usePortfolioPerformance, usePortfolioValue } from '../stores/portfolioStore';
+import { orderService } from '../services/OrderService';
+import { Position, TradingSymbol } from '../types/trading';
+import { formatCurrency, formatPercentage, DEFAULT_SYMBOLS } from '../utils/constants';
+import { getCostBasis, getMarketValue } from '../utils/portfolioAccounting';
+import { getSymbolType, toMarketSymbol } from '../utils/symbolUtils';
+
+const ASSET_TYPE_LABELS: Record<TradingSymbol['type'], string> = {
+  stock: 'Stocks',
+  crypto: 'Crypto',
+  forex: 'Forex',
+};
+
+const ASSET_TYPE_COLORS: Record<TradingSymbol['type'] | 'cash', string> = {
+  stock: 'bg-blue-500',
+  crypto: 'bg-yellow-500',
+  forex: 'bg-purple-500',
+  cash: 'bg-gray-500',
+};
+
+const formatSigned = (value: number): string => `${value >= 0 ? '+' : '-'}${formatCurrency(Math.abs(value))}`;
+
+const getPLColor = (value: number): string => value >= 0 ? 'text-trading-green' : 'text-trading-red';
+
+const getSymbolName = (symbol: string): string => {
+  const known = DEFAULT_SYMBOLS.find(s => toMarketSymbol(s.symbol) === symbol);
+  return known ? known.name : symbol;
+};
+
+interface PositionRowProps {
+  position: Position;
+}
+
+const PositionRow: React.FC<PositionRowProps> = ({ position }) => {
+  const [reduceQuantity, setReduceQuantity] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const marketValue = getMarketValue(position);
+  const costBasis = getCostBasis(position);
+  const unrealizedPercent = costBasis > 0 ? (position.unrealizedPL / costBasis) * 100 : 0;
+
+  const submitClose = (quantity?: number) => {
+    const result = orderService.closePosition(position.symbol, quantity);
+    setError(result.success ? null : result.reason || 'Order rejected');
+    if (result.success) setReduceQuantity('');
+  };
+
+  const handleReduce = () => {
+    const quantity = parseFloat(reduceQuantity);
+    if (!(quantity > 0)) {
+      setError('Enter a quantity to reduce');
+      return;
+    }
+    submitClose(Math.min(quantity, position.quantity));
+  };
+
+  return (
+    <tr className="align-top">
+      <td className="py-3 pr-4">
+        <div className="text-white font-medium">{position.symbol}</div>
+        <div className="text-xs text-gray-500">{getSymbolName(position.symbol)}</div>
+      </td>
+      <td className="py-3 pr-4">
+        <span className={`text-xs font-semibold px-2 py-0.5 rounded ${
+          position.side === 'long' ? 'bg-green-900 text-green-300' : 'bg-red-900 text-red-300'
+        }`}>
+          {position.side.toUpperCase()}
+        </span>
+      </td>
+      <td className="py-3 pr-4 text-right font-mono text-gray-300">{position.quantity}</td>
+      <td className="py-3 pr-4 text-right font-mono text-gray-300">{formatCurrency(position.avgPrice)}</td>
+      <td className="py-3 pr-4 text-right font-mono text-gray-300">{formatCurrency(position.currentPrice)}</td>
+      <td className="py-3 pr-4 text-right font-mono text-white">{formatCurrency(marketValue)}</td>
+      <td className="py-3 pr-4 text-right font-mono text-gray-300">{formatCurrency(costBasis)}</td>
+      <td className={`py-3 pr-4 text-right font-mono ${getPLColor(position.unrealizedPL)}`}>
+        <div>{formatSigned(position.unrealizedPL)}</div>
+        <div className="text-xs">{formatPercentage(unrealizedPercent)}</div>
+      </td>
+      <td className={`py-3 pr-4 text-right font-mono ${getPLColor(position.realizedPL)}`}>
+        {formatSigned(position.realizedPL)}
+      </td>
+      <td className="py-3">
+        <div className="flex items-center justify-end space-x-2">
+          <input
+            type="number"
+            min="0"
+            step="any"
+            placeholder="Qty"
+            value={reduceQuantity}
+            onChange={(e) => setReduceQuantity(e.target.value)}
+            className="w-20 bg-trading-bg border border-trading-border rounded px-2 py-1 text-sm text-white"
+          />
+          <button
+            onClick={handleReduce}
+            className="px-2 py-1 text-xs rounded bg-gray-700 hover:bg-gray-600 text-white transition-colors"
+          >
+            Reduce
+          </button>
+          <button
+            onClick={() => submitClose()}
+            className="px-2 py-1 text-xs rounded bg-red-700 hover:bg-red-600 text-white transition-colors"
+          >
+            Close
+          </button>
+        </div>
+        {error && <div className="text-xs text-trading-red mt-1 text-right">{error}</div>}
+      </td>
+    </tr>
+  );
+};
+
+export const Portfolio: React.FC = () => {
+  const positions = usePositions();
+  const cash = useCashBalance();
+  const totalValue = usePortfolioValue();
+  const performance = usePortfolioPerformance();
+
+  // Allocation uses gross market value so shorts count as exposure too
+  const allocation = positions.reduce<Record<string, number>>((totals, position) => {
+    const type = getSymbolType(position.symbol);
+    totals[type] = (totals[type] || 0) + getMarketValue(position);
+    return totals;
+  }, {});
+  const grossExposure = Object.values(allocation).reduce((sum, value) => sum + value, 0);
+  const cashShare = Math.max(0, cash);
+  const allocationBase = grossExposure + cashShare;
+
+  const allocationRows = [
+    ...(Object.keys(ASSET_TYPE_LABELS) as TradingSymbol['type'][])
+      .filter(type => allocation[type])
+      .map(type => ({ key: type, label: ASSET_TYPE_LABELS[type], value: allocation[type] })),
+    { key: 'cash' as const, label: 'Cash', value: cashShare },
+  ];
+
+  const summaryCards = [
+    { label: 'Total Value', value: formatCurrency(totalValue), color: 'text-white' },
+    { label: 'Cash', value: formatCurrency(cash), color: 'text-white' },
+    { label: 'Unrealized P&L', value: formatSigned(performance.unrealizedPL), color: getPLColor(performance.unrealizedPL) },
+    { label: 'Realized P&L', value: formatSigned(performance.realizedPL), color: getPLColor(performance.realizedPL) },
+    {
+      label: 'Total Return',
+      value: `${formatSigned(performance.totalReturn)} (${formatPercentage(performance.totalReturnPercent)})`,
+      color: getPLColor(performance.totalReturn),
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+        {summaryCards.map(card => (
+          <div key={card.label} className="trading-card">
+            <div className="text-sm text-gray-400 mb-1">{card.label}</div>
+            <div className={`text-lg font-mono font-bold ${card.color}`}>{card.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-4 gap-6">
+        {/* Holdings */}
+        <div className="trading-card xl:col-span-3 overflow-x-auto">
+          <h2 className="text-lg font-semibold text-white mb-4">Holdings</h2>
+          {positions.length === 0 ? (
+            <div className="text-center text-gray-500 py-8">No open positions</div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-400 text-left border-b border-trading-border">
+                  <th className="py-2 pr-4">Symbol</th>
+                  <th className="py-2 pr-4">Side</th>
+                  <th className="py-2 pr-4 text-right">Quantity</th>
+                  <th className="py-2 pr-4 text-right">Avg Price</th>
+                  <th className="py-2 pr-4 text-right">Last</th>
+                  <th className="py-2 pr-4 text-right">Market Value</th>
+                  <th className="py-2 pr-4 text-right">Cost Basis</th>
+                  <th className="py-2 pr-4 text-right">Unrealized</th>
+                  <th className="py-2 pr-4 text-right">Realized</th>
+                  <th className="py-2 text-right">Close / Reduce</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-trading-border">
+                {positions.map(position => (
+                  <PositionRow key={position.id} position={position} />
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Allocation */}
+        <div className="trading-card">
+          <h2 className="text-lg font-semibold text-white mb-4">Allocation</h2>
+          {allocationBase > 0 && (
+            <div className="flex h-3 rounded overflow-hidden mb-4">
+              {allocationRows.map(row => (
+                <div
+                  key={row.key}
+                  className={ASSET_TYPE_COLORS[row.key]}
+                  style={{ width: `${(row.value / allocationBase) * 100}%` }}
+                />
+              ))}
+            </div>
+          )}
+          <div className="space-y-2">
+            {allocationRows.map(row => (
+              <div key={row.key} className="flex items-center justify-between text-sm">
+                <div className="flex items-center space-x-2">
+                  <span className={`w-3 h-3 rounded-sm ${ASSET_TYPE_COLORS[row.key]}`} />
+                  <span className="text-gray-300">{row.label}</span>
+                </div>
+                <div className="text-right">
+                  <div className="font-mono text-white">{formatCurrency(row.value)}</div>
+                  <div className="text-xs text-gray-500">
+                    {allocationBase > 0 ? ((row.value / allocationBase) * 100).toFixed(1) : '0.0'}%
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,13 +1,22 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useMarketStore } from '../stores/marketStore';
-import { binanceWebSocket } from '../services/BinanceWebSocketService';
+import { marketDataRegistry } from '../services/MarketDataRegistry';
 import { useCurrency } from '../contexts/CurrencyContext';
+import { usePortfolioStore, useCashBalance, usePortfolioValue, usePositions, useTrades, useMarginSummary } from '../stores/portfolioStore';
+import { orderService } from '../services/OrderService';
 
 // Import components
 import { TradingViewProfessionalChart } from '../components/TradingViewProfessionalChart';
 import { SymbolSelector } from '../components/SymbolSelector';
+import { OrderBook } from '../components/OrderBook';
+import { TimeAndSales } from '../components/TimeAndSales';
+import { ReplayControls } from '../components/ReplayControls';
 import { createSymbolInfo, getSymbolDisplay, SymbolInfo as EnhancedSymbolInfo } from '../utils/symbolUtils';
+import { getUnrealizedPL } from '../utils/portfolioAccounting';
+import { formatForexPrice, getPipValue, getSpreadPips, LOT_LABELS, LOT_SIZES, LotType, lotsToUnits } from '../utils/forex';
+import { formatTimeUntil, getForexMarketStatus } from '../utils/marketHours';
+import { CostBasisMethod } from '../types/trading';
 
 // Use the enhanced SymbolInfo from symbolUtils
 type SymbolInfo = EnhancedSymbolInfo;
@@ -24,6 +33,9 @@ const AVAILABLE_SYMBOLS: SymbolInfo[] = [
   createSymbolInfo('MSFT', 'Microsoft', 'stock', '💻'),
   createSymbolInfo('GOOGL', 'Google', 'stock', '🔍'),
   createSymbolInfo('TSLA', 'Tesla', 'stock', '🚗'),
+  // Forex
+  createSymbolInfo('EUR_USD', 'Euro / US Dollar', 'forex', '€'),
+  createSymbolInfo('GBP_USD', 'British Pound / US Dollar', 'forex', '£'),
 ];
 
 
@@ -48,7 +60,7 @@ export const Trading: React.FC = () => {
     // Always force WebSocket connection to ensure it's active for the Trading page
     // This handles cases where user navigates directly to /trading on refresh
     console.log('Ensuring WebSocket connection for Trading page...');
-    binanceWebSocket.forceReconnect();
+    marketDataRegistry.reconnect(true);
     
     // Subscribe to all default crypto symbols immediately
     const defaultCryptoSymbols = AVAILABLE_SYMBOLS
@@ -57,7 +69,7 @@ export const Trading: React.FC = () => {
     
     defaultCryptoSymbols.forEach(symbol => {
       console.log(`Ensuring subscription for ${symbol}`);
-      binanceWebSocket.subscribe(symbol, 'ticker');
+      marketDataRegistry.subscribe(symbol);
       useMarketStore.getState().addSubscription(symbol);
     });
     
@@ -65,12 +77,20 @@ export const Trading: React.FC = () => {
     // This prevents the chart from appearing empty
   }, []); // Run only once on mount
   
+  // Forex pairs are polled rather than streamed, so they are subscribed when first selected
+  useEffect(() => {
+    if (selectedSymbol.type === 'forex') {
+      marketDataRegistry.subscribe(selectedSymbol.symbol);
+      useMarketStore.getState().addSubscription(selectedSymbol.symbol);
+    }
+  }, [selectedSymbol]);
+  
   // Ensure WebSocket subscription and historical data for selected symbol
   useEffect(() => {
     if (selectedSymbol.type === 'crypto' && selectedSymbol.symbol.includes('USDT')) {
       // Always try to subscribe (the service handles duplicates)
       console.log(`📡 Ensuring subscription for symbol: ${selectedSymbol.symbol}`);
-      binanceWebSocket.subscribe(selectedSymbol.symbol, 'ticker');
+      marketDataRegistry.subscribe(selectedSymbol.symbol);
       useMarketStore.getState().addSubscription(selectedSymbol.symbol);
       
       // Fetch historical data for the selected symbol with multiple retry attempts
@@ -145,14 +165,35 @@ export const Trading: React.FC = () => {
   const [quantity, setQuantity] = useState<string>('1');
   const [limitPrice, setLimitPrice] = useState<string>('');
   const [stopPrice, setStopPrice] = useState<string>('');
-  const [portfolio, setPortfolio] = useState({
-    cash: 100000,
-    positions: [] as any[],
-    trades: [] as any[]
-  });
+  const [lotType, setLotType] = useState<LotType>('mini'); // Forex quantities are entered in lots
+  
+  // Paper trading state lives in the portfolio store, shared with the dashboard
+  const cash = useCashBalance();
+  const totalValue = usePortfolioValue();
+  const positions = usePositions();
+  const trades = useTrades();
+  const initialCash = usePortfolioStore(state => state.initialCash);
+  const { buyingPower, isBelowMaintenance } = useMarginSummary();
+  const costBasisMethod = usePortfolioStore(state => state.costBasisMethod);
+  const setCostBasisMethod = usePortfolioStore(state => state.setCostBasisMethod);
 
   const prices = useMarketStore(state => state.prices);
   const currentPrice = prices.get(selectedSymbol.symbol);
+  const isForex = selectedSymbol.type === 'forex';
+  const forexSession = isForex ? getForexMarketStatus() : undefined;
+  
+  // Forex rates are shown to pipette precision without currency conversion
+  const formatSymbolPrice = (symbol: string, price: number, decimals = 2) => {
+    return AVAILABLE_SYMBOLS.find(s => s.symbol === symbol)?.type === 'forex'
+      ? formatForexPrice(price, symbol)
+      : formatPrice(price, decimals);
+  };
+  
+  // Units sent with the order: lots for forex, shares or coins otherwise
+  const getOrderUnits = () => {
+    const value = parseFloat(quantity);
+    return isForex ? lotsToUnits(value, lotType) : value;
+  };
   
   // Use real historical data from the market store
   const enrichedCurrentPrice = currentPrice;
@@ -168,96 +209,36 @@ export const Trading: React.FC = () => {
   const executeTrade = () => {
     if (!currentPrice || !quantity || parseFloat(quantity) <= 0) return;
 
-    const qty = parseFloat(quantity);
-    const price = orderType === 'limit' && limitPrice 
-      ? parseFloat(limitPrice) 
-      : currentPrice.price;
-
-    const totalCost = qty * price;
-    
-    if (side === 'buy' && totalCost > portfolio.cash) {
-      alert('Insufficient funds!');
-      return;
-    }
-
-    const trade = {
-      id: Date.now().toString(),
+    const qty = getOrderUnits();
+    const result = orderService.placeOrder({
       symbol: selectedSymbol.symbol,
-      name: selectedSymbol.name,
       side,
+      type: orderType,
       quantity: qty,
-      price,
-      totalValue: totalCost,
-      timestamp: new Date().toISOString(),
-      type: orderType
-    };
-
-    // Update portfolio
-    setPortfolio(prev => {
-      const newCash = side === 'buy' 
-        ? prev.cash - totalCost 
-        : prev.cash + totalCost;
-
-      // Update or create position
-      const existingPosition = prev.positions.find(p => p.symbol === selectedSymbol.symbol);
-      let newPositions = [...prev.positions];
-
-      if (side === 'buy') {
-        if (existingPosition) {
-          existingPosition.quantity += qty;
-          existingPosition.avgPrice = 
-            ((existingPosition.avgPrice * (existingPosition.quantity - qty)) + (price * qty)) 
-            / existingPosition.quantity;
-        } else {
-          newPositions.push({
-            symbol: selectedSymbol.symbol,
-            name: selectedSymbol.name,
-            quantity: qty,
-            avgPrice: price,
-            type: selectedSymbol.type
-          });
-        }
-      } else {
-        if (existingPosition) {
-          existingPosition.quantity -= qty;
-          if (existingPosition.quantity <= 0) {
-            newPositions = newPositions.filter(p => p.symbol !== selectedSymbol.symbol);
-          }
-        }
-      }
-
-      return {
-        cash: newCash,
-        positions: newPositions,
-        trades: [trade, ...prev.trades].slice(0, 50) // Keep last 50 trades
-      };
+      price: orderType === 'limit' && limitPrice ? parseFloat(limitPrice) : undefined,
+      stopPrice: orderType === 'stop' && stopPrice ? parseFloat(stopPrice) : undefined,
     });
 
+    if (!result.success) {
+      alert(`Cannot place order: ${result.reason}`);
+      return;
+    }
+
     // Reset form
     setQuantity('1');
     setLimitPrice('');
     setStopPrice('');
     
-    // Show success message
-    const message = `${side.toUpperCase()} ${qty} ${selectedSymbol.name} @ $${price.toFixed(2)}`;
-    console.log('Trade executed:', message);
+    console.log('Order submitted:', `${side.toUpperCase()} ${qty} ${selectedSymbol.name} (${orderType})`);
   };
 
-  // Calculate portfolio value
-  const calculatePortfolioValue = () => {
-    let totalValue = portfolio.cash;
-    portfolio.positions.forEach(position => {
-      const currentPrice = prices.get(position.symbol);
-      if (currentPrice) {
-        totalValue += position.quantity * currentPrice.price;
-      }
-    });
-    return totalValue;
+  const getSymbolName = (symbol: string) => {
+    return AVAILABLE_SYMBOLS.find(s => s.symbol === symbol)?.name || symbol;
   };
 
-  const totalValue = calculatePortfolioValue();
-  const totalPL = totalValue - 100000; // Initial cash was 100k
-  const totalPLPercent = (totalPL / 100000) * 100;
+  const totalPL = totalValue - initialCash;
+  const totalPLPercent = (totalPL / initialCash) * 100;
+  const recentTrades = [...trades].reverse();
 
   return (
     <div className="min-h-screen bg-trading-bg">
@@ -305,7 +286,7 @@ export const Trading: React.FC = () => {
                 <button
                   onClick={() => {
                     console.log('Manual reconnect triggered');
-                    binanceWebSocket.forceReconnect();
+                    marketDataRegistry.reconnect(true);
                   }}
                   className="ml-2 px-3 py-1 bg-red-800 hover:bg-red-700 text-white text-sm rounded transition-colors"
                 >
@@ -325,9 +306,21 @@ export const Trading: React.FC = () => {
                 <div>
                   <span className="text-gray-400 text-sm">Price</span>
                   <div className="text-xl font-bold text-white">
-                    {formatPrice(currentPrice.price, selectedSymbol.type === 'crypto' ? 4 : 2)}
+                    {formatSymbolPrice(selectedSymbol.symbol, currentPrice.price, selectedSymbol.type === 'crypto' ? 4 : 2)}
                   </div>
                 </div>
+                {isForex && currentPrice.bid !== undefined && currentPrice.ask !== undefined && (
+                  <div>
+                    <span className="text-gray-400 text-sm">
+                      Bid / Ask ({getSpreadPips(currentPrice.bid, currentPrice.ask, selectedSymbol.symbol).toFixed(1)} pips)
+                    </span>
+                    <div className="text-lg font-mono">
+                      <span className="text-trading-red">{formatForexPrice(currentPrice.bid, selectedSymbol.symbol)}</span>
+                      <span className="text-gray-500"> / </span>
+                      <span className="text-trading-green">{formatForexPrice(currentPrice.ask, selectedSymbol.symbol)}</span>
+                    </div>
+                  </div>
+                )}
                 <div>
                   <span className="text-gray-400 text-sm">24h</span>
                   <div className={`text-lg font-semibold ${
@@ -405,7 +398,13 @@ export const Trading: React.FC = () => {
           <div className="flex items-center space-x-6">
             <div>
               <span className="text-gray-400 text-sm">Cash Balance</span>
-              <div className="text-lg font-semibold text-white">{formatPrice(portfolio.cash)}</div>
+              <div className="text-lg font-semibold text-white">{formatPrice(cash)}</div>
+            </div>
+            <div>
+              <span className="text-gray-400 text-sm">Buying Power</span>
+              <div className={`text-lg font-semibold ${isBelowMaintenance ? 'text-trading-red' : 'text-white'}`}>
+                {formatPrice(buyingPower)}
+              </div>
             </div>
             <div>
               <span className="text-gray-400 text-sm">Total Value</span>
@@ -427,6 +426,9 @@ export const Trading: React.FC = () => {
         <div className="grid grid-cols-1 xl:grid-cols-4 gap-6">
           {/* Chart Section - Takes up 3 columns */}
           <div className="xl:col-span-3 space-y-6">
+            {/* Historical replay in place of the live feeds */}
+            <ReplayControls symbol={selectedSymbol.symbol} />
+
             {/* Interactive Chart */}
             <div className="trading-card">
               <div className="flex items-center justify-between mb-4">
@@ -458,24 +460,37 @@ export const Trading: React.FC = () => {
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
               {/* Open Positions */}
               <div className="trading-card">
-                <h3 className="text-lg font-semibold text-white mb-4">Open Positions</h3>
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold text-white">Open Positions</h3>
+                  <select
+                    value={costBasisMethod}
+                    onChange={(e) => setCostBasisMethod(e.target.value as CostBasisMethod)}
+                    className="bg-trading-card-dark border border-trading-border rounded px-2 py-1 text-sm text-white"
+                    title="Lot matching for realized P&L"
+                  >
+                    <option value="FIFO">FIFO</option>
+                    <option value="LIFO">LIFO</option>
+                    <option value="AVERAGE">Average cost</option>
+                  </select>
+                </div>
                 <div className="space-y-2 max-h-64 overflow-y-auto">
-                  {portfolio.positions.length === 0 ? (
+                  {positions.length === 0 ? (
                     <div className="text-center text-gray-500 py-8">No open positions</div>
                   ) : (
-                    portfolio.positions.map(position => {
+                    positions.map(position => {
                       const currentPrice = prices.get(position.symbol);
                       const currentValue = currentPrice ? position.quantity * currentPrice.price : 0;
-                      const pl = currentPrice ? (currentPrice.price - position.avgPrice) * position.quantity : 0;
+                      const pl = currentPrice ? getUnrealizedPL(position, currentPrice.price) : 0;
                       const plPercent = position.avgPrice ? (pl / (position.avgPrice * position.quantity)) * 100 : 0;
                       
                       return (
-                        <div key={position.symbol} className="bg-trading-card-dark p-3 rounded">
+                        <div key={position.id} className="bg-trading-card-dark p-3 rounded">
                           <div className="flex justify-between items-start">
                             <div>
-                              <div className="font-semibold text-white">{position.name}</div>
+                              <div className="font-semibold text-white">{getSymbolName(position.symbol)}</div>
                               <div className="text-sm text-gray-400">
-                                {position.quantity} @ {formatPrice(position.avgPrice, 2)}
+                                {position.side === 'short' && <span className="text-trading-red mr-1">SHORT</span>}
+                                {position.quantity} @ {formatSymbolPrice(position.symbol, position.avgPrice)}
                               </div>
                             </div>
                             <div className="text-right">
@@ -483,6 +498,11 @@ export const Trading: React.FC = () => {
                               <div className={`text-sm ${pl >= 0 ? 'text-trading-green' : 'text-trading-red'}`}>
                                 {pl >= 0 ? '+' : ''}{formatPrice(Math.abs(pl))} ({plPercent >= 0 ? '+' : ''}{plPercent.toFixed(2)}%)
                               </div>
+                              {position.realizedPL !== 0 && (
+                                <div className="text-xs text-gray-500">
+                                  Realized {position.realizedPL >= 0 ? '+' : '-'}{formatPrice(Math.abs(position.realizedPL))}
+                                </div>
+                              )}
                             </div>
                           </div>
                         </div>
@@ -496,10 +516,10 @@ export const Trading: React.FC = () => {
               <div className="trading-card">
                 <h3 className="text-lg font-semibold text-white mb-4">Recent Trades</h3>
                 <div className="space-y-2 max-h-64 overflow-y-auto">
-                  {portfolio.trades.length === 0 ? (
+                  {recentTrades.length === 0 ? (
                     <div className="text-center text-gray-500 py-8">No trades yet</div>
                   ) : (
-                    portfolio.trades.slice(0, 10).map(trade => (
+                    recentTrades.slice(0, 10).map(trade => (
                       <div key={trade.id} className="bg-trading-card-dark p-3 rounded">
                         <div className="flex justify-between items-start">
                           <div>
@@ -509,14 +529,19 @@ export const Trading: React.FC = () => {
                               }`}>
                                 {trade.side.toUpperCase()}
                               </span>
-                              <span className="text-white">{trade.name}</span>
+                              <span className="text-white">{getSymbolName(trade.symbol)}</span>
                             </div>
                             <div className="text-sm text-gray-400 mt-1">
-                              {trade.quantity} @ {formatPrice(trade.price, 2)}
+                              {trade.quantity} @ {formatSymbolPrice(trade.symbol, trade.price)}
                             </div>
                           </div>
                           <div className="text-right">
-                            <div className="text-white">{formatPrice(trade.totalValue)}</div>
+                            <div className="text-white">{formatPrice(trade.quantity * trade.price)}</div>
+                            {trade.realizedPL !== undefined && trade.realizedPL !== 0 && (
+                              <div className={`text-xs ${trade.realizedPL >= 0 ? 'text-trading-green' : 'text-trading-red'}`}>
+                                {trade.realizedPL >= 0 ? '+' : '-'}{formatPrice(Math.abs(trade.realizedPL))}
+                              </div>
+                            )}
                             <div className="text-xs text-gray-500">
                               {new Date(trade.timestamp).toLocaleTimeString()}
                             </div>
@@ -536,6 +561,14 @@ export const Trading: React.FC = () => {
             <div className="trading-card">
               <h3 className="text-lg font-semibold text-white mb-4">Place Order</h3>
               
+              {/* Forex trades 24x5; outside the session the last quotes are stale */}
+              {forexSession && !forexSession.isOpen && (
+                <div className="mb-4 p-3 bg-yellow-900/20 border border-yellow-900/50 rounded text-sm text-yellow-400">
+                  Forex market closed for the weekend
+                  {forexSession.nextOpen && ` - opens in ${formatTimeUntil(forexSession.nextOpen)}`}
+                </div>
+              )}
+              
               {/* Buy/Sell Toggle */}
               <div className="grid grid-cols-2 gap-2 mb-4">
                 <button
@@ -576,16 +609,32 @@ export const Trading: React.FC = () => {
 
               {/* Quantity */}
               <div className="mb-4">
-                <label className="text-sm text-gray-400 mb-2 block">Quantity</label>
+                <label className="text-sm text-gray-400 mb-2 block">{isForex ? 'Lots' : 'Quantity'}</label>
+                {isForex && (
+                  <select
+                    value={lotType}
+                    onChange={(e) => setLotType(e.target.value as LotType)}
+                    className="w-full mb-2 bg-trading-card-dark text-white px-3 py-2 rounded border border-trading-border focus:outline-none focus:border-blue-500"
+                  >
+                    {(Object.keys(LOT_SIZES) as LotType[]).map(type => (
+                      <option key={type} value={type}>{LOT_LABELS[type]}</option>
+                    ))}
+                  </select>
+                )}
                 <input
                   type="number"
                   value={quantity}
                   onChange={(e) => setQuantity(e.target.value)}
-                  min="0.001"
-                  step="0.001"
+                  min={isForex ? '0.01' : '0.001'}
+                  step={isForex ? '0.01' : '0.001'}
                   className="w-full bg-trading-card-dark text-white px-3 py-2 rounded border border-trading-border focus:outline-none focus:border-blue-500"
                   placeholder="0.00"
                 />
+                {isForex && currentPrice && parseFloat(quantity) > 0 && (
+                  <div className="mt-1 text-xs text-gray-500">
+                    {getOrderUnits().toLocaleString()} units - pip value {formatPrice(getPipValue(selectedSymbol.symbol, getOrderUnits(), currentPrice.price))}
+                  </div>
+                )}
               </div>
 
               {/* Limit Price (for limit orders) */}
@@ -597,7 +646,7 @@ export const Trading: React.FC = () => {
                     value={limitPrice}
                     onChange={(e) => setLimitPrice(e.target.value)}
                     min="0"
-                    step="0.01"
+                    step={isForex ? '0.00001' : '0.01'}
                     className="w-full bg-trading-card-dark text-white px-3 py-2 rounded border border-trading-border focus:outline-none focus:border-blue-500"
                     placeholder="0.00"
                   />
@@ -613,7 +662,7 @@ export const Trading: React.FC = () => {
                     value={stopPrice}
                     onChange={(e) => setStopPrice(e.target.value)}
                     min="0"
-                    step="0.01"
+                    step={isForex ? '0.00001' : '0.01'}
                     className="w-full bg-trading-card-dark text-white px-3 py-2 rounded border border-trading-border focus:outline-none focus:border-blue-500"
                     placeholder="0.00"
                   />
@@ -626,12 +675,12 @@ export const Trading: React.FC = () => {
                   <div className="flex justify-between text-sm mb-1">
                     <span className="text-gray-400">Estimated Cost</span>
                     <span className="text-white">
-                      {formatPrice(parseFloat(quantity) * (orderType === 'limit' && limitPrice ? parseFloat(limitPrice) : currentPrice.price))}
+                      {formatPrice(getOrderUnits() * (orderType === 'limit' && limitPrice ? parseFloat(limitPrice) : currentPrice.price))}
                     </span>
                   </div>
                   <div className="flex justify-between text-sm">
-                    <span className="text-gray-400">Available Balance</span>
-                    <span className="text-white">{formatPrice(portfolio.cash)}</span>
+                    <span className="text-gray-400">Buying Power</span>
+                    <span className="text-white">{formatPrice(buyingPower)}</span>
                   </div>
                 </div>
               )}
@@ -651,47 +700,16 @@ export const Trading: React.FC = () => {
             </div>
 
             {/* Market Depth / Order Book */}
-            <div className="trading-card">
-              <h3 className="text-lg font-semibold text-white mb-4">Order Book</h3>
-              <div className="space-y-2">
-                {/* Sell Orders */}
-                <div className="space-y-1">
-                  {[...Array(5)].map((_, i) => {
-                    const price = currentPrice ? currentPrice.price * (1 + (0.001 * (5 - i))) : 0;
-                    const volume = Math.random() * 10;
-                    return (
-                      <div key={`sell-${i}`} className="grid grid-cols-3 text-xs">
-                        <div className="text-red-400 text-right">{formatPrice(price, 4)}</div>
-                        <div className="text-gray-500 text-center">{volume.toFixed(3)}</div>
-                        <div className="text-gray-600 text-right">{formatPrice(price * volume, 2)}</div>
-                      </div>
-                    );
-                  })}
-                </div>
-                
-                {/* Current Price Divider */}
-                <div className="border-t border-b border-trading-border py-2">
-                  <div className="text-center font-semibold text-white">
-                    {currentPrice ? formatPrice(currentPrice.price, 4) : '---'}
-                  </div>
-                </div>
+            <OrderBook
+              symbol={selectedSymbol.symbol}
+              enabled={selectedSymbol.type === 'crypto' && selectedSymbol.symbol.includes('USDT')}
+            />
 
-                {/* Buy Orders */}
-                <div className="space-y-1">
-                  {[...Array(5)].map((_, i) => {
-                    const price = currentPrice ? currentPrice.price * (1 - (0.001 * (i + 1))) : 0;
-                    const volume = Math.random() * 10;
-                    return (
-                      <div key={`buy-${i}`} className="grid grid-cols-3 text-xs">
-                        <div className="text-green-400 text-right">{formatPrice(price, 4)}</div>
-                        <div className="text-gray-500 text-center">{volume.toFixed(3)}</div>
-                        <div className="text-gray-600 text-right">{formatPrice(price * volume, 2)}</div>
-                      </div>
-                    );
-                  })}
-                </div>
-              </div>
-            </div>
+            {/* Time and Sales */}
+            <TimeAndSales
+              symbol={selectedSymbol.symbol}
+              enabled={selectedSymbol.type === 'crypto' && selectedSymbol.symbol.includes('USDT')}
+            />
           </div>
         </div>
       </div>
@@ -0,0 +1,118 @@
+import { makeBar } from '../testFixtures';
+import { BacktestContext, BacktestEngine, BacktestOptions, BacktestStrategy, getPricePath } from './BacktestEngine';
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.parse('2024-01-05T12:00:00Z');
+
+// No fees, slippage or impact, so fills land exactly where the bar path says they should
+const OPTIONS: BacktestOptions = {
+  initialCash: 10000,
+  config: { feeScheduleId: 'flat', commissionRate: 0 },
+  fillModel: { slippageBps: 0, impactBps: 0, impactNotional: 1 },
+  riskChecks: false,
+};
+
+const at = (hour: number) => START + hour * HOUR;
+
+// Places the given orders on the first bar's close and does nothing after
+const placeOnce = (place: (context: BacktestContext) => void): BacktestStrategy => ({
+  name: 'Test',
+  onBar: (_, context) => {
+    if (context.index === 0) place(context);
+  },
+});
+
+describe('getPricePath', () => {
+  test('visits the low first on up bars and the high first on down bars', () => {
+    expect(getPricePath(makeBar(at(0), 100, 110, 90, 105))).toEqual([100, 90, 110, 105]);
+    expect(getPricePath(makeBar(at(0), 100, 110, 90, 95))).toEqual([100, 110, 90, 95]);
+  });
+});
+
+describe('BacktestEngine', () => {
+  let engine: BacktestEngine;
+
+  beforeEach(() => {
+    engine = new BacktestEngine();
+  });
+
+  test('fills market orders at the next open and marks the curve at each close', () => {
+    const bars = [makeBar(at(0), 100, 101, 99, 100), makeBar(at(1), 102, 103, 101, 102), makeBar(at(2), 103, 106, 102, 105)];
+    const result = engine.run('BTCUSDT', bars, placeOnce(context => {
+      context.placeOrder({ side: 'buy', type: 'market', quantity: 10 });
+    }), OPTIONS);
+
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0]).toMatchObject({ side: 'buy', quantity: 10, price: 102, timestamp: bars[1].time });
+    expect(result.equityCurve.map(point => point.equity)).toEqual([10000, 10000, 10030]);
+    expect(result.finalEquity).toBe(10030);
+  });
+
+  test('fills resting limits at the limit when the bar trades through it', () => {
+    const bars = [makeBar(at(0), 100, 101, 99, 100), makeBar(at(1), 100, 101, 94, 97)];
+    const result = engine.run('BTCUSDT', bars, placeOnce(context => {
+      context.placeOrder({ side: 'buy', type: 'limit', quantity: 1, price: 95 });
+    }), OPTIONS);
+
+    expect(result.trades[0]).toMatchObject({ price: 95, liquidity: 'maker' });
+  });
+
+  test('fills stops at the stop when triggered inside the bar and at the open on a gap', () => {
+    const strategy: BacktestStrategy = {
+      name: 'Test',
+      onBar: (_, context) => {
+        if (context.index === 0) context.placeOrder({ side: 'buy', type: 'market', quantity: 2 });
+        if (context.index === 1) context.placeOrder({ side: 'sell', type: 'stop', quantity: 1, stopPrice: 95 });
+        if (context.index === 2) context.placeOrder({ side: 'sell', type: 'stop', quantity: 1, stopPrice: 90 });
+      },
+    };
+    const bars = [
+      makeBar(at(0), 100, 101, 99, 100),
+      makeBar(at(1), 100, 101, 99, 100),
+      makeBar(at(2), 100, 100, 92, 93),   // Trades down through 95
+      makeBar(at(3), 85, 86, 80, 82),     // Gaps below 90
+    ];
+    const result = engine.run('BTCUSDT', bars, strategy, OPTIONS);
+
+    expect(result.trades.map(trade => trade.price)).toEqual([100, 95, 85]);
+    expect(result.trades[1]).toMatchObject({ liquidity: 'taker', realizedPL: -5 });
+  });
+
+  test('expires DAY orders at the rollover while GTC orders keep working', () => {
+    const bars = [
+      makeBar(at(0), 100, 101, 99, 100),
+      makeBar(at(13), 100, 101, 80, 85),  // 01:00 UTC the next day, past the 00:00 UTC crypto rollover
+    ];
+    const result = engine.run('BTCUSDT', bars, placeOnce(context => {
+      context.placeOrder({ side: 'buy', type: 'limit', quantity: 1, price: 90, timeInForce: 'DAY' });
+      context.placeOrder({ side: 'buy', type: 'limit', quantity: 1, price: 89, timeInForce: 'GTC' });
+    }), OPTIONS);
+
+    expect(result.orders.map(order => order.status)).toEqual(['expired', 'filled']);
+    expect(result.trades.map(trade => trade.price)).toEqual([89]);
+  });
+
+  test('cancels IOC orders that do not fill on the next bar', () => {
+    const bars = [makeBar(at(0), 100, 101, 99, 100), makeBar(at(1), 100, 101, 99, 100), makeBar(at(2), 100, 101, 80, 85)];
+    const result = engine.run('BTCUSDT', bars, placeOnce(context => {
+      context.placeOrder({ side: 'buy', type: 'limit', quantity: 1, price: 90, timeInForce: 'IOC' });
+    }), OPTIONS);
+
+    expect(result.orders[0].status).toBe('cancelled');
+    expect(result.trades).toEqual([]);
+  });
+
+  test('hands strategies the history up to the current bar', () => {
+    const seen: number[] = [];
+    const bars = [makeBar(at(0), 100, 101, 99, 100), makeBar(at(1), 100, 101, 99, 101), makeBar(at(2), 101, 102, 100, 102)];
+    engine.run('BTCUSDT', bars, {
+      name: 'Test',
+      onBar: (current, context) => {
+        seen.push(context.bars.length);
+        expect(context.bars[context.index]).toBe(current);
+      },
+    }, OPTIONS);
+
+    expect(seen).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,472 @@
+/**
+ * Backtest Engine
+ * Replays historical bars through a strategy with the live simulator's order types, fill model, fees and risk rules
+ * Strategies act on each bar's close; their orders start working on the next bar, which is walked
+ * open → high/low → close so stops and limits trigger in a plausible order
+ */
+
+import {
+  AccountConfig,
+  BarInterval,
+  CostBasisMethod,
+  EquitySnapshot,
+  FeeLiquidity,
+  OHLCData,
+  Order,
+  PaperAccount,
+  Position,
+  Trade,
+} from '../types/trading';
+import { OrderRequest, OrderResult, orderService } from './OrderService';
+import { riskEngine } from './RiskEngine';
+import { marketDataRegistry } from './MarketDataRegistry';
+import { DEFAULT_ACCOUNT_CONFIG, TRADING_CONFIG } from '../utils/constants';
+import { getBorrowFee, getMarginSummary, getMarketValue, getUnrealizedPL } from '../utils/portfolioAccounting';
+import { DEFAULT_FILL_MODEL, FillModelConfig, getOrderLimitPrice, simulateFill } from '../utils/fillModel';
+import {
+  getTrailingLevels,
+  isImmediateOrder,
+  isOrderExpired,
+  isOrderOpen,
+  isTrailingOrder,
+  matchOrder,
+  updateTrailingStop,
+} from '../utils/orderMatching';
+import { applyOrderFill } from '../utils/orderFills';
+import { getSymbolType, toMarketSymbol } from '../utils/symbolUtils';
+import { getDayOrderExpiry } from '../utils/marketHours';
+import { getDailyLossFraction, getNextDayStart, isTradingLocked } from '../utils/riskRules';
+import { calculatePerformanceMetrics, PerformanceMetrics } from '../utils/performanceAnalytics';
+
+export type BacktestOrderRequest = Omit<OrderRequest, 'symbol'>;
+export type BacktestInterval = BarInterval;
+
+export interface BacktestContext {
+  symbol: string;
+  index: number;          // Index of the current bar
+  bars: ReadonlyArray<OHLCData>; // History up to and including the current bar; a live view, so copy it to keep it
+  cash: number;
+  equity: number;
+  position?: Position;
+  openOrders: Order[];
+  placeOrder: (request: BacktestOrderRequest) => OrderResult;
+  cancelOrder: (orderId: string) => void;
+}
+
+export interface BacktestStrategy {
+  name: string;
+  onBar: (bar: OHLCData, context: BacktestContext) => void; // Called on each bar's close
+  onFill?: (trade: Trade, order: Order, context: BacktestContext) => void;
+}
+
+export interface BacktestOptions {
+  initialCash?: number;
+  config?: Partial<AccountConfig>; // Fees, margin and risk limits, as for a paper account
+  costBasisMethod?: CostBasisMethod;
+  fillModel?: FillModelConfig;
+  riskChecks?: boolean;            // Run orders through the pre-trade risk engine; on by default
+}
+
+export interface BacktestResult {
+  symbol: string;
+  strategy: string;
+  bars: number;
+  startTime: number;
+  endTime: number;
+  initialCash: number;
+  finalEquity: number;
+  trades: Trade[];
+  orders: Order[];                 // Includes orders rejected by validation or risk checks
+  equityCurve: EquitySnapshot[];
+  metrics: PerformanceMetrics;
+}
+
+interface BacktestSession {
+  symbol: string;
+  bars: OHLCData[];
+  history: OHLCData[]; // Bars seen so far, shared with strategies instead of slicing on every bar
+  index: number;
+  account: PaperAccount;
+  strategy: BacktestStrategy;
+  fillModel: FillModelConfig;
+  riskChecks: boolean;
+  nextId: number;
+}
+
+// Up bars are assumed to trade down to the low before the high, down bars the reverse
+export const getPricePath = (bar: OHLCData): number[] => {
+  return bar.close >= bar.open
+    ? [bar.open, bar.low, bar.high, bar.close]
+    : [bar.open, bar.high, bar.low, bar.close];
+};
+
+export class BacktestEngine {
+  /**
+   * Fetch bars for a symbol from its market data provider and backtest a strategy over them
+   */
+  public async runHistorical(
+    symbol: string,
+    interval: BacktestInterval,
+    strategy: BacktestStrategy,
+    options: BacktestOptions = {}
+  ): Promise<BacktestResult | null> {
+    const bars = await marketDataRegistry.fetchHistoricalBars(symbol, interval);
+    if (bars.length === 0) return null;
+    return this.run(toMarketSymbol(symbol), bars, strategy, options);
+  }
+
+  /**
+   * Backtest a strategy over bars, oldest first; bar times are in milliseconds
+   */
+  public run(symbol: string, bars: OHLCData[], strategy: BacktestStrategy, options: BacktestOptions = {}): BacktestResult {
+    const initialCash = options.initialCash ?? TRADING_CONFIG.INITIAL_CASH;
+    const startTime = bars[0]?.time ?? 0;
+
+    const session: BacktestSession = {
+      symbol,
+      bars,
+      history: [],
+      index: 0,
+      strategy,
+      fillModel: options.fillModel || DEFAULT_FILL_MODEL,
+      riskChecks: options.riskChecks ?? true,
+      nextId: 0,
+      account: {
+        id: 'backtest',
+        createdAt: startTime,
+        config: { ...DEFAULT_ACCOUNT_CONFIG, name: strategy.name, ...options.config },
+        initialCash,
+        cash: initialCash,
+        totalValue: initialCash,
+        dayChange: 0,
+        dayChangePercent: 0,
+        positions: [],
+        orders: [],
+        trades: [],
+        lastBorrowAccrual: startTime,
+        costBasisMethod: options.costBasisMethod || TRADING_CONFIG.COST_BASIS_METHOD,
+        equityHistory: [],
+      },
+    };
+
+    bars.forEach((bar, index) => {
+      session.index = index;
+      session.history.push(bar);
+      this.processBar(session, bar);
+    });
+
+    const { account } = session;
+    return {
+      symbol,
+      strategy: strategy.name,
+      bars: bars.length,
+      startTime,
+      endTime: bars[bars.length - 1]?.time ?? 0,
+      initialCash,
+      finalEquity: account.totalValue,
+      trades: account.trades,
+      orders: account.orders,
+      equityCurve: account.equityHistory,
+      metrics: calculatePerformanceMetrics(account.equityHistory, account.trades),
+    };
+  }
+
+  /**
+   * Work the open orders through one bar, revalue the account, apply the margin and daily-loss rules,
+   * then hand the close to the strategy; the bar's time stands in for the clock throughout
+   */
+  private processBar(session: BacktestSession, bar: OHLCData): void {
+    // DAY orders whose session closed before this bar never work in it
+    session.account = {
+      ...session.account,
+      orders: session.account.orders.map(order =>
+        isOrderOpen(order) && isOrderExpired(order, bar.time) ? { ...order, status: 'expired' as const } : order
+      ),
+    };
+
+    getPricePath(bar).forEach((price, step) => {
+      // Bracket legs armed earlier in the bar are picked up at the next step
+      session.account.orders
+        .filter(isOrderOpen)
+        .forEach(order => this.matchOrder(session, order.id, price, step === 0, bar.time));
+    });
+
+    // IOC and FOK orders get one bar to fill
+    session.account.orders
+      .filter(order => isOrderOpen(order) && isImmediateOrder(order))
+      .forEach(order => this.cancelOrder(session, order.id));
+
+    this.markToMarket(session, bar);
+    this.liquidateForMargin(session, bar.time);
+    this.enforceDailyLossLimit(session, bar.time);
+    session.strategy.onBar(bar, this.createContext(session));
+  }
+
+  /**
+   * Check one order against a price on the bar's path and book any fill
+   */
+  private matchOrder(session: BacktestSession, orderId: string, price: number, atOpen: boolean, time: number): void {
+    let order = session.account.orders.find(o => o.id === orderId);
+    if (!order || !isOrderOpen(order)) return;
+
+    const trail = updateTrailingStop(order, price);
+    if (trail) {
+      order = this.updateOrder(session, orderId, trail);
+    }
+
+    const wasTriggered = !!order.triggered;
+    const result = matchOrder(order, price);
+    if (result.triggered && !wasTriggered) {
+      order = this.updateOrder(session, orderId, { triggered: true, triggeredAt: time });
+    }
+    if (!result.fill) return;
+
+    // Between path points the market passed through the order's price, so it fills there rather than at the extreme;
+    // at the open a gap fills at the open
+    const limitPrice = getOrderLimitPrice(order);
+    let referencePrice = price;
+    if (!atOpen) {
+      if (result.triggered && !wasTriggered && order.stopPrice !== undefined) {
+        referencePrice = limitPrice === undefined
+          ? order.stopPrice
+          : order.side === 'buy' ? Math.min(order.stopPrice, limitPrice) : Math.max(order.stopPrice, limitPrice);
+      } else if (limitPrice !== undefined) {
+        referencePrice = limitPrice;
+      }
+    }
+
+    const simulated = simulateFill({
+      side: order.side,
+      quantity: result.fill.quantity,
+      referencePrice,
+      limitPrice,
+    }, session.fillModel);
+    if (!simulated) return;
+
+    // Orders only work from the bar after they were placed, so limits always rest
+    const liquidity: FeeLiquidity = limitPrice === undefined ? 'taker' : 'maker';
+    this.fillOrder(session, order, simulated.price, simulated.quantity, liquidity, time);
+  }
+
+  /**
+   * Book a fill with the same accounting as the paper portfolio
+   */
+  private fillOrder(
+    session: BacktestSession,
+    order: Order,
+    price: number,
+    quantity: number,
+    liquidity: FeeLiquidity,
+    time: number
+  ): void {
+    const result = applyOrderFill(session.account, order.id, price, quantity, liquidity, time, () => this.createId(session));
+    if (!result) return;
+
+    const { trade: tradeData, ...fill } = result;
+    const trade: Trade = { ...tradeData, id: this.createId(session), timestamp: time };
+    session.account = { ...session.account, ...fill, trades: [...session.account.trades, trade] };
+
+    const filledOrder = session.account.orders.find(o => o.id === order.id) || order;
+    session.strategy.onFill?.(trade, filledOrder, this.createContext(session));
+  }
+
+  /**
+   * Revalue positions at the close, charge borrow fees on shorts and record the equity curve
+   */
+  private markToMarket(session: BacktestSession, bar: OHLCData): void {
+    const { account } = session;
+    const elapsed = Math.max(0, bar.time - account.lastBorrowAccrual);
+    let borrowFees = 0;
+
+    const positions = account.positions.map(position => {
+      const fee = position.side === 'short' ? getBorrowFee({ ...position, currentPrice: bar.close }, elapsed) : 0;
+      borrowFees += fee;
+      return {
+        ...position,
+        currentPrice: bar.close,
+        unrealizedPL: getUnrealizedPL(position, bar.close),
+        borrowFeesPaid: fee > 0 ? (position.borrowFeesPaid || 0) + fee : position.borrowFeesPaid,
+      };
+    });
+
+    const cash = account.cash - borrowFees;
+    const margin = getMarginSummary(cash, positions, account.config);
+    session.account = {
+      ...account,
+      cash,
+      positions,
+      totalValue: margin.equity,
+      lastBorrowAccrual: bar.time,
+      equityHistory: [...account.equityHistory, {
+        timestamp: bar.time,
+        equity: margin.equity,
+        cash,
+        grossExposure: margin.grossExposure,
+      }],
+    };
+  }
+
+  /**
+   * Below maintenance margin, cancel working orders and close the largest positions at the next bar's open,
+   * as the paper portfolio does on a margin call
+   */
+  private liquidateForMargin(session: BacktestSession, time: number): void {
+    const { account } = session;
+    const margin = getMarginSummary(account.cash, account.positions, account.config);
+    if (!margin.isBelowMaintenance) return;
+    if (account.orders.some(order => order.liquidation && isOrderOpen(order))) return;
+
+    account.orders.filter(isOrderOpen).forEach(order => this.cancelOrder(session, order.id));
+
+    const byValue = [...account.positions].sort((a, b) => getMarketValue(b) - getMarketValue(a));
+    let grossExposure = margin.grossExposure;
+
+    for (const position of byValue) {
+      if (margin.equity >= grossExposure * account.config.maintenanceMargin) break;
+
+      const orderId = this.addOrder(session, {
+        symbol: position.symbol,
+        side: position.side === 'long' ? 'sell' : 'buy',
+        type: 'market',
+        quantity: position.quantity,
+      }, time, 'pending');
+      this.updateOrder(session, orderId, { liquidation: true });
+      grossExposure -= getMarketValue(position);
+    }
+  }
+
+  /**
+   * Lock trading until the next day once the loss since the day's open reaches the account's daily limit
+   */
+  private enforceDailyLossLimit(session: BacktestSession, time: number): void {
+    const { account } = session;
+    const limit = account.config.riskLimits.dailyLossLimit;
+    if (!limit || isTradingLocked(account, time)) return;
+    if (getDailyLossFraction(account, account.totalValue, time) < limit) return;
+
+    session.account = { ...account, tradingLockedUntil: getNextDayStart(time) };
+  }
+
+  /**
+   * Validate, risk-check and queue an order from the strategy at the current bar's close
+   */
+  private placeOrder(session: BacktestSession, request: BacktestOrderRequest): OrderResult {
+    const bar = session.bars[session.index];
+    const lastPrice = bar.close;
+    let orderRequest: OrderRequest = { ...request, symbol: session.symbol };
+
+    const reject = (reason?: string, violations?: OrderResult['violations']): OrderResult => {
+      this.addOrder(session, orderRequest, bar.time, 'rejected');
+      return { success: false, reason, violations };
+    };
+
+    const reason = orderService.validateOrder(orderRequest, lastPrice);
+    if (reason) return reject(reason);
+
+    if (isTrailingOrder(orderRequest)) {
+      orderRequest = { ...orderRequest, ...getTrailingLevels(orderRequest, lastPrice) };
+    }
+
+    if (session.riskChecks) {
+      const risk = riskEngine.evaluate(session.account, {
+        symbol: session.symbol,
+        side: orderRequest.side,
+        type: orderRequest.type,
+        quantity: orderRequest.quantity,
+        price: orderRequest.price || orderRequest.stopPrice || lastPrice,
+        limitPrice: orderRequest.price,
+        stopPrice: orderRequest.stopPrice,
+        lastPrice,
+      }, bar.time);
+      if (!risk.canPlace) return reject(risk.reason, risk.violations);
+    }
+
+    return { success: true, orderId: this.addOrder(session, orderRequest, bar.time, 'pending', lastPrice) };
+  }
+
+  /**
+   * Add an order to the backtest account, mirroring the fields OrderService sets on live orders
+   */
+  private addOrder(
+    session: BacktestSession,
+    request: OrderRequest,
+    time: number,
+    status: Order['status'],
+    lastPrice?: number
+  ): string {
+    const trailing = isTrailingOrder(request);
+    const order: Order = {
+      id: this.createId(session),
+      symbol: request.symbol,
+      side: request.side,
+      type: request.type,
+      quantity: request.quantity,
+      price: request.price,
+      stopPrice: request.stopPrice,
+      takeProfitPrice: request.type === 'bracket' ? request.takeProfitPrice : undefined,
+      stopLossPrice: request.type === 'bracket' ? request.stopLossPrice : undefined,
+      timeInForce: request.timeInForce || 'GTC',
+      status,
+      timestamp: time,
+      expiresAt: request.timeInForce === 'DAY' ? getDayOrderExpiry(getSymbolType(request.symbol), new Date(time)) : undefined,
+      filledQuantity: 0,
+      ...(trailing ? {
+        trailAmount: request.trailPercent === undefined ? request.trailAmount : undefined,
+        trailPercent: request.trailPercent,
+        limitOffset: request.type === 'trailingStopLimit' ? request.limitOffset : undefined,
+        highWaterMark: lastPrice,
+      } : {}),
+    };
+
+    session.account = { ...session.account, orders: [...session.account.orders, order] };
+    return order.id;
+  }
+
+  /**
+   * Cancel an open order and its bracket legs
+   */
+  private cancelOrder(session: BacktestSession, orderId: string): void {
+    session.account = {
+      ...session.account,
+      orders: session.account.orders.map(order =>
+        (order.id === orderId || order.parentId === orderId) && isOrderOpen(order)
+          ? { ...order, status: 'cancelled' as const }
+          : order
+      ),
+    };
+  }
+
+  private updateOrder(session: BacktestSession, orderId: string, updates: Partial<Order>): Order {
+    session.account = {
+      ...session.account,
+      orders: session.account.orders.map(order => order.id === orderId ? { ...order, ...updates } : order),
+    };
+    return session.account.orders.find(order => order.id === orderId)!;
+  }
+
+  /**
+   * Snapshot of the account handed to the strategy
+   */
+  private createContext(session: BacktestSession): BacktestContext {
+    const { account } = session;
+    return {
+      symbol: session.symbol,
+      index: session.index,
+      bars: session.history,
+      cash: account.cash,
+      equity: account.totalValue,
+      position: account.positions.find(position => position.symbol === session.symbol),
+      openOrders: account.orders.filter(isOrderOpen),
+      placeOrder: (request) => this.placeOrder(session, request),
+      cancelOrder: (orderId) => this.cancelOrder(session, orderId),
+    };
+  }
+
+  // Backtests run outside the store, so ids only need to be unique within a run
+  private createId(session: BacktestSession): string {
+    return `bt_${(session.nextId++).toString(36)}`;
+  }
+}
+
+// Singleton instance
+export const backtestEngine = new BacktestEngine();
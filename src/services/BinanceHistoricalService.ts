@@ -5,6 +5,7 @@
  */
 
 import { MarketPrice } from '../types/trading';
+import { API_CONFIG } from '../utils/constants';
 
 interface KlineData {
   openTime: number;
@@ -37,7 +38,7 @@ interface PeriodConfig {
 }
 
 export class BinanceHistoricalService {
-  private readonly baseUrl = 'https://api.binance.com/api/v3';
+  private readonly baseUrl = API_CONFIG.BINANCE.REST_URL;
   private cache: HistoricalCache = {};
   
   // Configuration for different time periods - updated with optimized ranges
@@ -131,6 +132,27 @@ export class BinanceHistoricalService {
     }
   }
 
+  /**
+   * Fetch every kline between two times (ms), paging past the API's 1000-kline limit
+   * Not cached: replay sessions ask for arbitrary past ranges
+   */
+  public async fetchKlineRange(symbol: string, interval: '1m' | '5m' | '15m' | '30m' | '1h' | '4h' | '1d', startTime: number, endTime: number): Promise<KlineData[] | null> {
+    const klines: KlineData[] = [];
+    let from = startTime;
+
+    while (from < endTime) {
+      const page = await this.requestKlines(`symbol=${symbol}&interval=${interval}&startTime=${from}&endTime=${endTime}&limit=1000`);
+      if (!page) return klines.length > 0 ? klines : null;
+      if (page.length === 0) break;
+
+      klines.push(...page);
+      from = page[page.length - 1].closeTime + 1;
+      if (page.length < 1000) break;
+    }
+
+    return klines;
+  }
+
   /**
    * Get percentage change for a specific period
    */
@@ -191,10 +213,17 @@ export class BinanceHistoricalService {
    * Fetch kline data from Binance API with rate limiting
    */
   private async fetchKlineDataFromAPI(symbol: string, config: PeriodConfig): Promise<KlineData[] | null> {
+    return this.requestKlines(`symbol=${symbol}&interval=${config.interval}&limit=${config.limit}`);
+  }
+
+  /**
+   * Queue a klines request with the given query string
+   */
+  private async requestKlines(query: string): Promise<KlineData[] | null> {
     return new Promise((resolve, reject) => {
       this.requestQueue.push(async () => {
         try {
-          const url = `${this.baseUrl}/klines?symbol=${symbol}&interval=${config.interval}&limit=${config.limit}`;
+          const url = `${this.baseUrl}/klines?${query}`;
           
           console.log(`Fetching historical data: ${url}`);
           
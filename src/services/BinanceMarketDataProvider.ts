@@ -0,0 +1,105 @@
+/**
+ * Binance Market Data Provider
+ * Adapts the Binance WebSocket and REST kline services to the MarketDataProvider interface
+ * Depth and trade streams feed the order book and time-and-sales services directly
+ */
+
+import { BarInterval, MarketDataListener, MarketDataProvider, MarketDataStatus, OHLCData, TradingSymbol } from '../types/trading';
+import { binanceWebSocket } from './BinanceWebSocketService';
+import { binanceHistoricalService } from './BinanceHistoricalService';
+import { orderBookService } from './OrderBookService';
+import { tradeTapeService } from './TradeTapeService';
+
+export class BinanceMarketDataProvider implements MarketDataProvider {
+  public readonly id = 'binance';
+  public readonly name = 'Binance';
+  public readonly assetTypes: TradingSymbol['type'][] = ['crypto'];
+  public readonly prefixes = ['BINANCE'];
+  private listener: MarketDataListener | null = null;
+  private status: MarketDataStatus = 'disconnected';
+
+  /**
+   * Route the socket's events to the listener and open it
+   */
+  public async connect(listener: MarketDataListener): Promise<void> {
+    this.listener = listener;
+
+    binanceWebSocket.setHandlers({
+      onPriceUpdate: (price) => {
+        this.listener?.onPrice(price);
+      },
+      onDepthUpdate: (update) => {
+        if (this.listener) orderBookService.handleDepthUpdate(update);
+      },
+      onTrade: (trade) => {
+        if (this.listener) tradeTapeService.handleTrade(trade);
+      },
+      onStatusChange: (status) => {
+        this.status = status;
+        this.listener?.onStatusChange?.(this.id, status);
+      },
+      onError: (error) => {
+        console.error('Binance WebSocket error:', error);
+      },
+    });
+
+    console.log('Connecting to Binance WebSocket...');
+    await binanceWebSocket.connect();
+  }
+
+  /**
+   * Stop forwarding data; the socket stays open for the debug panels that share it
+   */
+  public disconnect(): void {
+    this.listener = null;
+  }
+
+  /**
+   * Drop and reopen the socket
+   */
+  public async reconnect(): Promise<void> {
+    await binanceWebSocket.forceReconnect();
+  }
+
+  /**
+   * Subscribe to a pair's ticker stream; queued until the socket is open
+   */
+  public subscribe(symbol: string): void {
+    binanceWebSocket.subscribe(symbol, 'ticker');
+  }
+
+  /**
+   * Unsubscribe from a pair's ticker stream
+   */
+  public unsubscribe(symbol: string): void {
+    binanceWebSocket.unsubscribe(symbol, 'ticker');
+  }
+
+  /**
+   * Get the socket status
+   */
+  public getStatus(): MarketDataStatus {
+    return binanceWebSocket.getConnectionStatus() ? 'connected' : this.status;
+  }
+
+  /**
+   * Recent klines for a pair, oldest first
+   */
+  public async fetchHistoricalBars(symbol: string, interval: BarInterval, limit?: number): Promise<OHLCData[]> {
+    const klines = await binanceHistoricalService.fetchChartData(symbol, interval);
+    if (!klines) return [];
+
+    const bars = klines.map(kline => ({
+      time: kline.openTime,
+      open: kline.openPrice,
+      high: kline.highPrice,
+      low: kline.lowPrice,
+      close: kline.closePrice,
+      volume: kline.volume,
+    }));
+    return limit ? bars.slice(-limit) : bars;
+  }
+}
+
+// Singleton instance
+export const binanceMarketDataProvider = new BinanceMarketDataProvider();
@@ -4,7 +4,9 @@
  * No API key required for public market data
  */
 
-import { MarketPrice } from '../types/trading';
+import { MarketPrice, MarketTrade } from '../types/trading';
+import { RawDepthLevel } from '../utils/orderBook';
+import { API_CONFIG } from '../utils/constants';
 import { wsHealthMonitor } from './WebSocketHealthMonitor';
 
 export type BinanceSymbol = string; // e.g., 'btcusdt', 'ethusdt'
@@ -14,6 +16,7 @@ interface BinanceTradeData {
   e: string;  // Event type
   E: number;  // Event time
   s: string;  // Symbol
+  t: number;  // Trade ID
   p: string;  // Price
   q: string;  // Quantity
   b: number;  // Buyer order ID
@@ -50,6 +53,16 @@ interface BinanceMiniTickerData {
   q: string;  // Total traded quote asset volume
 }
 
+export interface BinanceDepthData {
+  e: string;  // Event type = 'depthUpdate'
+  E: number;  // Event time
+  s: string;  // Symbol
+  U: number;  // First update ID in event
+  u: number;  // Final update ID in event
+  b: RawDepthLevel[]; // Bids to be updated
+  a: RawDepthLevel[]; // Asks to be updated
+}
+
 interface BinanceKlineData {
   e: string;  // Event type = 'kline'
   E: number;  // Event time
@@ -70,7 +83,7 @@ interface BinanceKlineData {
 
 export class BinanceWebSocketService {
   private ws: WebSocket | null = null;
-  private baseUrl = 'wss://stream.binance.com:9443';
+  private baseUrl = API_CONFIG.BINANCE.WS_URL;
   private subscriptions = new Map<string, Set<string>>(); // symbol -> streams
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 10;
@@ -86,6 +99,8 @@ export class BinanceWebSocketService {
   
   // Callbacks
   private onPriceUpdate?: (price: MarketPrice) => void;
+  private onDepthUpdate?: (update: BinanceDepthData) => void;
+  private onTrade?: (trade: MarketTrade) => void;
   private onStatusChange?: (status: 'connecting' | 'connected' | 'disconnected' | 'error') => void;
   private onError?: (error: Error) => void;
 
@@ -98,10 +113,14 @@ export class BinanceWebSocketService {
    */
   public setHandlers(handlers: {
     onPriceUpdate?: (price: MarketPrice) => void;
+    onDepthUpdate?: (update: BinanceDepthData) => void;
+    onTrade?: (trade: MarketTrade) => void;
     onStatusChange?: (status: 'connecting' | 'connected' | 'disconnected' | 'error') => void;
     onError?: (error: Error) => void;
   }) {
     this.onPriceUpdate = handlers.onPriceUpdate;
+    this.onDepthUpdate = handlers.onDepthUpdate;
+    this.onTrade = handlers.onTrade;
     this.onStatusChange = handlers.onStatusChange;
     this.onError = handlers.onError;
   }
@@ -283,6 +302,7 @@ export class BinanceWebSocketService {
   private mapStreamName(stream: BinanceStream): string {
     switch(stream) {
       case 'ticker': return 'ticker';
+      case 'depth': return 'depth@100ms'; // Diff depth updates
       case 'kline_15m': return 'kline_15m';
       case 'kline_1h': return 'kline_1h';
       default: return stream;
@@ -435,9 +455,7 @@ export class BinanceWebSocketService {
       streamTypes.forEach(stream => {
         setTimeout(() => {
           if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-            const streamName = stream === 'ticker' ? 'ticker' : 
-                             stream === 'kline_15m' ? 'kline_15m' : 
-                             stream === 'kline_1h' ? 'kline_1h' : stream;
+            const streamName = this.mapStreamName(stream as BinanceStream);
             
             const subMessage = {
               method: 'SUBSCRIBE',
@@ -561,9 +579,13 @@ export class BinanceWebSocketService {
    * Process stream data based on type
    */
   private processStreamData(stream: string, data: any): void {
-    // ONLY process 24hrTicker, ignore everything else
+    // Prices come from 24hrTicker only; depth diffs and trades feed the order books and tape
     if (data.e === '24hrTicker' || stream.includes('@ticker')) {
       this.processTicker(data as BinanceTickerData);
+    } else if (data.e === 'depthUpdate' || stream.includes('@depth')) {
+      this.onDepthUpdate?.(data as BinanceDepthData);
+    } else if (data.e === 'trade' || stream.includes('@trade')) {
+      this.processTrade(data as BinanceTradeData);
     } else {
       // Log what we're skipping
       if (data.s === 'BTCUSDT') {
@@ -573,23 +595,20 @@ export class BinanceWebSocketService {
   }
 
   /**
-   * Process trade data
+   * Process trade data into a time-and-sales print
    */
   private processTrade(trade: BinanceTradeData): void {
-    const marketPrice: MarketPrice = {
+    // Prices stay on the ticker stream, which carries the authoritative 24h change
+    const marketTrade: MarketTrade = {
+      id: trade.t,
       symbol: trade.s,
       price: parseFloat(trade.p),
-      change: 0, // Will be calculated elsewhere
-      changePercent: 0, // Will be calculated elsewhere
-      volume: parseFloat(trade.q),
+      quantity: parseFloat(trade.q),
+      side: trade.m ? 'sell' : 'buy', // Buyer is the maker, so the seller crossed the spread
       timestamp: trade.T,
-      // Note: 24h change is not available in trade stream, will come from ticker stream
     };
-    
-    // Don't log every trade as it's too verbose
-    // console.log(`💹 ${trade.s} Trade: $${parseFloat(trade.p).toFixed(2)}`);
-    
-    this.onPriceUpdate?.(marketPrice);
+
+    this.onTrade?.(marketTrade);
   }
 
   /**
@@ -0,0 +1,160 @@
+/**
+ * Exchange Rate Service
+ * Keeps the display-currency rates current: EUR and GBP from the Binance USDT crosses (EURUSDT, GBPUSDT),
+ * the rest from the ECB reference rates published by Frankfurter
+ * Rates are cached in localStorage with the time they were fetched, so a reload starts from the last known values
+ */
+
+import { API_CONFIG, TRADING_CONFIG } from '../utils/constants';
+import { CURRENCIES, CurrencyCode, ExchangeRates } from '../utils/currencies';
+
+const CACHE_KEY = 'exchangeRates';
+
+// Binance has no USD fiat markets; USDT tracks the dollar closely enough for display conversion
+const USDT_CROSSES: Partial<Record<CurrencyCode, string>> = {
+  EUR: 'EURUSDT',
+  GBP: 'GBPUSDT',
+};
+
+const loadCachedRates = (): ExchangeRates => {
+  try {
+    const saved = localStorage.getItem(CACHE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (error) {
+    console.error('Failed to read cached exchange rates:', error);
+    return {};
+  }
+};
+
+class ExchangeRateService {
+  private rates: ExchangeRates = loadCachedRates();
+  private refreshInterval: number | null = null;
+  private onRatesUpdate?: (rates: ExchangeRates) => void;
+
+  /**
+   * Set the handler called after every refresh, successful or not, so staleness can be re-checked
+   */
+  public setHandlers(handlers: { onRatesUpdate?: (rates: ExchangeRates) => void }): void {
+    this.onRatesUpdate = handlers.onRatesUpdate;
+  }
+
+  /**
+   * Fetch rates now and then on TRADING_CONFIG.EXCHANGE_RATE_REFRESH_INTERVAL
+   */
+  public start(): void {
+    if (this.refreshInterval) return;
+
+    this.refresh();
+    this.refreshInterval = window.setInterval(() => {
+      this.refresh();
+    }, TRADING_CONFIG.EXCHANGE_RATE_REFRESH_INTERVAL);
+  }
+
+  /**
+   * Stop refreshing
+   */
+  public stop(): void {
+    if (this.refreshInterval) {
+      clearInterval(this.refreshInterval);
+      this.refreshInterval = null;
+    }
+  }
+
+  /**
+   * Check if service is running
+   */
+  public isRunning(): boolean {
+    return this.refreshInterval !== null;
+  }
+
+  /**
+   * The latest rates per currency; currencies never fetched are missing
+   */
+  public getRates(): ExchangeRates {
+    return { ...this.rates };
+  }
+
+  /**
+   * Fetch every rate; a source that fails keeps its previous rates and their timestamps
+   */
+  public async refresh(): Promise<void> {
+    const [crosses, reference] = await Promise.allSettled([
+      this.fetchUsdtCrosses(),
+      this.fetchReferenceRates(),
+    ]);
+
+    // The USDT crosses trade around the clock, so they win over the once-a-day reference rates
+    const fetched: ExchangeRates = {};
+    if (reference.status === 'fulfilled') {
+      Object.assign(fetched, reference.value);
+    } else {
+      console.error('Failed to fetch ECB exchange rates:', reference.reason);
+    }
+    if (crosses.status === 'fulfilled') {
+      Object.assign(fetched, crosses.value);
+    } else {
+      console.error('Failed to fetch Binance USDT crosses:', crosses.reason);
+    }
+
+    this.rates = { ...this.rates, ...fetched };
+    try {
+      localStorage.setItem(CACHE_KEY, JSON.stringify(this.rates));
+    } catch (error) {
+      console.error('Failed to cache exchange rates:', error);
+    }
+
+    console.log(`Exchange rates updated: ${Object.keys(fetched).join(', ') || 'none'}`);
+    this.onRatesUpdate?.(this.getRates());
+  }
+
+  // The crosses quote USDT per unit of the currency, so the rate per dollar is the inverse
+  private async fetchUsdtCrosses(): Promise<ExchangeRates> {
+    const entries = Object.entries(USDT_CROSSES) as [CurrencyCode, string][];
+    const results = await Promise.allSettled(entries.map(async ([code, symbol]) => {
+      const response = await fetch(`${API_CONFIG.BINANCE.REST_URL}/ticker/price?symbol=${symbol}`);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      const price = parseFloat(data.price);
+      if (!(price > 0)) {
+        throw new Error(`No price for ${symbol}`);
+      }
+      return { code, rate: 1 / price };
+    }));
+
+    const rates: ExchangeRates = {};
+    results.forEach(result => {
+      if (result.status === 'fulfilled') {
+        rates[result.value.code] = { rate: result.value.rate, updatedAt: Date.now(), source: 'binance' };
+      }
+    });
+    if (Object.keys(rates).length === 0) {
+      throw (results[0] as PromiseRejectedResult).reason;
+    }
+    return rates;
+  }
+
+  // Frankfurter returns { base: 'USD', date, rates: { EUR: 0.92, ... } }
+  private async fetchReferenceRates(): Promise<ExchangeRates> {
+    const codes = (Object.keys(CURRENCIES) as CurrencyCode[]).filter(code => code !== 'USD');
+    const response = await fetch(`${API_CONFIG.FRANKFURTER.BASE_URL}/latest?from=USD&to=${codes.join(',')}`);
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const rates: ExchangeRates = {};
+    codes.forEach(code => {
+      const rate = Number(data.rates?.[code]);
+      if (rate > 0) {
+        rates[code] = { rate, updatedAt: Date.now(), source: 'ecb' };
+      }
+    });
+    return rates;
+  }
+}
+
+// Singleton instance
+export const exchangeRateService = new ExchangeRateService();
@@ -0,0 +1,304 @@
+/**
+ * Forex Data Service
+ * Polls bid/ask quotes from TraderMade (falling back to Twelve Data mid prices) and fetches candles from Twelve Data
+ * Pairs use the OANDA-style market symbol, e.g. 'EUR_USD'
+ */
+
+import { API_CONFIG, TRADING_CONFIG } from '../utils/constants';
+import { MarketPrice, OHLCData } from '../types/trading';
+import { getForexMarketStatus, getNextForexRollover } from '../utils/marketHours';
+import { parseCurrencyPair } from '../utils/forex';
+
+export const DEFAULT_FOREX_PAIRS = [
+  'EUR_USD', // Euro
+  'GBP_USD', // British Pound
+];
+
+interface ForexQuote {
+  symbol: string;
+  price: number;
+  bid?: number;
+  ask?: number;
+  previousClose?: number;
+  open?: number;
+  high?: number;
+  low?: number;
+}
+
+// TraderMade /live and /historical responses; the historical quotes carry a close instead of bid/ask/mid
+interface TraderMadeQuote {
+  base_currency?: string;
+  quote_currency?: string;
+  bid?: number;
+  ask?: number;
+  mid?: number;
+  close?: number;
+}
+
+interface TraderMadeResponse {
+  quotes?: TraderMadeQuote[];
+}
+
+// Twelve Data /quote (keyed by symbol when several are requested) and /time_series; numbers arrive as strings
+interface TwelveDataQuote {
+  symbol?: string;
+  close?: string;
+  previous_close?: string;
+  open?: string;
+  high?: string;
+  low?: string;
+}
+
+interface TwelveDataBar {
+  datetime: string;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+}
+
+interface TwelveDataTimeSeries {
+  status?: string;
+  values?: TwelveDataBar[];
+}
+
+const hasPair = (quote: TraderMadeQuote): quote is TraderMadeQuote & { base_currency: string; quote_currency: string } =>
+  Boolean(quote && quote.base_currency && quote.quote_currency);
+
+const toTraderMadeSymbol = (symbol: string): string => symbol.replace(/[_/]/g, '');
+const toTwelveDataSymbol = (symbol: string): string => {
+  const pair = parseCurrencyPair(symbol);
+  return pair ? `${pair.base}/${pair.quote}` : symbol;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A forex trading day runs from 17:00 to 17:00 New York time and carries the date it ends on;
+// returns the last completed one as YYYY-MM-DD, skipping weekends
+const getPreviousTradingDate = (now: number): string => {
+  const currentDate = new Date(now + 7 * 60 * 60 * 1000).toLocaleDateString('en-CA', { timeZone: 'America/New_York' });
+  const date = new Date(`${currentDate}T00:00:00Z`);
+  do {
+    date.setTime(date.getTime() - DAY_MS);
+  } while (date.getUTCDay() === 0 || date.getUTCDay() === 6);
+  return date.toISOString().slice(0, 10);
+};
+
+class ForexDataService {
+  private pollInterval: number | null = null;
+  private isPolling = false;
+  private previousCloses = new Map<string, number>();
+  private previousClosesUntil = 0; // Rollover after which the previous closes are stale
+  private onPriceUpdate?: (price: MarketPrice) => void;
+
+  /**
+   * Set the handler for polled quotes
+   */
+  public setHandlers(handlers: { onPriceUpdate?: (price: MarketPrice) => void }): void {
+    this.onPriceUpdate = handlers.onPriceUpdate;
+  }
+
+  /**
+   * Start polling quotes; polls are skipped while the forex market is closed for the weekend
+   */
+  public startPolling(symbols: string[] = DEFAULT_FOREX_PAIRS): void {
+    if (this.isPolling) return;
+
+    this.isPolling = true;
+    console.log('Starting forex quote polling for:', symbols);
+
+    // Initial fetch, even when closed, so the last prices are shown
+    this.fetchQuotes(symbols);
+
+    this.pollInterval = window.setInterval(() => {
+      if (getForexMarketStatus().isOpen) {
+        this.fetchQuotes(symbols);
+      }
+    }, TRADING_CONFIG.FOREX_POLL_INTERVAL);
+  }
+
+  /**
+   * Stop polling
+   */
+  public stopPolling(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+    this.isPolling = false;
+    console.log('Stopped forex quote polling');
+  }
+
+  /**
+   * Check if service is running
+   */
+  public isRunning(): boolean {
+    return this.isPolling;
+  }
+
+  /**
+   * Whether any forex API key is configured
+   */
+  public isConfigured(): boolean {
+    return Boolean(API_CONFIG.TRADERMADE.API_KEY || API_CONFIG.TWELVE_DATA.API_KEY);
+  }
+
+  /**
+   * Fetch OHLC candles from Twelve Data, oldest first with times in ms
+   * @param interval - Twelve Data interval: '1min', '5min', '15min', '30min', '1h', '4h', '1day', '1week' or '1month'
+   */
+  public async fetchCandles(symbol: string, interval: string, limit: number): Promise<OHLCData[]> {
+    const apiKey = API_CONFIG.TWELVE_DATA.API_KEY;
+    if (!apiKey) {
+      console.warn('Twelve Data API key not found - forex candles unavailable');
+      return [];
+    }
+
+    try {
+      const url = `${API_CONFIG.TWELVE_DATA.BASE_URL}/time_series?symbol=${encodeURIComponent(toTwelveDataSymbol(symbol))}&interval=${interval}&outputsize=${limit}&timezone=UTC&apikey=${apiKey}`;
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const data: TwelveDataTimeSeries = await response.json();
+      if (data.status !== 'ok' || !Array.isArray(data.values)) return [];
+
+      // Values come newest first, with UTC times like '2024-01-05 14:30:00' (or a bare date for daily bars)
+      return data.values
+        .filter(value => typeof value?.datetime === 'string')
+        .map(value => ({
+          time: Date.parse(`${value.datetime.replace(' ', 'T')}${value.datetime.length > 10 ? 'Z' : 'T00:00:00Z'}`),
+          open: parseFloat(value.open),
+          high: parseFloat(value.high),
+          low: parseFloat(value.low),
+          close: parseFloat(value.close),
+        }))
+        .reverse();
+    } catch (error) {
+      console.error(`Failed to fetch forex candles for ${symbol}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Fetch quotes for all pairs and publish them with the change since the previous daily close
+   */
+  private async fetchQuotes(symbols: string[]): Promise<void> {
+    if (symbols.length === 0) return;
+
+    let quotes: ForexQuote[] = [];
+    try {
+      if (API_CONFIG.TRADERMADE.API_KEY) {
+        quotes = await this.fetchTraderMadeQuotes(symbols);
+      } else if (API_CONFIG.TWELVE_DATA.API_KEY) {
+        quotes = await this.fetchTwelveDataQuotes(symbols);
+      } else {
+        console.error('No forex API key found (TraderMade or Twelve Data)');
+        return;
+      }
+    } catch (error) {
+      console.error('Failed to fetch forex quotes:', error);
+      return;
+    }
+
+    quotes.forEach(quote => {
+      const previousClose = quote.previousClose ?? this.previousCloses.get(quote.symbol);
+      const change = previousClose ? quote.price - previousClose : 0;
+
+      const marketPrice: MarketPrice = {
+        symbol: quote.symbol,
+        price: quote.price,
+        bid: quote.bid,
+        ask: quote.ask,
+        change,
+        changePercent: previousClose ? (change / previousClose) * 100 : 0,
+        open24h: quote.open,
+        high24h: quote.high,
+        low24h: quote.low,
+        timestamp: Date.now(),
+        source: 'forex-quote',
+      };
+      this.onPriceUpdate?.(marketPrice);
+    });
+
+    console.log(`Forex quotes updated: ${quotes.length}/${symbols.length} successful`);
+  }
+
+  // TraderMade live quotes carry bid/ask but no daily statistics
+  private async fetchTraderMadeQuotes(symbols: string[]): Promise<ForexQuote[]> {
+    const apiKey = API_CONFIG.TRADERMADE.API_KEY;
+    await this.loadTraderMadePreviousCloses(symbols);
+
+    const url = `${API_CONFIG.TRADERMADE.BASE_URL}/live?currency=${symbols.map(toTraderMadeSymbol).join(',')}&api_key=${apiKey}`;
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const data: TraderMadeResponse = await response.json();
+    if (!Array.isArray(data.quotes)) return [];
+
+    return data.quotes
+      .filter(hasPair)
+      .map(quote => ({
+        symbol: `${quote.base_currency}_${quote.quote_currency}`,
+        price: quote.mid || 0,
+        bid: quote.bid,
+        ask: quote.ask,
+      }))
+      .filter(quote => quote.price > 0);
+  }
+
+  // Previous closes come from the last completed trading day, refreshed once per rollover
+  private async loadTraderMadePreviousCloses(symbols: string[]): Promise<void> {
+    const now = Date.now();
+    if (now < this.previousClosesUntil && symbols.every(symbol => this.previousCloses.has(symbol))) return;
+
+    const date = getPreviousTradingDate(now);
+    try {
+      const url = `${API_CONFIG.TRADERMADE.BASE_URL}/historical?currency=${symbols.map(toTraderMadeSymbol).join(',')}&date=${date}&api_key=${API_CONFIG.TRADERMADE.API_KEY}`;
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const data: TraderMadeResponse = await response.json();
+      (data.quotes || []).filter(hasPair).forEach(quote => {
+        if (quote.close) {
+          this.previousCloses.set(`${quote.base_currency}_${quote.quote_currency}`, quote.close);
+        }
+      });
+      this.previousClosesUntil = getNextForexRollover(new Date(now)).getTime();
+    } catch (error) {
+      console.error('Failed to fetch forex previous closes:', error);
+    }
+  }
+
+  // Twelve Data quotes are mid prices with daily statistics; several symbols come back keyed by symbol
+  private async fetchTwelveDataQuotes(symbols: string[]): Promise<ForexQuote[]> {
+    const apiKey = API_CONFIG.TWELVE_DATA.API_KEY;
+    const url = `${API_CONFIG.TWELVE_DATA.BASE_URL}/quote?symbol=${encodeURIComponent(symbols.map(toTwelveDataSymbol).join(','))}&apikey=${apiKey}`;
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const entries: TwelveDataQuote[] = symbols.length === 1 ? [data] : Object.values(data as Record<string, TwelveDataQuote>);
+
+    return entries
+      .filter((entry): entry is TwelveDataQuote & { symbol: string; close: string } => Boolean(entry && entry.symbol && entry.close))
+      .map(entry => ({
+        symbol: entry.symbol.replace('/', '_'),
+        price: parseFloat(entry.close),
+        previousClose: entry.previous_close ? parseFloat(entry.previous_close) : undefined,
+        open: entry.open ? parseFloat(entry.open) : undefined,
+        high: entry.high ? parseFloat(entry.high) : undefined,
+        low: entry.low ? parseFloat(entry.low) : undefined,
+      }));
+  }
+}
+
+// Singleton instance
+export const forexDataService = new ForexDataService();
@@ -0,0 +1,122 @@
+/**
+ * Forex Market Data Provider
+ * Adapts forex quote polling (ForexDataService) to the MarketDataProvider interface
+ */
+
+import { BarInterval, MarketDataListener, MarketDataProvider, MarketDataStatus, OHLCData, TradingSymbol } from '../types/trading';
+import { forexDataService } from './ForexDataService';
+
+// Twelve Data intervals
+const INTERVALS: Record<BarInterval, string> = {
+  '1m': '1min',
+  '5m': '5min',
+  '15m': '15min',
+  '30m': '30min',
+  '1h': '1h',
+  '4h': '4h',
+  '1d': '1day',
+  '1w': '1week',
+  '1M': '1month',
+};
+
+const DEFAULT_BAR_LIMIT = 300;
+const RESTART_DELAY = 100;
+
+export class ForexMarketDataProvider implements MarketDataProvider {
+  public readonly id = 'forex';
+  public readonly name = 'Forex (TraderMade / Twelve Data)';
+  public readonly assetTypes: TradingSymbol['type'][] = ['forex'];
+  public readonly prefixes = ['OANDA', 'FX', 'FOREX'];
+  private symbols = new Set<string>();
+  private listener: MarketDataListener | null = null;
+  private restartTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Start polling the subscribed pairs
+   */
+  public async connect(listener: MarketDataListener): Promise<void> {
+    this.listener = listener;
+    forexDataService.setHandlers({
+      onPriceUpdate: (price) => this.listener?.onPrice(price),
+    });
+    this.restartPolling();
+  }
+
+  /**
+   * Stop polling
+   */
+  public disconnect(): void {
+    this.listener = null;
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+    forexDataService.stopPolling();
+    forexDataService.setHandlers({});
+  }
+
+  /**
+   * Restart polling, fetching every pair straight away
+   */
+  public async reconnect(): Promise<void> {
+    if (this.listener) this.restartPolling();
+  }
+
+  /**
+   * Add a pair to the polled set
+   */
+  public subscribe(symbol: string): void {
+    if (this.symbols.has(symbol)) return;
+    this.symbols.add(symbol);
+    if (this.listener) this.restartPolling();
+  }
+
+  /**
+   * Remove a pair from the polled set
+   */
+  public unsubscribe(symbol: string): void {
+    if (!this.symbols.delete(symbol)) return;
+    if (this.listener) this.restartPolling();
+  }
+
+  /**
+   * Polling counts as connected; without an API key there is nothing to poll
+   */
+  public getStatus(): MarketDataStatus {
+    if (!forexDataService.isConfigured()) return 'disconnected';
+    return forexDataService.isRunning() ? 'connected' : 'disconnected';
+  }
+
+  /**
+   * Whether a forex API key is set; without one the registry leaves forex out of the overall status
+   */
+  public isConfigured(): boolean {
+    return forexDataService.isConfigured();
+  }
+
+  /**
+   * The most recent candles, oldest first
+   */
+  public async fetchHistoricalBars(symbol: string, interval: BarInterval, limit = DEFAULT_BAR_LIMIT): Promise<OHLCData[]> {
+    return forexDataService.fetchCandles(symbol, INTERVALS[interval], limit);
+  }
+
+  // Same batching as the stock provider: a burst of subscriptions restarts polling once
+  private restartPolling(): void {
+    if (this.restartTimer) clearTimeout(this.restartTimer);
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      forexDataService.stopPolling();
+      if (!this.listener || this.symbols.size === 0 || !forexDataService.isConfigured()) {
+        this.listener?.onStatusChange?.(this.id, 'disconnected');
+        return;
+      }
+
+      forexDataService.startPolling(Array.from(this.symbols));
+      this.listener.onStatusChange?.(this.id, 'connected');
+    }, RESTART_DELAY);
+  }
+}
+
+// Singleton instance
+export const forexMarketDataProvider = new ForexMarketDataProvider();
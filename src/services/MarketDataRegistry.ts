@@ -0,0 +1,181 @@
+/**
+ * Market Data Registry
+ * Routes each symbol to the feed that serves it, by exchange prefix (e.g. 'BINANCE:', 'OANDA:') or asset type
+ * Adding a feed means registering an adapter here; components only talk to the registry
+ */
+
+import { BarInterval, MarketDataListener, MarketDataProvider, MarketDataStatus, OHLCData, TradingSymbol } from '../types/trading';
+import { getSymbolType, toMarketSymbol } from '../utils/symbolUtils';
+import { binanceMarketDataProvider } from './BinanceMarketDataProvider';
+import { stockMarketDataProvider } from './StockMarketDataProvider';
+import { forexMarketDataProvider } from './ForexMarketDataProvider';
+
+type AssetType = TradingSymbol['type'];
+
+export class MarketDataRegistry {
+  private providers = new Map<string, MarketDataProvider>();
+  private routes = new Map<AssetType, string>(); // Asset type overrides
+  private subscriptions = new Map<string, string>(); // Market symbol -> provider id
+  private listener: MarketDataListener | null = null;
+
+  constructor(providers: MarketDataProvider[] = [binanceMarketDataProvider, stockMarketDataProvider, forexMarketDataProvider]) {
+    providers.forEach(provider => this.register(provider));
+  }
+
+  /**
+   * Add a provider, replacing any provider with the same id
+   * Providers registered after connectAll are connected straight away
+   */
+  public register(provider: MarketDataProvider): void {
+    this.providers.get(provider.id)?.disconnect();
+    this.providers.set(provider.id, provider);
+    if (this.listener) {
+      this.connectProvider(provider);
+    }
+  }
+
+  /**
+   * Remove a provider and drop its subscriptions; returns false if it was not registered
+   */
+  public unregister(id: string): boolean {
+    const provider = this.providers.get(id);
+    if (!provider) return false;
+
+    provider.disconnect();
+    this.providers.delete(id);
+    this.subscriptions.forEach((providerId, symbol) => {
+      if (providerId === id) this.subscriptions.delete(symbol);
+    });
+    return true;
+  }
+
+  /**
+   * Get the registered providers in registration order
+   */
+  public getProviders(): MarketDataProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * Send every symbol of an asset type to a specific provider, overriding the default
+   */
+  public setRoute(assetType: AssetType, providerId: string): void {
+    this.routes.set(assetType, providerId);
+  }
+
+  /**
+   * Find the provider for a symbol: an exchange prefix wins, then the asset type
+   */
+  public resolve(symbol: string): MarketDataProvider | undefined {
+    const separatorIndex = symbol.indexOf(':');
+    if (separatorIndex >= 0) {
+      const prefix = symbol.slice(0, separatorIndex).toUpperCase();
+      const byPrefix = this.getProviders().find(p => p.prefixes.includes(prefix));
+      if (byPrefix) return byPrefix;
+    }
+
+    // Already-subscribed symbols stay with the provider they were routed to
+    const subscribed = this.subscriptions.get(toMarketSymbol(symbol));
+    if (subscribed && this.providers.has(subscribed)) return this.providers.get(subscribed);
+
+    const assetType = getSymbolType(symbol);
+    const routed = this.routes.get(assetType);
+    if (routed && this.providers.has(routed)) return this.providers.get(routed);
+    return this.getProviders().find(p => p.assetTypes.includes(assetType));
+  }
+
+  /**
+   * Connect every provider, forwarding their data to the listener
+   */
+  public async connectAll(listener: MarketDataListener): Promise<void> {
+    this.listener = listener;
+    await Promise.all(this.getProviders().map(provider => this.connectProvider(provider)));
+  }
+
+  /**
+   * Disconnect every provider; subscriptions are kept for the next connectAll
+   */
+  public disconnectAll(): void {
+    this.listener = null;
+    this.providers.forEach(provider => provider.disconnect());
+  }
+
+  /**
+   * Reconnect providers that have dropped (or all of them when forced)
+   */
+  public async reconnect(force = false): Promise<void> {
+    const stale = this.getConfiguredProviders()
+      .filter(p => force || p.getStatus() === 'disconnected' || p.getStatus() === 'error');
+    await Promise.all(stale.map(p => p.reconnect ? p.reconnect() : Promise.resolve()));
+  }
+
+  /**
+   * Subscribe to a symbol through its provider; returns the provider id, or undefined if none serves it
+   */
+  public subscribe(symbol: string): string | undefined {
+    const provider = this.resolve(symbol);
+    if (!provider) {
+      console.warn(`No market data provider for ${symbol}`);
+      return undefined;
+    }
+
+    const marketSymbol = toMarketSymbol(symbol);
+    this.subscriptions.set(marketSymbol, provider.id);
+    provider.subscribe(marketSymbol);
+    return provider.id;
+  }
+
+  /**
+   * Unsubscribe from a symbol
+   */
+  public unsubscribe(symbol: string): void {
+    const marketSymbol = toMarketSymbol(symbol);
+    const providerId = this.subscriptions.get(marketSymbol);
+    if (!providerId) return;
+
+    this.providers.get(providerId)?.unsubscribe(marketSymbol);
+    this.subscriptions.delete(marketSymbol);
+  }
+
+  /**
+   * Historical bars (oldest first, times in ms) from whichever provider serves the symbol
+   */
+  public async fetchHistoricalBars(symbol: string, interval: BarInterval, limit?: number): Promise<OHLCData[]> {
+    const provider = this.resolve(symbol);
+    if (!provider) return [];
+    return provider.fetchHistoricalBars(toMarketSymbol(symbol), interval, limit);
+  }
+
+  /**
+   * Combined status: any error or pending connection shows, otherwise connected once every configured provider in use is
+   */
+  public getStatus(): MarketDataStatus {
+    const inUse = new Set(this.subscriptions.values());
+    const statuses = this.getConfiguredProviders()
+      .filter(p => inUse.size === 0 || inUse.has(p.id))
+      .map(p => p.getStatus());
+
+    if (statuses.length === 0) return 'disconnected';
+    if (statuses.includes('error')) return 'error';
+    if (statuses.includes('connecting')) return 'connecting';
+    return statuses.every(status => status === 'connected') ? 'connected' : 'disconnected';
+  }
+
+  // Providers missing an API key cannot connect, so they neither drag down the status nor get reconnected
+  private getConfiguredProviders(): MarketDataProvider[] {
+    return this.getProviders().filter(p => p.isConfigured?.() !== false);
+  }
+
+  private async connectProvider(provider: MarketDataProvider): Promise<void> {
+    if (!this.listener) return;
+
+    try {
+      await provider.connect(this.listener);
+    } catch (error) {
+      console.error(`Failed to connect ${provider.name}:`, error);
+    }
+  }
+}
+
+// Singleton instance
+export const marketDataRegistry = new MarketDataRegistry();
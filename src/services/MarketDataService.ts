@@ -102,28 +102,10 @@ class MarketDataService {
       useMarketStore.getState().setConnectionStatus(status);
     });
 
-    // Handle price updates
+    // Handle price updates; the manager turns each Finnhub trade into one
     wsManager.addMessageHandler('price', (marketPrice: MarketPrice) => {
       useMarketStore.getState().updatePrice(marketPrice);
     });
-
-    // Handle trade messages from Finnhub
-    wsManager.addMessageHandler('trade', (message: any) => {
-      if (message.data && Array.isArray(message.data)) {
-        message.data.forEach((trade: any) => {
-          const marketPrice: MarketPrice = {
-            symbol: trade.s,
-            price: trade.p,
-            change: 0, // Will be calculated in store
-            changePercent: 0, // Will be calculated in store
-            volume: trade.v,
-            timestamp: trade.t,
-          };
-          
-          useMarketStore.getState().updatePrice(marketPrice);
-        });
-      }
-    });
   }
 
   private startPortfolioUpdates(): void {
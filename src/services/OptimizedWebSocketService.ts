@@ -6,10 +6,11 @@
  */
 
 import { MarketPrice } from '../types/trading';
+import { API_CONFIG } from '../utils/constants';
 
 export class OptimizedBinanceWebSocketService {
   private ws: WebSocket | null = null;
-  private baseUrl = 'wss://stream.binance.com:9443';
+  private baseUrl = API_CONFIG.BINANCE.WS_URL;
   private subscriptions = new Map<string, Set<string>>();
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 10;
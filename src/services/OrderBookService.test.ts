@@ -0,0 +1,107 @@
+import { useMarketStore } from '../stores/marketStore';
+import { RawDepthLevel } from '../utils/orderBook';
+import { BinanceDepthData } from './BinanceWebSocketService';
+import { OrderBookService } from './OrderBookService';
+
+jest.mock('./BinanceWebSocketService', () => ({
+  binanceWebSocket: { subscribe: jest.fn(), unsubscribe: jest.fn() },
+}));
+
+const SYMBOL = 'BTCUSDT';
+
+const diff = (U: number, u: number, b: RawDepthLevel[] = [], a: RawDepthLevel[] = []): BinanceDepthData => ({
+  e: 'depthUpdate',
+  E: u,
+  s: SYMBOL,
+  U,
+  u,
+  b,
+  a,
+});
+
+const mockSnapshot = (lastUpdateId: number) => {
+  (global.fetch as jest.Mock).mockResolvedValueOnce({
+    ok: true,
+    json: async () => ({ lastUpdateId, bids: [['100', '1']], asks: [['101', '1']] }),
+  });
+};
+
+// Lets the snapshot request and its json() resolve
+const flushSnapshot = async () => {
+  for (let i = 0; i < 5; i++) await Promise.resolve();
+};
+
+const getBook = () => useMarketStore.getState().getOrderBook(SYMBOL);
+
+describe('OrderBookService', () => {
+  let service: OrderBookService;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    global.fetch = jest.fn();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    useMarketStore.getState().clearOrderBook(SYMBOL);
+    service = new OrderBookService();
+  });
+
+  afterEach(() => {
+    service.unsubscribe(SYMBOL);
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('replays diffs buffered during the snapshot request and skips those it already covers', async () => {
+    mockSnapshot(10);
+    service.subscribe(SYMBOL);
+
+    service.handleDepthUpdate(diff(5, 9, [['100', '5']]));   // Older than the snapshot
+    service.handleDepthUpdate(diff(10, 12, [['99', '2']]));  // Straddles it
+    await flushSnapshot();
+
+    expect(service.isSynced(SYMBOL)).toBe(true);
+    expect(getBook()?.lastUpdateId).toBe(12);
+    expect(getBook()?.bids).toEqual([{ price: 100, quantity: 1 }, { price: 99, quantity: 2 }]);
+  });
+
+  test('applies diffs in sequence, removing zero-quantity levels', async () => {
+    mockSnapshot(10);
+    service.subscribe(SYMBOL);
+    await flushSnapshot();
+
+    service.handleDepthUpdate(diff(11, 11, [['100', '0']], [['100.5', '3']]));
+    expect(getBook()?.lastUpdateId).toBe(11);
+    expect(getBook()?.bids).toEqual([]);
+    expect(getBook()?.asks[0]).toEqual({ price: 100.5, quantity: 3 });
+  });
+
+  test('drops the book on a sequence gap and resyncs from a new snapshot', async () => {
+    mockSnapshot(10);
+    service.subscribe(SYMBOL);
+    await flushSnapshot();
+
+    service.handleDepthUpdate(diff(13, 14));
+    expect(service.isSynced(SYMBOL)).toBe(false);
+    expect(getBook()).toBeUndefined();
+
+    mockSnapshot(20);
+    jest.runOnlyPendingTimers();
+    await flushSnapshot();
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(service.isSynced(SYMBOL)).toBe(true);
+    expect(getBook()?.lastUpdateId).toBe(20);
+  });
+
+  test('resyncs when the buffered diffs do not line up with the snapshot', async () => {
+    mockSnapshot(10);
+    service.subscribe(SYMBOL);
+    service.handleDepthUpdate(diff(15, 16));
+    await flushSnapshot();
+
+    expect(service.isSynced(SYMBOL)).toBe(false);
+    mockSnapshot(16);
+    jest.runOnlyPendingTimers();
+    await flushSnapshot();
+    expect(getBook()?.lastUpdateId).toBe(16);
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Order Book Service
+ * Maintains local Level-2 books from a Binance REST snapshot plus @depth diff updates
+ * Diffs are sequence-checked; any gap drops the book and resynchronizes from a new snapshot
+ */
+
+import { OrderBook } from '../types/trading';
+import { useMarketStore } from '../stores/marketStore';
+import { isReplayActive } from '../stores/replayStore';
+import { applyDepthUpdates, parseDepthLevels, RawDepthLevel } from '../utils/orderBook';
+import { API_CONFIG } from '../utils/constants';
+import { binanceWebSocket, BinanceDepthData } from './BinanceWebSocketService';
+
+interface DepthSnapshot {
+  lastUpdateId: number;
+  bids: RawDepthLevel[];
+  asks: RawDepthLevel[];
+}
+
+interface BookState {
+  book: OrderBook | null;         // Null until a snapshot has been applied
+  buffer: BinanceDepthData[];     // Diffs received while the snapshot is in flight
+  syncing: boolean;
+  resyncTimer: ReturnType<typeof setTimeout> | null;
+}
+
+export class OrderBookService {
+  private readonly baseUrl = API_CONFIG.BINANCE.REST_URL;
+  private readonly snapshotLimit = 1000;
+  private readonly maxBufferedUpdates = 1000;
+  private readonly resyncDelay = 1000;
+  private books = new Map<string, BookState>();
+
+  /**
+   * Start maintaining a book for a symbol and subscribe to its depth stream
+   */
+  public subscribe(symbol: string): void {
+    const key = symbol.toUpperCase();
+    if (this.books.has(key)) return;
+
+    this.books.set(key, { book: null, buffer: [], syncing: false, resyncTimer: null });
+    binanceWebSocket.subscribe(key, 'depth');
+    this.resync(key);
+  }
+
+  /**
+   * Stop maintaining a symbol's book and drop it from the market store
+   */
+  public unsubscribe(symbol: string): void {
+    const key = symbol.toUpperCase();
+    const state = this.books.get(key);
+    if (!state) return;
+
+    if (state.resyncTimer) clearTimeout(state.resyncTimer);
+    this.books.delete(key);
+    binanceWebSocket.unsubscribe(key, 'depth');
+    useMarketStore.getState().clearOrderBook(key);
+  }
+
+  /**
+   * Handle a diff depth event from the WebSocket stream
+   */
+  public handleDepthUpdate(update: BinanceDepthData): void {
+    const state = this.books.get(update.s);
+    if (!state) return;
+
+    if (!state.book) {
+      // Hold diffs until the snapshot arrives; a runaway buffer means the snapshot is not coming
+      state.buffer.push(update);
+      if (state.buffer.length > this.maxBufferedUpdates) {
+        state.buffer.shift();
+      }
+      return;
+    }
+
+    if (!this.applyUpdate(state, update)) {
+      console.warn(`Order book gap for ${update.s} (expected ${state.book.lastUpdateId + 1}, got ${update.U}), resyncing`);
+      this.scheduleResync(update.s);
+      return;
+    }
+
+    useMarketStore.getState().setOrderBook(state.book);
+  }
+
+  /**
+   * Check whether a symbol currently has a synchronized book
+   */
+  public isSynced(symbol: string): boolean {
+    return !!this.books.get(symbol.toUpperCase())?.book;
+  }
+
+  /**
+   * Apply one diff in sequence; returns false when the diff does not follow on from the book
+   */
+  private applyUpdate(state: BookState, update: BinanceDepthData): boolean {
+    const book = state.book!;
+    const nextId = book.lastUpdateId + 1;
+
+    // Already included in the book
+    if (update.u < nextId) return true;
+
+    // The diff must cover the next update id, otherwise something was missed
+    if (update.U > nextId) return false;
+
+    state.book = {
+      ...book,
+      bids: applyDepthUpdates(book.bids, parseDepthLevels(update.b), 'bids', this.snapshotLimit),
+      asks: applyDepthUpdates(book.asks, parseDepthLevels(update.a), 'asks', this.snapshotLimit),
+      lastUpdateId: update.u,
+      timestamp: update.E,
+    };
+    return true;
+  }
+
+  /**
+   * Drop the current book and fetch a new snapshot after a short delay
+   */
+  private scheduleResync(symbol: string): void {
+    const state = this.books.get(symbol);
+    if (!state || state.resyncTimer) return;
+
+    state.book = null;
+    state.buffer = [];
+    useMarketStore.getState().clearOrderBook(symbol);
+
+    state.resyncTimer = setTimeout(() => {
+      state.resyncTimer = null;
+      this.resync(symbol);
+    }, this.resyncDelay);
+  }
+
+  /**
+   * Fetch a REST snapshot and replay buffered diffs on top of it
+   */
+  private async resync(symbol: string): Promise<void> {
+    const state = this.books.get(symbol);
+    if (!state || state.syncing) return;
+
+    state.syncing = true;
+    try {
+      const response = await fetch(`${this.baseUrl}/depth?symbol=${symbol}&limit=${this.snapshotLimit}`);
+      if (!response.ok) {
+        throw new Error(`Depth snapshot request failed: ${response.status}`);
+      }
+      const snapshot: DepthSnapshot = await response.json();
+
+      // Unsubscribed while the request was in flight
+      if (this.books.get(symbol) !== state) return;
+
+      state.book = {
+        symbol,
+        bids: applyDepthUpdates([], parseDepthLevels(snapshot.bids), 'bids', this.snapshotLimit),
+        asks: applyDepthUpdates([], parseDepthLevels(snapshot.asks), 'asks', this.snapshotLimit),
+        lastUpdateId: snapshot.lastUpdateId,
+        timestamp: Date.now(),
+      };
+
+      const buffered = state.buffer;
+      state.buffer = [];
+      const inSequence = buffered.every(update => this.applyUpdate(state, update));
+
+      if (!inSequence) {
+        console.warn(`Order book snapshot for ${symbol} does not line up with buffered updates, resyncing`);
+        this.scheduleResync(symbol);
+        return;
+      }
+
+      // A replay owns the market store; the book catches up from the stream once it ends
+      if (!isReplayActive()) {
+        useMarketStore.getState().setOrderBook(state.book);
+      }
+    } catch (error) {
+      console.error(`Failed to load order book snapshot for ${symbol}:`, error);
+      this.scheduleResync(symbol);
+    } finally {
+      state.syncing = false;
+    }
+  }
+}
+
+// Singleton instance
+export const orderBookService = new OrderBookService();
@@ -0,0 +1,236 @@
+/**
+ * Order Matching Engine
+ * Fills simulated orders in the portfolio store as market prices cross their triggers
+ */
+
+import { useMarketStore } from '../stores/marketStore';
+import { usePortfolioStore, getAllOrders, getSimulatedAccounts } from '../stores/portfolioStore';
+import { getMarketTime } from '../stores/replayStore';
+import { MarketPrice, Order } from '../types/trading';
+import { isOrderOpen, isImmediateOrder, matchOrder, updateTrailingStop } from '../utils/orderMatching';
+import { toMarketSymbol } from '../utils/symbolUtils';
+import { TRADING_CONFIG } from '../utils/constants';
+import { simulateFill, getOrderLimitPrice } from '../utils/fillModel';
+
+export class OrderMatchingEngine {
+  private unsubscribePrices: (() => void) | null = null;
+  private unsubscribeOrders: (() => void) | null = null;
+  private expiryInterval: number | null = null;
+  private isMatching = false; // Guard against re-entrant matching from store updates
+  private lastValuationTime = 0;
+  private readonly VALUATION_INTERVAL = 1000; // Revalue positions at most once per second
+
+  /**
+   * Start matching open orders against live price updates
+   */
+  public start(): void {
+    if (this.unsubscribePrices) return;
+
+    // Every price update re-checks the open orders and revalues the portfolio
+    // Expiry runs first: a replay can move the market clock past a DAY order's close between expiry checks
+    this.unsubscribePrices = useMarketStore.subscribe(
+      state => state.prices,
+      () => {
+        this.expireOrders();
+        this.matchOpenOrders();
+        this.markToMarket();
+        this.checkMargin();
+        this.checkDailyLoss();
+      }
+    );
+
+    // Newly placed and just-amended orders, in any simulated account, are checked immediately against the last known price
+    this.unsubscribeOrders = usePortfolioStore.subscribe(
+      state => state.accounts,
+      (accounts, previousAccounts) => {
+        const previous = new Map(getAllOrders(previousAccounts).map(o => [o.id, o]));
+        const { replayAccountId } = usePortfolioStore.getState();
+        const newOrders = getAllOrders(getSimulatedAccounts({ accounts, replayAccountId })).filter(o => {
+          const before = previous.get(o.id);
+          return !before || (o.amendments?.length || 0) > (before.amendments?.length || 0);
+        });
+        if (newOrders.length > 0) {
+          this.matchOrders(newOrders, true);
+        }
+      }
+    );
+
+    // DAY orders expire on the clock even when no prices are arriving
+    this.expiryInterval = window.setInterval(() => {
+      this.expireOrders();
+    }, TRADING_CONFIG.ORDER_EXPIRY_CHECK_INTERVAL);
+
+    console.log('OrderMatchingEngine started');
+    this.matchOpenOrders();
+    this.markToMarket(true);
+  }
+
+  /**
+   * Stop matching orders
+   */
+  public stop(): void {
+    this.unsubscribePrices?.();
+    this.unsubscribeOrders?.();
+    this.unsubscribePrices = null;
+    this.unsubscribeOrders = null;
+    if (this.expiryInterval) {
+      clearInterval(this.expiryInterval);
+      this.expiryInterval = null;
+    }
+    console.log('OrderMatchingEngine stopped');
+  }
+
+  /**
+   * Check if the engine is running
+   */
+  public isRunning(): boolean {
+    return this.unsubscribePrices !== null;
+  }
+
+  /**
+   * Match every open order across the simulated accounts
+   */
+  public matchOpenOrders(): void {
+    this.expireOrders();
+    this.matchOrders(getAllOrders(getSimulatedAccounts(usePortfolioStore.getState())));
+  }
+
+  /**
+   * Expire open orders past their time-in-force
+   */
+  public expireOrders(): void {
+    const expiredIds = usePortfolioStore.getState().expireOrders();
+    if (expiredIds.length > 0) {
+      console.log(`⌛ Expired ${expiredIds.length} order(s):`, expiredIds);
+    }
+  }
+
+  /**
+   * Revalue open positions at the latest market prices
+   */
+  public markToMarket(force = false): void {
+    const now = Date.now();
+    if (!force && now - this.lastValuationTime < this.VALUATION_INTERVAL) return;
+    this.lastValuationTime = now;
+
+    const priceMap = new Map<string, number>();
+    useMarketStore.getState().prices.forEach((priceData, symbol) => {
+      priceMap.set(symbol, priceData.price);
+    });
+    const portfolio = usePortfolioStore.getState();
+    portfolio.updateTotalValue(priceMap);
+    portfolio.accrueBorrowFees(getMarketTime());
+  }
+
+  /**
+   * Force-close positions on any account whose equity falls below the maintenance margin
+   */
+  public checkMargin(): void {
+    const orderIds = usePortfolioStore.getState().liquidateForMargin();
+    if (orderIds.length > 0) {
+      console.warn(`⚠️ Margin call: liquidating ${orderIds.length} position(s)`, orderIds);
+    }
+  }
+
+  /**
+   * Lock trading on accounts that have hit their daily loss limit
+   */
+  public checkDailyLoss(): void {
+    const lockedIds = usePortfolioStore.getState().enforceDailyLossLimits();
+    if (lockedIds.length > 0) {
+      console.warn(`🔒 Daily loss limit hit: trading locked for ${lockedIds.length} account(s)`, lockedIds);
+    }
+  }
+
+  /**
+   * Match the given orders against the current market prices
+   * IOC and FOK orders get a single match attempt; whatever is left is cancelled
+   * @param incoming - Orders just placed take liquidity; resting limit orders that fill later add it
+   */
+  private matchOrders(orders: Order[], incoming = false): void {
+    if (this.isMatching) return;
+    this.isMatching = true;
+
+    try {
+      const prices = useMarketStore.getState().prices;
+
+      orders.forEach(order => {
+        // Re-read the order, an earlier fill in this pass may have changed it
+        const current = this.findOrder(order.id);
+        if (!current || !isOrderOpen(current)) return;
+
+        const quote = prices.get(toMarketSymbol(current.symbol));
+        if (quote) {
+          this.matchOrder(current, quote, incoming);
+        }
+
+        if (isImmediateOrder(current)) {
+          const after = this.findOrder(order.id);
+          if (after && isOrderOpen(after)) {
+            console.log(`🚫 Cancelling unfilled ${current.timeInForce} remainder for ${current.symbol}`);
+            usePortfolioStore.getState().cancelOrder(after.id);
+          }
+        }
+      });
+    } catch (error) {
+      console.error('Error matching orders:', error);
+    } finally {
+      this.isMatching = false;
+    }
+  }
+
+  /**
+   * Look up an order in whichever account owns it
+   */
+  private findOrder(orderId: string): Order | undefined {
+    return getAllOrders(usePortfolioStore.getState().accounts).find(o => o.id === orderId);
+  }
+
+  /**
+   * Apply the match result for a single order
+   */
+  private matchOrder(order: Order, quote: MarketPrice, incoming: boolean): void {
+    const portfolio = usePortfolioStore.getState();
+
+    // Trailing stops ratchet with the price before they are checked against it
+    const trail = updateTrailingStop(order, quote.price);
+    if (trail) {
+      portfolio.updateOrder(order.id, trail);
+      order = { ...order, ...trail };
+    }
+
+    const result = matchOrder(order, quote.price);
+
+    if (result.triggered && !order.triggered) {
+      console.log(`🎯 Stop triggered for ${order.side} ${order.symbol} @ ${quote.price}`);
+      portfolio.updateOrder(order.id, { triggered: true, triggeredAt: getMarketTime() });
+    }
+
+    if (!result.fill) return;
+
+    // Price the fill against the order book (or the impact model) rather than the last trade
+    const limitPrice = getOrderLimitPrice(order);
+    const simulated = simulateFill({
+      side: order.side,
+      quantity: result.fill.quantity,
+      referencePrice: quote.price,
+      limitPrice,
+      book: useMarketStore.getState().orderBooks.get(toMarketSymbol(order.symbol)),
+      bid: quote.bid,
+      ask: quote.ask,
+    });
+    if (!simulated) return;
+
+    // Re-match against the liquidity actually available so FOK orders stay all-or-nothing
+    const fill = matchOrder(order, quote.price, simulated.quantity).fill;
+    if (!fill) return;
+
+    const liquidity = incoming || limitPrice === undefined ? 'taker' : 'maker';
+    console.log(`✅ Filled ${order.type} ${order.side} ${fill.quantity} ${order.symbol} @ ${simulated.price} (${simulated.source} ${liquidity}, last ${quote.price})`);
+    portfolio.fillOrder(order.id, simulated.price, fill.quantity, liquidity);
+    this.markToMarket(true);
+  }
+}
+
+// Singleton instance
+export const orderMatchingEngine = new OrderMatchingEngine();
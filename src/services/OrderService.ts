@@ -0,0 +1,296 @@
+/**
+ * Order Service
+ * Single entry point for placing, amending and cancelling paper-trading orders
+ * Every order panel routes through here so the portfolio store stays the one source of truth
+ */
+
+import { useMarketStore } from '../stores/marketStore';
+import { usePortfolioStore } from '../stores/portfolioStore';
+import { Order, OrderAmendmentFields, RiskViolation, TimeInForce } from '../types/trading';
+import { isOrderOpen, isTrailingOrder, getTrailingLevels, QUANTITY_EPSILON } from '../utils/orderMatching';
+import { toMarketSymbol } from '../utils/symbolUtils';
+
+export interface OrderRequest {
+  symbol: string;
+  side: Order['side'];
+  type: Order['type'];
+  quantity: number;
+  price?: number;           // Limit price (limit, stopLimit, bracket entry)
+  stopPrice?: number;       // Trigger price (stop, stopLimit)
+  takeProfitPrice?: number; // Bracket exit legs
+  stopLossPrice?: number;
+  timeInForce?: TimeInForce;
+  trailAmount?: number;     // Trailing stops: distance from the high-water mark, in price
+  trailPercent?: number;    // ...or as a percentage of it
+  limitOffset?: number;     // Trailing stop-limit: limit distance beyond the stop
+}
+
+export interface OrderResult {
+  success: boolean;
+  orderId?: string;
+  reason?: string;
+  violations?: RiskViolation[]; // Set when the risk engine rejected the order
+}
+
+export class OrderService {
+  /**
+   * Validate and submit an order; the matching engine takes it from there
+   */
+  public placeOrder(request: OrderRequest): OrderResult {
+    // Positions are keyed by the market store symbol, whichever panel placed the order
+    const symbol = toMarketSymbol(request.symbol);
+    const lastPrice = useMarketStore.getState().getPrice(symbol)?.price;
+
+    const reason = this.validateOrder({ ...request, symbol }, lastPrice);
+    if (reason) {
+      console.warn(`Order rejected: ${reason}`, request);
+      return { success: false, reason };
+    }
+
+    // Trailing stops start from the current price; the matching engine ratchets them from there
+    if (isTrailingOrder(request) && lastPrice) {
+      request = { ...request, ...getTrailingLevels(request, lastPrice) };
+    }
+
+    // Sized like validateOrder: the limit price, the stop, or the market when there is neither
+    const risk = usePortfolioStore.getState().canPlaceOrder({
+      symbol,
+      side: request.side,
+      type: request.type,
+      quantity: request.quantity,
+      price: request.price || request.stopPrice || lastPrice || 0,
+      limitPrice: request.price,
+      stopPrice: request.stopPrice,
+      lastPrice,
+    });
+    if (!risk.canPlace) {
+      console.warn(`Order rejected by risk checks: ${risk.reason}`, risk.violations);
+      return { success: false, reason: risk.reason, violations: risk.violations };
+    }
+
+    const orderId = usePortfolioStore.getState().addOrder({
+      symbol,
+      side: request.side,
+      type: request.type,
+      quantity: request.quantity,
+      price: request.price,
+      stopPrice: request.stopPrice,
+      takeProfitPrice: request.type === 'bracket' ? request.takeProfitPrice : undefined,
+      stopLossPrice: request.type === 'bracket' ? request.stopLossPrice : undefined,
+      timeInForce: request.timeInForce,
+      ...(isTrailingOrder(request) ? {
+        trailAmount: request.trailPercent === undefined ? request.trailAmount : undefined,
+        trailPercent: request.trailPercent,
+        limitOffset: request.type === 'trailingStopLimit' ? request.limitOffset : undefined,
+        highWaterMark: lastPrice,
+      } : {}),
+      status: 'pending',
+    });
+
+    console.log(`📝 Order placed: ${request.side} ${request.quantity} ${symbol} (${request.type})`, orderId);
+    return { success: true, orderId };
+  }
+
+  /**
+   * Amend the price, quantity, stop or trail of an open order
+   * The amended order is re-validated and re-checked against the risk rules as if newly placed
+   */
+  public replaceOrder(orderId: string, changes: OrderAmendmentFields): OrderResult {
+    const portfolio = usePortfolioStore.getState();
+    const account = Object.values(portfolio.accounts).find(a => a.orders.some(o => o.id === orderId));
+    const order = account?.orders.find(o => o.id === orderId);
+    if (!account || !order || !isOrderOpen(order)) {
+      return { success: false, reason: 'Order is no longer open' };
+    }
+
+    const lastPrice = useMarketStore.getState().getPrice(order.symbol)?.price;
+    const reason = this.validateAmendment(order, changes, lastPrice);
+    if (reason) {
+      console.warn(`Amendment rejected: ${reason}`, changes);
+      return { success: false, reason };
+    }
+
+    // A new trail moves the stop (and limit) from the current high-water mark straight away
+    const trailFrom = order.highWaterMark ?? lastPrice;
+    const trailChanged = changes.trailAmount !== undefined || changes.trailPercent !== undefined || changes.limitOffset !== undefined;
+    const amendment: OrderAmendmentFields = isTrailingOrder(order) && trailChanged && trailFrom
+      ? { ...changes, ...getTrailingLevels({ ...order, ...changes }, trailFrom) }
+      : changes;
+
+    const amended: Order = { ...order, ...amendment };
+
+    // Only the unfilled remainder is still at risk
+    const risk = portfolio.canPlaceOrder({
+      symbol: order.symbol,
+      side: order.side,
+      type: order.type,
+      quantity: amended.quantity - (order.filledQuantity || 0),
+      price: amended.price || amended.stopPrice || lastPrice || 0,
+      limitPrice: amended.price,
+      stopPrice: amended.stopPrice,
+      lastPrice,
+      replacesOrderId: orderId,
+    }, account.id);
+    if (!risk.canPlace) {
+      console.warn(`Amendment rejected by risk checks: ${risk.reason}`, risk.violations);
+      return { success: false, reason: risk.reason, violations: risk.violations };
+    }
+
+    if (!portfolio.replaceOrder(orderId, amendment)) {
+      return { success: false, reason: 'Nothing to change' };
+    }
+
+    console.log(`✏️ Order amended: ${order.symbol} ${orderId}`, amendment);
+    return { success: true, orderId };
+  }
+
+  /**
+   * Cancel an open order (and its bracket legs)
+   */
+  public cancelOrder(orderId: string): void {
+    usePortfolioStore.getState().cancelOrder(orderId);
+  }
+
+  /**
+   * Close all or part of a position with a market order
+   */
+  public closePosition(symbol: string, quantity?: number): OrderResult {
+    const position = usePortfolioStore.getState().getPosition(toMarketSymbol(symbol));
+    if (!position) {
+      return { success: false, reason: `No open position in ${symbol}` };
+    }
+
+    return this.placeOrder({
+      symbol: position.symbol,
+      side: position.side === 'long' ? 'sell' : 'buy',
+      type: 'market',
+      quantity: Math.min(quantity ?? position.quantity, position.quantity),
+    });
+  }
+
+  /**
+   * Check that an order request is well formed, returning the rejection reason if not
+   * Account limits are left to the risk engine; backtests share this check
+   */
+  public validateOrder(request: OrderRequest, lastPrice?: number): string | undefined {
+    const { type, quantity, price, stopPrice } = request;
+
+    if (!Number.isFinite(quantity) || quantity <= 0) {
+      return 'Quantity must be greater than zero';
+    }
+    if ((type === 'limit' || type === 'stopLimit') && !(price && price > 0)) {
+      return 'Limit price is required';
+    }
+    if ((type === 'stop' || type === 'stopLimit') && !(stopPrice && stopPrice > 0)) {
+      return 'Stop price is required';
+    }
+    if (isTrailingOrder(request)) {
+      const trailError = this.validateTrail(request, lastPrice);
+      if (trailError) return trailError;
+    }
+
+    // Orders are sized against the limit price, or the market when there is none
+    const referencePrice = price || stopPrice || lastPrice;
+    if (!referencePrice) {
+      return `No market price available for ${request.symbol}`;
+    }
+
+    if (type === 'bracket') {
+      const bracketError = this.validateBracket(request, referencePrice);
+      if (bracketError) return bracketError;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Check that an amendment only touches fields the order type uses, returning the rejection reason if not
+   */
+  private validateAmendment(order: Order, changes: OrderAmendmentFields, lastPrice?: number): string | undefined {
+    const { quantity, price, stopPrice, trailAmount, trailPercent, limitOffset } = changes;
+    const hasLimit = order.type === 'limit' || order.type === 'stopLimit' || order.type === 'bracket';
+    const hasStop = order.type === 'stop' || order.type === 'stopLimit';
+    const trailing = isTrailingOrder(order);
+
+    if (order.liquidation) return 'Liquidation orders cannot be amended';
+    if (Object.values(changes).every(value => value === undefined)) return 'Nothing to change';
+
+    if (quantity !== undefined) {
+      // Exit legs are sized by the bracket entry's fills
+      if (order.bracketLeg) return 'Bracket exit legs follow the entry quantity';
+      if (!Number.isFinite(quantity) || quantity <= 0) return 'Quantity must be greater than zero';
+      if (quantity - (order.filledQuantity || 0) <= QUANTITY_EPSILON) {
+        return `Quantity must be above the ${order.filledQuantity} already filled`;
+      }
+    }
+    if (price !== undefined) {
+      if (!hasLimit) return 'This order has no limit price';
+      if (!(price > 0)) return 'Limit price must be greater than zero';
+    }
+    if (stopPrice !== undefined) {
+      if (!hasStop) return 'This order has no stop price';
+      if (!(stopPrice > 0)) return 'Stop price must be greater than zero';
+      if (order.triggered) return 'The stop has already triggered';
+    }
+
+    // Trailing levels follow the market, so the trail itself is what gets amended, in the unit it was placed in
+    if (trailAmount !== undefined || trailPercent !== undefined || limitOffset !== undefined) {
+      if (!trailing) return 'This order does not trail';
+      if (order.triggered) return 'The stop has already triggered';
+      if (trailAmount !== undefined && order.trailPercent !== undefined) return 'This order trails by percentage';
+      if (trailPercent !== undefined && order.trailPercent === undefined) return 'This order trails by amount';
+      if (limitOffset !== undefined && order.type !== 'trailingStopLimit') return 'This order has no limit offset';
+      return this.validateTrail({ ...order, ...changes }, order.highWaterMark ?? lastPrice);
+    }
+
+    // A bracket entry's exits must still sit either side of the new entry price
+    if (order.type === 'bracket' && price !== undefined && !order.filledQuantity) {
+      return this.validateBracket({ ...order, price }, price);
+    }
+    return undefined;
+  }
+
+  /**
+   * Trailing stops need one positive trail distance, and a market price to trail from
+   */
+  private validateTrail(request: OrderRequest, lastPrice?: number): string | undefined {
+    const { trailAmount, trailPercent, limitOffset } = request;
+
+    if (trailPercent !== undefined) {
+      if (!(trailPercent > 0 && trailPercent < 100)) return 'Trail percentage must be between 0 and 100';
+    } else if (!(trailAmount && trailAmount > 0)) {
+      return 'Trail amount or percentage is required';
+    } else if (lastPrice && request.side === 'sell' && trailAmount >= lastPrice) {
+      return 'Trail amount must be below the current price';
+    }
+    if (limitOffset !== undefined && !(limitOffset >= 0)) {
+      return 'Limit offset cannot be negative';
+    }
+    if (!lastPrice) {
+      return `No market price available for ${request.symbol} to trail from`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Exit legs must sit on either side of the entry: profit above a long, loss below it
+   */
+  private validateBracket(request: OrderRequest, entryPrice: number): string | undefined {
+    const { side, takeProfitPrice, stopLossPrice } = request;
+
+    if (!takeProfitPrice && !stopLossPrice) {
+      return 'Bracket orders need a take profit or stop loss price';
+    }
+    if (side === 'buy') {
+      if (takeProfitPrice && takeProfitPrice <= entryPrice) return 'Take profit must be above the entry price';
+      if (stopLossPrice && stopLossPrice >= entryPrice) return 'Stop loss must be below the entry price';
+    } else {
+      if (takeProfitPrice && takeProfitPrice >= entryPrice) return 'Take profit must be below the entry price';
+      if (stopLossPrice && stopLossPrice <= entryPrice) return 'Stop loss must be above the entry price';
+    }
+    return undefined;
+  }
+}
+
+// Singleton instance
+export const orderService = new OrderService();
@@ -0,0 +1,369 @@
+/**
+ * Replay Service
+ * Plays a past session back through the market store in place of the live feeds
+ * Charts, widgets and the order matching engine all read the store, so they behave as if the data were live
+ */
+
+import { MarketPrice, MarketTrade, OHLCData } from '../types/trading';
+import { useMarketStore } from '../stores/marketStore';
+import { useReplayStore, isReplayActive } from '../stores/replayStore';
+import { usePortfolioStore } from '../stores/portfolioStore';
+import { binanceHistoricalService } from './BinanceHistoricalService';
+import { getPricePath } from './BacktestEngine';
+
+export type ReplayInterval = '1m' | '5m' | '15m';
+
+// A recorded trade print, or one step along a kline's price path
+export interface ReplayTick {
+  symbol: string;
+  time: number;    // ms
+  price: number;
+  volume?: number;
+}
+
+export interface ReplayLoadOptions {
+  symbols: string[];
+  interval: ReplayInterval;
+  startTime: number; // ms
+  endTime: number;
+}
+
+export const MIN_REPLAY_SPEED = 1;
+export const MAX_REPLAY_SPEED = 100;
+
+const INTERVAL_MS: Record<ReplayInterval, number> = {
+  '1m': 60000,
+  '5m': 300000,
+  '15m': 900000,
+};
+
+// Bars loaded before the start so charts open with some context
+const WARMUP_BARS = 200;
+
+// Long gaps (a closed session, a missing kline) are capped rather than waited out
+const MAX_TICK_DELAY = 10000;
+
+interface SymbolSession {
+  open: number;
+  high: number;
+  low: number;
+  volume: number;
+  lastPrice: number;
+}
+
+export class ReplayService {
+  private ticks: ReplayTick[] = [];
+  private warmup = new Map<string, OHLCData[]>();
+  private sessions = new Map<string, SymbolSession>();
+  private timer: number | null = null;
+  private nextTradeId = 1;
+  private loadToken = 0; // Bumped by every load and stop, so a load that was overtaken can tell
+
+  /**
+   * Fetch Binance klines for a past range and load them for replay
+   * Each kline is replayed as four ticks along its open/high/low/close path
+   */
+  public async loadHistorical(options: ReplayLoadOptions): Promise<boolean> {
+    const { symbols, interval, startTime, endTime } = options;
+    if (symbols.length === 0 || !(endTime > startTime)) {
+      useReplayStore.getState().setReplayState({ error: 'Choose at least one symbol and a valid time range' });
+      return false;
+    }
+
+    this.stopTimer();
+    const token = ++this.loadToken;
+    useReplayStore.getState().setReplayState({ status: 'loading', error: undefined });
+
+    const intervalMs = INTERVAL_MS[interval];
+    const ticks: ReplayTick[] = [];
+    const warmup = new Map<string, OHLCData[]>();
+
+    for (const symbol of symbols) {
+      const klines = await binanceHistoricalService.fetchKlineRange(
+        symbol, interval, startTime - WARMUP_BARS * intervalMs, endTime
+      );
+      // Stopped, or replaced by another load, while fetching
+      if (!this.isCurrentLoad(token)) return false;
+
+      if (!klines || klines.length === 0) {
+        console.warn(`No replay data for ${symbol}`);
+        continue;
+      }
+
+      const bars: OHLCData[] = klines.map(kline => ({
+        time: kline.openTime,
+        open: kline.openPrice,
+        high: kline.highPrice,
+        low: kline.lowPrice,
+        close: kline.closePrice,
+        volume: kline.volume,
+      }));
+      warmup.set(symbol, bars.filter(bar => bar.time < startTime));
+
+      bars.filter(bar => bar.time >= startTime).forEach(bar => {
+        getPricePath(bar).forEach((price, step) => {
+          ticks.push({
+            symbol,
+            time: bar.time + (step * intervalMs) / 4,
+            price,
+            volume: (bar.volume || 0) / 4,
+          });
+        });
+      });
+    }
+
+    if (ticks.length === 0) {
+      useReplayStore.getState().setReplayState({ status: 'idle', error: 'No historical data for that range' });
+      return false;
+    }
+
+    this.begin(ticks, warmup);
+    return true;
+  }
+
+  /**
+   * Load recorded ticks for replay, e.g. trades captured from a live session
+   */
+  public loadTicks(ticks: ReplayTick[]): boolean {
+    if (ticks.length === 0) {
+      useReplayStore.getState().setReplayState({ error: 'No ticks to replay' });
+      return false;
+    }
+
+    this.stopTimer();
+    this.loadToken++;
+    this.begin(ticks, new Map());
+    return true;
+  }
+
+  /**
+   * Start or resume playback
+   */
+  public play(): void {
+    const { status } = useReplayStore.getState();
+    if (status !== 'paused') return;
+
+    useReplayStore.getState().setReplayState({ status: 'playing' });
+    this.scheduleNext();
+  }
+
+  /**
+   * Pause playback
+   */
+  public pause(): void {
+    if (useReplayStore.getState().status !== 'playing') return;
+
+    this.stopTimer();
+    useReplayStore.getState().setReplayState({ status: 'paused' });
+  }
+
+  /**
+   * Replay the next tick while paused
+   */
+  public step(): void {
+    if (useReplayStore.getState().status !== 'paused') return;
+    this.advance();
+  }
+
+  /**
+   * Set the playback speed as a multiple of real time
+   */
+  public setSpeed(speed: number): void {
+    const clamped = Math.min(MAX_REPLAY_SPEED, Math.max(MIN_REPLAY_SPEED, speed));
+    useReplayStore.getState().setReplayState({ speed: clamped });
+
+    // Reschedule so a slow pending tick picks up the new speed
+    if (useReplayStore.getState().status === 'playing') {
+      this.stopTimer();
+      this.scheduleNext();
+    }
+  }
+
+  /**
+   * End the replay and hand the market store back to the live feeds
+   */
+  public stop(): void {
+    const wasActive = isReplayActive();
+    this.stopTimer();
+    this.loadToken++;
+    this.ticks = [];
+    this.warmup.clear();
+    this.sessions.clear();
+
+    if (wasActive) {
+      useMarketStore.getState().clearAllData();
+    }
+    usePortfolioStore.getState().endReplayAccount();
+    useReplayStore.getState().resetReplay();
+  }
+
+  /**
+   * Candles for a replayed symbol up to the current replay time, bucketed to the given interval
+   * Only ticks already replayed are included, so charts never show what is about to happen
+   */
+  public getChartHistory(symbol: string, intervalMs: number): OHLCData[] {
+    if (!isReplayActive()) return [];
+    const { position } = useReplayStore.getState();
+
+    const candles: OHLCData[] = [];
+    const addToBucket = (time: number, open: number, high: number, low: number, close: number, volume: number) => {
+      const bucket = Math.floor(time / intervalMs) * intervalMs;
+      const last = candles[candles.length - 1];
+      if (last && last.time === bucket) {
+        last.high = Math.max(last.high, high);
+        last.low = Math.min(last.low, low);
+        last.close = close;
+        last.volume = (last.volume || 0) + volume;
+      } else {
+        candles.push({ time: bucket, open, high, low, close, volume });
+      }
+    };
+
+    (this.warmup.get(symbol) || []).forEach(bar => {
+      addToBucket(bar.time, bar.open, bar.high, bar.low, bar.close, bar.volume || 0);
+    });
+    for (let i = 0; i < position; i++) {
+      const tick = this.ticks[i];
+      if (tick.symbol !== symbol) continue;
+      addToBucket(tick.time, tick.price, tick.price, tick.price, tick.price, tick.volume || 0);
+    }
+
+    return candles;
+  }
+
+  /**
+   * Check whether the current replay has data for a symbol
+   */
+  public hasSymbol(symbol: string): boolean {
+    return isReplayActive() && useReplayStore.getState().symbols.includes(symbol);
+  }
+
+  // Whether the load holding this token is still the one in progress
+  private isCurrentLoad(token: number): boolean {
+    return token === this.loadToken && useReplayStore.getState().status === 'loading';
+  }
+
+  /**
+   * Swap the market store over to the replayed symbols and show the first tick
+   * Trading moves to a sandbox account so replayed prices never touch the real accounts, and runs on the replay
+   * clock (see getMarketTime) so DAY expiry and fill times follow the replayed session
+   */
+  private begin(ticks: ReplayTick[], warmup: Map<string, OHLCData[]>): void {
+    this.ticks = [...ticks].sort((a, b) => a.time - b.time);
+    this.warmup = warmup;
+    this.sessions.clear();
+    this.nextTradeId = 1;
+
+    usePortfolioStore.getState().startReplayAccount(this.ticks[0].time);
+
+    const symbols = Array.from(new Set(this.ticks.map(tick => tick.symbol)));
+    const market = useMarketStore.getState();
+    market.clearAllData();
+    symbols.forEach(symbol => market.addSubscription(symbol));
+
+    useReplayStore.getState().setReplayState({
+      status: 'paused',
+      session: useReplayStore.getState().session + 1,
+      symbols,
+      position: 0,
+      length: this.ticks.length,
+      startTime: this.ticks[0].time,
+      endTime: this.ticks[this.ticks.length - 1].time,
+      currentTime: undefined,
+      error: undefined,
+    });
+    console.log(`⏪ Replay loaded: ${this.ticks.length} ticks for ${symbols.join(', ')}`);
+
+    this.advance();
+  }
+
+  /**
+   * Push the next tick into the market store
+   */
+  private advance(): void {
+    const { position, length } = useReplayStore.getState();
+    if (position >= length) return;
+
+    const tick = this.ticks[position];
+    this.emit(tick);
+    useReplayStore.getState().setReplayState({
+      position: position + 1,
+      currentTime: tick.time,
+      ...(position + 1 >= length ? { status: 'finished' as const } : {}),
+    });
+  }
+
+  /**
+   * Wait out the gap to the next tick, scaled by the playback speed
+   */
+  private scheduleNext(): void {
+    const { status, position, length, speed } = useReplayStore.getState();
+    if (status !== 'playing' || position >= length) return;
+
+    const previous = this.ticks[position - 1];
+    const gap = previous ? this.ticks[position].time - previous.time : 0;
+    const delay = Math.min(gap / speed, MAX_TICK_DELAY);
+
+    this.timer = window.setTimeout(() => {
+      this.timer = null;
+      this.advance();
+      this.scheduleNext();
+    }, delay);
+  }
+
+  private stopTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Publish a tick as a price update and a trade print
+   * Changes are measured from the symbol's first replayed price, standing in for the 24h open
+   */
+  private emit(tick: ReplayTick): void {
+    const volume = tick.volume || 0;
+    const session = this.sessions.get(tick.symbol);
+    const next: SymbolSession = session ? {
+      open: session.open,
+      high: Math.max(session.high, tick.price),
+      low: Math.min(session.low, tick.price),
+      volume: session.volume + volume,
+      lastPrice: tick.price,
+    } : { open: tick.price, high: tick.price, low: tick.price, volume, lastPrice: tick.price };
+    this.sessions.set(tick.symbol, next);
+
+    const change = tick.price - next.open;
+    const changePercent = next.open !== 0 ? (change / next.open) * 100 : 0;
+    const price: MarketPrice = {
+      symbol: tick.symbol,
+      price: tick.price,
+      change,
+      changePercent,
+      change24h: changePercent,
+      volume: next.volume,
+      open24h: next.open,
+      high24h: next.high,
+      low24h: next.low,
+      timestamp: tick.time,
+      source: 'replay',
+    };
+
+    const market = useMarketStore.getState();
+    market.updatePrice(price);
+
+    const trade: MarketTrade = {
+      id: this.nextTradeId++,
+      symbol: tick.symbol,
+      price: tick.price,
+      quantity: volume,
+      side: !session || tick.price >= session.lastPrice ? 'buy' : 'sell',
+      timestamp: tick.time,
+    };
+    market.addRecentTrades(tick.symbol, [trade]);
+  }
+}
+
+// Singleton instance
+export const replayService = new ReplayService();
@@ -0,0 +1,95 @@
+/**
+ * Risk Engine
+ * Runs the pre-trade risk rules against an order before it reaches the book
+ * Rules are pluggable: register a custom rule, or replace a built-in one by registering under its id
+ */
+
+import { PaperAccount, RiskRuleId, RiskViolation } from '../types/trading';
+import { calculateTradeFees, getFeeSchedule } from '../utils/fees';
+import { getMarginSummary, splitOrderQuantity } from '../utils/portfolioAccounting';
+import { QUANTITY_EPSILON } from '../utils/orderMatching';
+import { BUILT_IN_RISK_RULES, RiskCheckOrder, RiskContext, RiskRule } from '../utils/riskRules';
+
+export interface RiskCheckResult {
+  canPlace: boolean;
+  reason?: string;             // The first violation, for callers that only show one line
+  violations: RiskViolation[];
+}
+
+export class RiskEngine {
+  private rules = new Map<RiskRuleId, RiskRule>();
+
+  constructor(rules: RiskRule[] = BUILT_IN_RISK_RULES) {
+    rules.forEach(rule => this.registerRule(rule));
+  }
+
+  /**
+   * Add a rule, replacing any rule with the same id
+   */
+  public registerRule(rule: RiskRule): void {
+    this.rules.set(rule.id, rule);
+  }
+
+  /**
+   * Remove a rule; returns false if it was not registered
+   */
+  public removeRule(id: RiskRuleId): boolean {
+    return this.rules.delete(id);
+  }
+
+  /**
+   * Get the registered rules in evaluation order
+   */
+  public getRules(): RiskRule[] {
+    return Array.from(this.rules.values());
+  }
+
+  /**
+   * Check an order against every rule, collecting all violations rather than stopping at the first
+   */
+  public evaluate(account: PaperAccount, order: RiskCheckOrder, now: number = Date.now()): RiskCheckResult {
+    if (order.replacesOrderId) {
+      account = { ...account, orders: account.orders.filter(o => o.id !== order.replacesOrderId) };
+    }
+    const { config } = account;
+    const position = account.positions.find(p => p.symbol === order.symbol);
+    const { opening, closing } = splitOrderQuantity(position, order.side, order.quantity);
+
+    const context: RiskContext = {
+      account,
+      order,
+      position,
+      opening,
+      closing,
+      margin: getMarginSummary(account.cash, account.positions, config),
+      commission: calculateTradeFees(
+        getFeeSchedule(config.feeScheduleId), order.symbol, order.quantity, order.price, 'taker', config.commissionRate
+      ).total,
+      now,
+    };
+
+    // Orders that only reduce a position are never blocked by exposure limits
+    const reducing = opening <= QUANTITY_EPSILON;
+    const violations: RiskViolation[] = [];
+
+    this.rules.forEach(rule => {
+      if (reducing && !rule.appliesToReducingOrders) return;
+      try {
+        const violation = rule.check(context);
+        if (violation) violations.push(violation);
+      } catch (error) {
+        console.error(`Risk rule ${rule.id} failed:`, error);
+        violations.push({ ruleId: rule.id, message: `${rule.name} check failed` });
+      }
+    });
+
+    return {
+      canPlace: violations.length === 0,
+      reason: violations[0]?.message,
+      violations,
+    };
+  }
+}
+
+// Singleton instance
+export const riskEngine = new RiskEngine();
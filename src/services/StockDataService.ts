@@ -1,10 +1,10 @@
 /**
  * Stock Data Service
- * Uses REST API polling since free WebSocket for stocks is limited
+ * Finnhub REST quotes: a one-off snapshot when trades start streaming, and polling while the stream is down
  */
 
 import { API_CONFIG } from '../utils/constants';
-import { MarketPrice } from '../types/trading';
+import { MarketPrice, OHLCData } from '../types/trading';
 import { useMarketStore } from '../stores/marketStore';
 
 // Popular stocks to track
@@ -23,6 +23,14 @@ class StockDataService {
   private pollInterval: number | null = null;
   private isPolling = false;
   private lastPrices = new Map<string, number>();
+  private onPriceUpdate?: (price: MarketPrice) => void;
+  
+  /**
+   * Set the handler for polled prices; without one they go straight to the market store
+   */
+  public setHandlers(handlers: { onPriceUpdate?: (price: MarketPrice) => void }): void {
+    this.onPriceUpdate = handlers.onPriceUpdate;
+  }
   
   /**
    * Start polling for stock prices
@@ -55,9 +63,9 @@ class StockDataService {
   }
   
   /**
-   * Fetch stock prices from Finnhub REST API
+   * Fetch stock prices from Finnhub REST API once
    */
-  private async fetchStockPrices(symbols: string[]): Promise<void> {
+  public async fetchStockPrices(symbols: string[]): Promise<void> {
     const apiKey = API_CONFIG.FINNHUB.API_KEY;
     
     if (!apiKey) {
@@ -104,7 +112,11 @@ class StockDataService {
           } as any;
           
           // Update market store
-          useMarketStore.getState().updatePrice(marketPrice);
+          if (this.onPriceUpdate) {
+            this.onPriceUpdate(marketPrice);
+          } else {
+            useMarketStore.getState().updatePrice(marketPrice);
+          }
           useMarketStore.getState().addSubscription(symbol);
           
           // Store for next comparison
@@ -129,6 +141,43 @@ class StockDataService {
     console.log(`Stock prices updated: ${successful}/${symbols.length} successful`);
   }
   
+  /**
+   * Fetch OHLC candles from Finnhub
+   * @param resolution - Finnhub resolution: '1', '5', '15', '30', '60', 'D', 'W' or 'M'
+   * @param from - Range start, in seconds
+   * @param to - Range end, in seconds
+   */
+  public async fetchCandles(symbol: string, resolution: string, from: number, to: number): Promise<OHLCData[]> {
+    const apiKey = API_CONFIG.FINNHUB.API_KEY;
+    if (!apiKey) {
+      console.error('Finnhub API key not found');
+      return [];
+    }
+
+    try {
+      const url = `${API_CONFIG.FINNHUB.BASE_URL}/stock/candle?symbol=${symbol}&resolution=${resolution}&from=${from}&to=${to}&token=${apiKey}`;
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      if (data.s !== 'ok' || !Array.isArray(data.t)) return [];
+
+      return data.t.map((time: number, index: number) => ({
+        time: time * 1000,
+        open: data.o[index],
+        high: data.h[index],
+        low: data.l[index],
+        close: data.c[index],
+        volume: data.v?.[index],
+      }));
+    } catch (error) {
+      console.error(`Failed to fetch candles for ${symbol}:`, error);
+      return [];
+    }
+  }
+  
   /**
    * Check if service is running
    */
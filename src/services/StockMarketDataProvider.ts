@@ -0,0 +1,254 @@
+/**
+ * Stock Market Data Provider
+ * Adapts the Finnhub trade stream (WebSocketManager) to the MarketDataProvider interface,
+ * with REST quote polling (StockDataService) as the fallback while the socket is unhealthy
+ */
+
+import { BarInterval, MarketDataListener, MarketDataProvider, MarketDataStatus, MarketPrice, OHLCData, TradingSymbol } from '../types/trading';
+import { API_CONFIG } from '../utils/constants';
+import { getMarketStatus } from '../utils/marketHours';
+import { stockDataService } from './StockDataService';
+import { wsManager } from './WebSocketManager';
+
+// Finnhub candle resolutions; 4h bars are not offered
+const RESOLUTIONS: Partial<Record<BarInterval, { resolution: string; ms: number }>> = {
+  '1m': { resolution: '1', ms: 60000 },
+  '5m': { resolution: '5', ms: 300000 },
+  '15m': { resolution: '15', ms: 900000 },
+  '30m': { resolution: '30', ms: 1800000 },
+  '1h': { resolution: '60', ms: 3600000 },
+  '1d': { resolution: 'D', ms: 86400000 },
+  '1w': { resolution: 'W', ms: 604800000 },
+  '1M': { resolution: 'M', ms: 2629746000 },
+};
+
+const DEFAULT_BAR_LIMIT = 300;
+const RESTART_DELAY = 100;
+const HEALTH_CHECK_INTERVAL = 5000;
+// Finnhub pings idle sockets, so this much silence means the stream is dead
+const MAX_STREAM_SILENCE = 60000;
+
+// Daily change is measured from the previous close, which moves at each session open
+const getNextSessionOpen = (): number => {
+  const status = getMarketStatus();
+  const nextOpen = status.isOpen && status.nextClose ? getMarketStatus(status.nextClose).nextOpen : status.nextOpen;
+  return nextOpen ? nextOpen.getTime() : Date.now();
+};
+
+export class StockMarketDataProvider implements MarketDataProvider {
+  public readonly id = 'finnhub';
+  public readonly name = 'Finnhub';
+  public readonly assetTypes: TradingSymbol['type'][] = ['stock'];
+  public readonly prefixes = ['FINNHUB', 'NASDAQ', 'NYSE'];
+  private symbols = new Set<string>();
+  private listener: MarketDataListener | null = null;
+  private restartTimer: ReturnType<typeof setTimeout> | null = null;
+  private healthTimer: ReturnType<typeof setInterval> | null = null;
+  private mode: 'stream' | 'polling' | null = null; // null until the first health check
+  private previousCloses = new Map<string, number>();
+  private snapshotSymbols = new Set<string>(); // Symbols with a REST quote since snapshotExpiry was set
+  private snapshotExpiry = 0;
+
+  /**
+   * Stream trades for the subscribed symbols, polling quotes instead while the socket is unhealthy
+   */
+  public async connect(listener: MarketDataListener): Promise<void> {
+    this.listener = listener;
+    stockDataService.setHandlers({
+      onPriceUpdate: (price) => this.handleQuote(price),
+    });
+    wsManager.addMessageHandler('price', this.handleTrade);
+    if (!this.healthTimer) {
+      this.healthTimer = setInterval(() => this.checkHealth(), HEALTH_CHECK_INTERVAL);
+    }
+    this.scheduleRestart();
+  }
+
+  /**
+   * Close the stream and stop polling
+   */
+  public disconnect(): void {
+    this.listener = null;
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+    wsManager.removeMessageHandler('price', this.handleTrade);
+    wsManager.disconnect();
+    stockDataService.stopPolling();
+    stockDataService.setHandlers({});
+    this.mode = null;
+  }
+
+  /**
+   * Reopen the socket and fetch every symbol straight away
+   */
+  public async reconnect(): Promise<void> {
+    if (!this.listener) return;
+    wsManager.disconnect();
+    stockDataService.stopPolling();
+    this.mode = null;
+    this.snapshotExpiry = 0;
+    this.scheduleRestart();
+  }
+
+  /**
+   * Add a symbol to the streamed set
+   */
+  public subscribe(symbol: string): void {
+    if (this.symbols.has(symbol)) return;
+    this.symbols.add(symbol);
+    wsManager.subscribe(symbol);
+    if (this.listener) this.scheduleRestart();
+  }
+
+  /**
+   * Remove a symbol from the streamed set
+   */
+  public unsubscribe(symbol: string): void {
+    if (!this.symbols.delete(symbol)) return;
+    wsManager.unsubscribe(symbol);
+    this.snapshotSymbols.delete(symbol);
+    if (this.listener) this.scheduleRestart();
+  }
+
+  /**
+   * Streaming and polling both count as connected
+   */
+  public getStatus(): MarketDataStatus {
+    if (this.mode) return 'connected';
+    return this.listener && this.symbols.size > 0 ? 'connecting' : 'disconnected';
+  }
+
+  /**
+   * The most recent candles, oldest first
+   */
+  public async fetchHistoricalBars(symbol: string, interval: BarInterval, limit = DEFAULT_BAR_LIMIT): Promise<OHLCData[]> {
+    const config = RESOLUTIONS[interval];
+    if (!config) {
+      console.warn(`Unsupported stock interval: ${interval}`);
+      return [];
+    }
+
+    const to = Math.floor(Date.now() / 1000);
+    const from = Math.floor((Date.now() - limit * config.ms) / 1000);
+    const bars = await stockDataService.fetchCandles(symbol, config.resolution, from, to);
+    return bars.slice(-limit);
+  }
+
+  // Batched so a burst of subscriptions costs one round of quote requests
+  private scheduleRestart(): void {
+    if (this.restartTimer) clearTimeout(this.restartTimer);
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      this.restart();
+    }, RESTART_DELAY);
+  }
+
+  private restart(): void {
+    if (!this.listener || this.symbols.size === 0) {
+      stockDataService.stopPolling();
+      this.mode = null;
+      this.listener?.onStatusChange?.(this.id, 'disconnected');
+      return;
+    }
+
+    if (this.mode === 'polling') {
+      // The polling service takes a fixed symbol list, so changes restart it
+      this.startPolling();
+    } else {
+      this.fetchSnapshot();
+    }
+
+    if (wsManager.getConnectionStatus() !== 'connected' && wsManager.getConnectionStatus() !== 'connecting') {
+      wsManager.connect().catch(error => console.warn('Finnhub stream unavailable, polling quotes instead:', error));
+    }
+  }
+
+  // Fails over to polling when the socket is down or silent, and back once it is healthy again
+  private checkHealth(): void {
+    if (!this.listener || this.symbols.size === 0) return;
+
+    if (wsManager.isHealthy(MAX_STREAM_SILENCE)) {
+      if (this.mode !== 'stream') {
+        console.log('Finnhub stream healthy - streaming stock trades');
+        stockDataService.stopPolling();
+        this.setMode('stream');
+      }
+      this.fetchSnapshot();
+    } else {
+      if (this.mode !== 'polling') {
+        console.warn('Finnhub stream unhealthy - falling back to quote polling');
+        this.startPolling();
+        this.setMode('polling');
+      }
+      this.ensureStreamConnecting();
+    }
+  }
+
+  // The socket retries on its own after a drop; this covers a connect that failed outright, a clean close
+  // and an open socket gone silent, so polling never becomes the permanent state
+  private ensureStreamConnecting(): void {
+    const status = wsManager.getConnectionStatus();
+    if (!API_CONFIG.FINNHUB.API_KEY || wsManager.isReconnectPending() || status === 'connecting') return;
+
+    if (status === 'connected') wsManager.disconnect();
+    wsManager.connect().catch(error => console.warn('Finnhub stream still unavailable:', error));
+  }
+
+  private startPolling(): void {
+    stockDataService.stopPolling();
+    stockDataService.startPolling(Array.from(this.symbols));
+    this.snapshotSymbols = new Set(this.symbols);
+    this.snapshotExpiry = getNextSessionOpen();
+  }
+
+  // Quotes symbols that have not had one since the last session open, for their price and previous close
+  private fetchSnapshot(): void {
+    if (Date.now() >= this.snapshotExpiry) {
+      this.snapshotSymbols.clear();
+      this.snapshotExpiry = getNextSessionOpen();
+    }
+
+    const symbols = Array.from(this.symbols).filter(symbol => !this.snapshotSymbols.has(symbol));
+    if (symbols.length === 0) return;
+    symbols.forEach(symbol => this.snapshotSymbols.add(symbol));
+    stockDataService.fetchStockPrices(symbols);
+  }
+
+  private setMode(mode: 'stream' | 'polling'): void {
+    this.mode = mode;
+    this.listener?.onStatusChange?.(this.id, 'connected');
+  }
+
+  private handleQuote(price: MarketPrice): void {
+    this.previousCloses.set(price.symbol, price.price - price.change);
+    this.listener?.onPrice(price);
+  }
+
+  // Trades carry no daily statistics; the change comes from the previous close of the last quote
+  private handleTrade = (price: MarketPrice): void => {
+    if (!this.listener || !this.symbols.has(price.symbol)) return;
+
+    const previousClose = this.previousCloses.get(price.symbol);
+    if (!previousClose) {
+      this.listener.onPrice(price);
+      return;
+    }
+
+    const change = price.price - previousClose;
+    this.listener.onPrice({
+      ...price,
+      change,
+      changePercent: (change / previousClose) * 100,
+      source: 'stock-finnhub',
+    });
+  };
+}
+
+// Singleton instance
+export const stockMarketDataProvider = new StockMarketDataProvider();
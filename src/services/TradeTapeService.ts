@@ -0,0 +1,66 @@
+/**
+ * Trade Tape Service
+ * Collects prints from the Binance trade stream for the time-and-sales view
+ * Busy pairs trade many times a second, so prints are batched into the market store
+ */
+
+import { MarketTrade } from '../types/trading';
+import { useMarketStore } from '../stores/marketStore';
+import { binanceWebSocket } from './BinanceWebSocketService';
+
+export class TradeTapeService {
+  private readonly flushInterval = 250;
+  private symbols = new Set<string>();
+  private pending = new Map<string, MarketTrade[]>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Start recording trades for a symbol
+   */
+  public subscribe(symbol: string): void {
+    const key = symbol.toUpperCase();
+    if (this.symbols.has(key)) return;
+
+    this.symbols.add(key);
+    binanceWebSocket.subscribe(key, 'trade');
+  }
+
+  /**
+   * Stop recording trades for a symbol; trades already on the tape are kept
+   */
+  public unsubscribe(symbol: string): void {
+    const key = symbol.toUpperCase();
+    if (!this.symbols.delete(key)) return;
+
+    this.pending.delete(key);
+    binanceWebSocket.unsubscribe(key, 'trade');
+  }
+
+  /**
+   * Handle a trade from the WebSocket stream
+   */
+  public handleTrade(trade: MarketTrade): void {
+    if (!this.symbols.has(trade.symbol)) return;
+
+    const queued = this.pending.get(trade.symbol) || [];
+    queued.push(trade);
+    this.pending.set(trade.symbol, queued);
+
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), this.flushInterval);
+    }
+  }
+
+  /**
+   * Write queued trades to the market store
+   */
+  private flush(): void {
+    this.flushTimer = null;
+    const { addRecentTrades } = useMarketStore.getState();
+    this.pending.forEach((trades, symbol) => addRecentTrades(symbol, trades));
+    this.pending.clear();
+  }
+}
+
+// Singleton instance
+export const tradeTapeService = new TradeTapeService();
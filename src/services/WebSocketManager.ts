@@ -1,9 +1,17 @@
-import { API_CONFIG } from '../utils/constants';
-import { MarketPrice, WSMessage } from '../types/trading';
+/**
+ * Finnhub WebSocket Manager
+ * Streams US stock trades; each trade is published as a 'price' message, and the raw frame as 'trade'
+ */
+
+import { API_CONFIG, TRADING_CONFIG } from '../utils/constants';
+import { FinnhubMessage, MarketPrice, WSMessage } from '../types/trading';
 
 export type WSConnectionStatus = 'connecting' | 'connected' | 'disconnected' | 'error';
 export type WSMessageHandler = (data: any) => void;
 
+// Backoff between reconnect attempts doubles up to this
+const MAX_RECONNECT_DELAY = 60000;
+
 export class WebSocketManager {
   private ws: WebSocket | null = null;
   private url: string;
@@ -16,13 +24,13 @@ export class WebSocketManager {
   private connectionStatus: WSConnectionStatus = 'disconnected';
   private reconnectTimeoutId: number | null = null;
   private statusChangeHandler: ((status: WSConnectionStatus) => void) | null = null;
+  private lastMessageTime = 0;
 
   constructor() {
-    // DISABLED - Using Binance WebSocket instead of Finnhub
-    this.url = '';
-    this.apiKey = '';
-    this.maxReconnectAttempts = 0;
-    this.reconnectInterval = 0;
+    this.url = API_CONFIG.FINNHUB.WS_URL;
+    this.apiKey = API_CONFIG.FINNHUB.API_KEY;
+    this.maxReconnectAttempts = TRADING_CONFIG.MAX_RECONNECT_ATTEMPTS;
+    this.reconnectInterval = TRADING_CONFIG.RECONNECT_INTERVAL;
   }
 
   public getConnectionStatus(): WSConnectionStatus {
@@ -38,45 +46,199 @@ export class WebSocketManager {
     this.statusChangeHandler?.(status);
   }
 
+  /**
+   * Connect to Finnhub; subscriptions are resent every time the socket opens
+   */
   public connect(): Promise<void> {
-    return new Promise((resolve) => {
-      // DISABLED - Using Binance WebSocket instead of Finnhub
-      console.warn('WebSocketManager (Finnhub) is disabled - using Binance WebSocket');
-      resolve();
+    return new Promise((resolve, reject) => {
+      if (this.ws && (this.ws.readyState === WebSocket.OPEN || this.ws.readyState === WebSocket.CONNECTING)) {
+        resolve();
+        return;
+      }
+
+      if (!this.apiKey) {
+        this.setStatus('error');
+        reject(new Error('Finnhub API key not found'));
+        return;
+      }
+
+      if (this.reconnectTimeoutId) {
+        clearTimeout(this.reconnectTimeoutId);
+        this.reconnectTimeoutId = null;
+      }
+
+      this.setStatus('connecting');
+
+      try {
+        const ws = new WebSocket(`${this.url}?token=${this.apiKey}`);
+        this.ws = ws;
+
+        ws.onopen = () => {
+          console.log('Finnhub WebSocket connected');
+          this.reconnectAttempts = 0;
+          this.lastMessageTime = Date.now();
+          this.setStatus('connected');
+          this.resubscribeAll();
+          resolve();
+        };
+
+        ws.onmessage = (event) => {
+          this.lastMessageTime = Date.now();
+          this.handleMessage(event.data);
+        };
+
+        ws.onerror = (error) => {
+          if (this.ws !== ws) return;
+          console.error('Finnhub WebSocket error:', error);
+          this.setStatus('error');
+          reject(new Error('Finnhub WebSocket connection error'));
+        };
+
+        ws.onclose = (event) => {
+          // A socket closed by disconnect() must not touch the current one
+          if (this.ws !== ws) return;
+
+          console.log(`Finnhub WebSocket closed: Code ${event.code}`);
+          this.ws = null;
+          this.setStatus('disconnected');
+
+          // Auto-reconnect if not manual close
+          if (event.code !== 1000) {
+            this.scheduleReconnect();
+          }
+        };
+      } catch (error) {
+        console.error('Failed to create Finnhub WebSocket:', error);
+        this.setStatus('error');
+        reject(error);
+      }
     });
   }
 
+  /**
+   * Close the socket; subscriptions are kept for the next connect
+   */
   public disconnect(): void {
-    // DISABLED
-    console.warn('WebSocketManager (Finnhub) is disabled');
+    if (this.reconnectTimeoutId) {
+      clearTimeout(this.reconnectTimeoutId);
+      this.reconnectTimeoutId = null;
+    }
+    this.reconnectAttempts = 0;
+
+    if (this.ws) {
+      const ws = this.ws;
+      this.ws = null;
+      ws.close(1000, 'Manual disconnect');
+    }
+    this.setStatus('disconnected');
   }
 
   private handleMessage(data: string): void {
-    // DISABLED
+    let message: FinnhubMessage & { msg?: string };
+    try {
+      message = JSON.parse(data);
+    } catch (error) {
+      console.error('Failed to parse Finnhub message:', error);
+      return;
+    }
+
+    switch (message.type) {
+      case 'ping':
+        return;
+      case 'error':
+        console.error('Finnhub WebSocket error:', message.msg);
+        return;
+      case 'trade': {
+        this.emit('trade', message);
+
+        // A frame can hold several trades per symbol; only the latest moves the price
+        const latest = new Map<string, FinnhubMessage['data'][number]>();
+        (message.data || []).forEach(trade => {
+          const previous = latest.get(trade.s);
+          if (!previous || trade.t >= previous.t) latest.set(trade.s, trade);
+        });
+
+        latest.forEach(trade => {
+          const marketPrice: MarketPrice = {
+            symbol: trade.s,
+            price: trade.p,
+            change: 0,        // Trades carry no daily statistics
+            changePercent: 0,
+            timestamp: trade.t,
+            source: 'finnhub-trade',
+          };
+          this.emit('price', marketPrice);
+        });
+        return;
+      }
+      default: {
+        const wsMessage: WSMessage = { type: message.type, data: message.data, timestamp: Date.now() };
+        this.emit(message.type, wsMessage);
+      }
+    }
+  }
+
+  private emit(type: string, data: any): void {
+    this.messageHandlers.get(type)?.forEach(handler => {
+      try {
+        handler(data);
+      } catch (error) {
+        console.error(`Finnhub ${type} handler failed:`, error);
+      }
+    });
+  }
+
+  private send(message: { type: 'subscribe' | 'unsubscribe'; symbol: string }): boolean {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return false;
+    try {
+      this.ws.send(JSON.stringify(message));
+      return true;
+    } catch (error) {
+      console.error(`Failed to ${message.type} ${message.symbol}:`, error);
+      return false;
+    }
   }
 
   private resubscribeAll(): void {
-    // DISABLED
+    this.subscriptions.forEach(symbol => this.send({ type: 'subscribe', symbol }));
   }
 
+  // Quick retries with a doubling backoff first, then one every MAX_RECONNECT_DELAY for as long as it takes
   private scheduleReconnect(): void {
-    // DISABLED
+    if (this.reconnectAttempts === this.maxReconnectAttempts) {
+      console.error(`Finnhub WebSocket still down after ${this.reconnectAttempts} reconnect attempts; retrying every ${MAX_RECONNECT_DELAY}ms`);
+      this.setStatus('error');
+    }
+
+    const delay = Math.min(this.reconnectInterval * 2 ** this.reconnectAttempts, MAX_RECONNECT_DELAY);
+    this.reconnectAttempts++;
+    if (this.reconnectAttempts <= this.maxReconnectAttempts) {
+      console.log(`Reconnecting to Finnhub in ${delay}ms (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
+    }
+
+    this.reconnectTimeoutId = window.setTimeout(() => {
+      this.reconnectTimeoutId = null;
+      this.connect().catch(error => console.error('Finnhub reconnect failed:', error));
+    }, delay);
   }
 
+  /**
+   * Subscribe to a symbol's trades; queued until the socket is open
+   */
   public subscribe(symbol: string): boolean {
-    // DISABLED
-    console.warn('WebSocketManager (Finnhub) subscribe is disabled');
-    return false;
+    if (this.subscriptions.has(symbol)) return true;
+    this.subscriptions.add(symbol);
+    this.send({ type: 'subscribe', symbol });
+    return true;
   }
 
   public unsubscribe(symbol: string): boolean {
-    // DISABLED
-    console.warn('WebSocketManager (Finnhub) unsubscribe is disabled');
-    return false;
+    if (!this.subscriptions.delete(symbol)) return false;
+    this.send({ type: 'unsubscribe', symbol });
+    return true;
   }
 
   public addMessageHandler(type: string, handler: WSMessageHandler): void {
-    // DISABLED - no messages will be sent
     if (!this.messageHandlers.has(type)) {
       this.messageHandlers.set(type, []);
     }
@@ -98,9 +260,23 @@ export class WebSocketManager {
   }
 
   public isConnected(): boolean {
-    return false; // Always disconnected since we're disabled
+    return this.ws !== null && this.ws.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Whether a reconnect attempt is already scheduled
+   */
+  public isReconnectPending(): boolean {
+    return this.reconnectTimeoutId !== null;
+  }
+
+  /**
+   * Whether the socket is open and has heard from Finnhub (a trade or a ping) within maxSilenceMs
+   */
+  public isHealthy(maxSilenceMs: number): boolean {
+    return this.isConnected() && Date.now() - this.lastMessageTime < maxSilenceMs;
   }
 }
 
 // Singleton instance
-export const wsManager = new WebSocketManager();
\ No newline at end of file
+export const wsManager = new WebSocketManager();
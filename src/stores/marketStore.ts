@@ -1,15 +1,21 @@
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
-import { MarketPrice, OHLCData, TradingSymbol, MarketData } from '../types/trading';
+import { MarketPrice, OHLCData, TradingSymbol, MarketData, OrderBook, MarketTrade } from '../types/trading';
 import { WSConnectionStatus } from '../services/WebSocketManager';
 import { DEFAULT_SYMBOLS } from '../utils/constants';
 import { binanceHistoricalService } from '../services/BinanceHistoricalService';
 
+// Trades kept per symbol for the time-and-sales tape
+const MAX_RECENT_TRADES = 500;
+
 interface MarketStore extends MarketData {
   // Actions
   updatePrice: (price: MarketPrice) => void;
   updateChartData: (symbol: string, data: OHLCData[]) => void;
   addChartData: (symbol: string, data: OHLCData) => void;
+  setOrderBook: (book: OrderBook) => void;
+  clearOrderBook: (symbol: string) => void;
+  addRecentTrades: (symbol: string, trades: MarketTrade[]) => void;
   setConnectionStatus: (status: WSConnectionStatus) => void;
   addSubscription: (symbol: string) => void;
   removeSubscription: (symbol: string) => void;
@@ -22,6 +28,8 @@ interface MarketStore extends MarketData {
   // Computed values
   getPrice: (symbol: string) => MarketPrice | undefined;
   getChartData: (symbol: string) => OHLCData[] | undefined;
+  getOrderBook: (symbol: string) => OrderBook | undefined;
+  getRecentTrades: (symbol: string) => MarketTrade[] | undefined;
   isSymbolSubscribed: (symbol: string) => boolean;
   
   // Symbol management
@@ -40,6 +48,8 @@ export const useMarketStore = create<MarketStore>()(
     // Initial state
     prices: new Map<string, MarketPrice>(),
     charts: new Map<string, OHLCData[]>(),
+    orderBooks: new Map<string, OrderBook>(),
+    recentTrades: new Map<string, MarketTrade[]>(),
     subscriptions: new Set<string>(),
     connectionStatus: 'disconnected',
     availableSymbols: DEFAULT_SYMBOLS,
@@ -85,11 +95,14 @@ export const useMarketStore = create<MarketStore>()(
         if (price.open24h !== undefined) mergedPrice.open24h = price.open24h;
         if (price.high24h !== undefined) mergedPrice.high24h = price.high24h;
         if (price.low24h !== undefined) mergedPrice.low24h = price.low24h;
+        if (price.bid !== undefined) mergedPrice.bid = price.bid;
+        if (price.ask !== undefined) mergedPrice.ask = price.ask;
         
         // Only update percentage changes from authoritative sources (ticker)
         const source = (price as any).source;
-        if (source === 'ws-ticker' || source === 'rest-initial' || source === 'rest-refresh' || source === 'rest-symbol-change') {
-          // These sources have authoritative 24h data
+        if (source === 'ws-ticker' || source === 'rest-initial' || source === 'rest-refresh' || source === 'rest-symbol-change' || source === 'replay' || source === 'forex-quote' || source === 'stock-finnhub') {
+          // These sources have authoritative 24h data (a replay measures from its session open, forex from the last rollover,
+          // stocks from the previous close)
           if (price.change !== undefined) mergedPrice.change = price.change;
           if (price.changePercent !== undefined) mergedPrice.changePercent = price.changePercent;
           if (price.change24h !== undefined) mergedPrice.change24h = price.change24h;
@@ -169,6 +182,34 @@ export const useMarketStore = create<MarketStore>()(
       });
     },
 
+    setOrderBook: (book: OrderBook) => {
+      set((state) => {
+        const newOrderBooks = new Map(state.orderBooks);
+        newOrderBooks.set(book.symbol, book);
+        return { orderBooks: newOrderBooks };
+      });
+    },
+
+    clearOrderBook: (symbol: string) => {
+      set((state) => {
+        if (!state.orderBooks.has(symbol)) return state;
+        const newOrderBooks = new Map(state.orderBooks);
+        newOrderBooks.delete(symbol);
+        return { orderBooks: newOrderBooks };
+      });
+    },
+
+    addRecentTrades: (symbol: string, trades: MarketTrade[]) => {
+      if (trades.length === 0) return;
+      set((state) => {
+        const newRecentTrades = new Map(state.recentTrades);
+        // Newest first, bounded so the tape behaves as a ring buffer
+        const combined = [...[...trades].reverse(), ...(newRecentTrades.get(symbol) || [])];
+        newRecentTrades.set(symbol, combined.slice(0, MAX_RECENT_TRADES));
+        return { recentTrades: newRecentTrades };
+      });
+    },
+
     setConnectionStatus: (status: WSConnectionStatus) => {
       set({ connectionStatus: status });
     },
@@ -195,6 +236,8 @@ export const useMarketStore = create<MarketStore>()(
       set({
         prices: new Map(),
         charts: new Map(),
+        orderBooks: new Map(),
+        recentTrades: new Map(),
         subscriptions: new Set(),
         historicalDataLoading: new Set(),
         lastHistoricalUpdate: new Map(),
@@ -382,6 +425,14 @@ export const useMarketStore = create<MarketStore>()(
       return get().charts.get(symbol);
     },
 
+    getOrderBook: (symbol: string) => {
+      return get().orderBooks.get(symbol);
+    },
+
+    getRecentTrades: (symbol: string) => {
+      return get().recentTrades.get(symbol);
+    },
+
     isSymbolSubscribed: (symbol: string) => {
       return get().subscriptions.has(symbol);
     },
@@ -410,5 +461,7 @@ export const useMarketStore = create<MarketStore>()(
 export const useConnectionStatus = () => useMarketStore(state => state.connectionStatus);
 export const usePrice = (symbol: string) => useMarketStore(state => state.getPrice(symbol));
 export const useChartData = (symbol: string) => useMarketStore(state => state.getChartData(symbol));
+export const useOrderBook = (symbol: string) => useMarketStore(state => state.getOrderBook(symbol));
+export const useRecentTrades = (symbol: string) => useMarketStore(state => state.getRecentTrades(symbol));
 export const useWatchlist = () => useMarketStore(state => state.watchlist);
 export const useSubscriptions = () => useMarketStore(state => state.subscriptions);
\ No newline at end of file
@@ -0,0 +1,134 @@
+import { DEFAULT_ACCOUNT_CONFIG } from '../utils/constants';
+import { getDayOrderExpiry } from '../utils/marketHours';
+import { usePortfolioStore } from './portfolioStore';
+import { useReplayStore } from './replayStore';
+
+const STORAGE_KEY = 'paperTradingPortfolio';
+
+const storeVersion = async (state: unknown, version: number) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ state, version }));
+  await usePortfolioStore.persist.rehydrate();
+  return usePortfolioStore.getState();
+};
+
+const V1_PORTFOLIO = {
+  cash: 4000,
+  totalValue: 6000,
+  dayChange: 0,
+  dayChangePercent: 0,
+  positions: [{
+    id: 'position-1',
+    symbol: 'AAPL',
+    side: 'long',
+    quantity: 10,
+    avgPrice: 200,
+    currentPrice: 200,
+    unrealizedPL: 0,
+    realizedPL: 0,
+    timestamp: 0,
+  }],
+  orders: [],
+  trades: [],
+  initialCash: 5000,
+  lastBorrowAccrual: 0,
+  costBasisMethod: 'LIFO',
+  archivedAccounts: [{
+    id: 'archived-1',
+    name: 'Main',
+    archivedAt: 0,
+    initialCash: 10000,
+    finalValue: 9000,
+    cash: 9000,
+    positions: [],
+    orders: [],
+    trades: [],
+  }],
+};
+
+describe('portfolio persistence migrations', () => {
+  afterEach(() => localStorage.clear());
+
+  test('moves a v1 single-account portfolio into an account with every later default', async () => {
+    const state = await storeVersion(V1_PORTFOLIO, 1);
+    const accounts = Object.values(state.accounts);
+
+    expect(accounts).toHaveLength(1);
+    const [account] = accounts;
+    expect(state.activeAccountId).toBe(account.id);
+    expect(account).toMatchObject({ cash: 4000, initialCash: 5000, costBasisMethod: 'LIFO' });
+    expect(account.positions[0].symbol).toBe('AAPL');
+    expect(state.archivedAccounts.map(archived => archived.id)).toEqual(['archived-1']);
+
+    // v2 → v3 opens the equity curve, v3 → v4 keeps the flat fee schedule, v4 → v5 adds risk limits
+    expect(account.equityHistory).toEqual([{ timestamp: account.createdAt, equity: 5000, cash: 5000, grossExposure: 0 }]);
+    expect(account.config.feeScheduleId).toBe('flat');
+    expect(account.config.riskLimits).toEqual(DEFAULT_ACCOUNT_CONFIG.riskLimits);
+
+    // The active account is mirrored at the top level
+    expect(state.cash).toBe(4000);
+  });
+
+  test('only runs the steps after the stored version', async () => {
+    const { riskLimits, ...v4Config } = { ...DEFAULT_ACCOUNT_CONFIG, name: 'Swing', feeScheduleId: 'pro' };
+    const account = {
+      id: 'account-1',
+      createdAt: 1000,
+      config: v4Config,
+      initialCash: 10000,
+      cash: 10000,
+      totalValue: 10000,
+      dayChange: 0,
+      dayChangePercent: 0,
+      positions: [],
+      orders: [],
+      trades: [],
+      lastBorrowAccrual: 0,
+      costBasisMethod: 'FIFO',
+      equityHistory: [],
+    };
+
+    const state = await storeVersion({ accounts: { 'account-1': account }, activeAccountId: 'account-1', archivedAccounts: [] }, 4);
+    const migrated = state.accounts['account-1'];
+
+    expect(migrated.equityHistory).toEqual([]);
+    expect(migrated.config).toMatchObject({ name: 'Swing', feeScheduleId: 'pro', riskLimits });
+    expect(state.config.name).toBe('Swing');
+  });
+
+  test('keeps the current portfolio when the stored one has no usable active account', async () => {
+    const before = usePortfolioStore.getState().accounts;
+    const state = await storeVersion({ accounts: 'corrupt', activeAccountId: 'missing', archivedAccounts: [] }, 5);
+    expect(state.accounts).toBe(before);
+  });
+});
+
+describe('replay clock', () => {
+  const REPLAYED = Date.parse('2024-01-05T12:00:00Z');
+
+  afterEach(() => {
+    usePortfolioStore.getState().endReplayAccount();
+    useReplayStore.getState().resetReplay();
+  });
+
+  test('stamps orders, fills and DAY expiry with the replayed time instead of the wall clock', () => {
+    useReplayStore.getState().setReplayState({ status: 'paused', currentTime: REPLAYED });
+    const accountId = usePortfolioStore.getState().startReplayAccount(REPLAYED);
+    const account = () => usePortfolioStore.getState().accounts[accountId];
+    expect(account().lastBorrowAccrual).toBe(REPLAYED);
+
+    const order = { symbol: 'BTCUSDT', side: 'buy' as const, type: 'limit' as const, quantity: 1, status: 'pending' as const };
+    const filledId = usePortfolioStore.getState().addOrder({ ...order, price: 100 });
+    const dayId = usePortfolioStore.getState().addOrder({ ...order, price: 90, timeInForce: 'DAY' });
+    const dayOrder = account().orders.find(o => o.id === dayId)!;
+    expect(dayOrder.timestamp).toBe(REPLAYED);
+    expect(dayOrder.expiresAt).toBe(getDayOrderExpiry('crypto', new Date(REPLAYED)));
+
+    usePortfolioStore.getState().fillOrder(filledId, 100);
+    expect(account().trades[0].timestamp).toBe(REPLAYED);
+
+    // The DAY order expires when the replay reaches the session close, not at the real one
+    expect(usePortfolioStore.getState().expireOrders()).toEqual([]);
+    useReplayStore.getState().setReplayState({ currentTime: dayOrder.expiresAt });
+    expect(usePortfolioStore.getState().expireOrders()).toEqual([dayId]);
+  });
+});
@@ -1,99 +1,379 @@
 import { create } from 'zustand';
-import { subscribeWithSelector } from 'zustand/middleware';
-import { Portfolio, Position, Order, Trade } from '../types/trading';
-import { TRADING_CONFIG } from '../utils/constants';
+import { subscribeWithSelector, persist, createJSONStorage, PersistStorage, StorageValue } from 'zustand/middleware';
+import { useShallow } from 'zustand/react/shallow';
+import {
+  Portfolio,
+  Position,
+  Order,
+  Trade,
+  CostBasisMethod,
+  ArchivedAccount,
+  AccountConfig,
+  PaperAccount,
+  EquitySnapshot,
+  FeeLiquidity,
+  OrderAmendmentFields,
+} from '../types/trading';
+import { DEFAULT_ACCOUNT_CONFIG, TRADING_CONFIG } from '../utils/constants';
+import { isOrderOpen, isOrderExpired } from '../utils/orderMatching';
+import { downsampleEquityHistory } from '../utils/performanceAnalytics';
+import { getDayOrderExpiry } from '../utils/marketHours';
+import { getSymbolType } from '../utils/symbolUtils';
+import { applyOrderFill } from '../utils/orderFills';
+import { RiskCheckOrder, getDailyLossFraction, getNextDayStart, isTradingLocked } from '../utils/riskRules';
+import { riskEngine, RiskCheckResult } from '../services/RiskEngine';
+import { getMarketTime } from './replayStore';
+import {
+  getBorrowFee,
+  getMarginSummary,
+  getMarketValue,
+  getUnrealizedPL,
+  getAccountPerformance,
+  MarginSummary,
+  PortfolioPerformance,
+} from '../utils/portfolioAccounting';
+
+// Everything that belongs to one account; the active account is mirrored at the top level of the store
+type AccountData = Omit<PaperAccount, 'id' | 'createdAt'>;
 
 interface PortfolioStore extends Portfolio {
-  // Portfolio actions
+  // Portfolio actions (revaluation and borrow fees apply to every simulated account)
   updateTotalValue: (marketPrices: Map<string, number>) => void;
-  
+  accrueBorrowFees: (now?: number) => number;
+
   // Position actions
   addPosition: (position: Omit<Position, 'id' | 'timestamp'>) => string;
   updatePosition: (id: string, updates: Partial<Position>) => void;
   removePosition: (id: string) => void;
   getPosition: (symbol: string) => Position | undefined;
-  
-  // Order actions
-  addOrder: (order: Omit<Order, 'id' | 'timestamp'>) => string;
+
+  // Order actions; order ids are unique across accounts, so fills find their own account
+  addOrder: (order: Omit<Order, 'id' | 'timestamp'>, accountId?: string) => string;
   updateOrder: (id: string, updates: Partial<Order>) => void;
+  replaceOrder: (id: string, changes: OrderAmendmentFields) => boolean;
   cancelOrder: (id: string) => void;
-  fillOrder: (id: string, filledPrice: number, filledQuantity?: number) => void;
-  
+  expireOrders: (now?: number) => string[];
+  fillOrder: (id: string, filledPrice: number, filledQuantity?: number, liquidity?: FeeLiquidity) => void;
+
   // Trade actions
-  addTrade: (trade: Omit<Trade, 'id' | 'timestamp'>) => string;
-  
+  addTrade: (trade: Omit<Trade, 'id' | 'timestamp'>, accountId?: string) => string;
+
   // Portfolio analysis
-  getPortfolioPerformance: () => {
-    totalReturn: number;
-    totalReturnPercent: number;
-    dayReturn: number;
-    dayReturnPercent: number;
-    unrealizedPL: number;
-    realizedPL: number;
-  };
-  
+  getPortfolioPerformance: (accountId?: string) => PortfolioPerformance;
+
   // Risk management
-  canPlaceOrder: (symbol: string, quantity: number, price: number) => {
-    canPlace: boolean;
-    reason?: string;
-  };
-  
-  // Reset portfolio (for demo/game purposes)
-  resetPortfolio: () => void;
-  
-  // Settings
+  canPlaceOrder: (order: RiskCheckOrder, accountId?: string) => RiskCheckResult;
+  enforceDailyLossLimits: (now?: number) => string[];
+  getMarginSummary: (accountId?: string) => MarginSummary;
+  liquidateForMargin: () => string[];
+
+  // Reset portfolio (for demo/game purposes); the old account is archived, not deleted
+  resetPortfolio: (initialCash?: number) => void;
+  archivedAccounts: ArchivedAccount[];
+  deleteArchivedAccount: (id: string) => void;
+
+  // Accounts
+  accounts: Record<string, PaperAccount>;
+  activeAccountId: string;
+  createAccount: (config: Partial<AccountConfig> & { name: string }, initialCash?: number) => string;
+  switchAccount: (id: string) => void;
+  updateAccountConfig: (id: string, updates: Partial<AccountConfig>) => void;
+  deleteAccount: (id: string) => void;
+
+  // Replay sandbox: a throwaway account that is the only one simulated while a replay runs
+  replayAccountId?: string;
+  replayReturnAccountId?: string; // Active account to go back to when the replay ends
+  startReplayAccount: (startTime?: number) => string;
+  endReplayAccount: () => void;
+
+  // Settings (active account)
   initialCash: number;
+  lastBorrowAccrual: number;
+  costBasisMethod: CostBasisMethod;
+  config: AccountConfig;
+  equityHistory: EquitySnapshot[];
+  setCostBasisMethod: (method: CostBasisMethod) => void;
 }
 
-let nextId = 1;
-const generateId = () => `id_${nextId++}`;
+// Ids must stay unique across reloads now that the portfolio is persisted
+let idCounter = 0;
+const generateId = () =>
+  `id_${Date.now().toString(36)}_${(idCounter++).toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+const newAccount = (config: AccountConfig, initialCash: number, now: number = Date.now()): PaperAccount => ({
+  id: generateId(),
+  createdAt: now,
+  equityHistory: [{ timestamp: now, equity: initialCash, cash: initialCash, grossExposure: 0 }],
+  config,
+  cash: initialCash,
+  totalValue: initialCash,
+  dayChange: 0,
+  dayChangePercent: 0,
+  positions: [],
+  orders: [],
+  trades: [],
+  initialCash,
+  lastBorrowAccrual: now,
+  costBasisMethod: TRADING_CONFIG.COST_BASIS_METHOD,
+});
+
+const toAccountData = (account: PaperAccount): AccountData => {
+  const { id, createdAt, ...data } = account;
+  return data;
+};
+
+// Writes to one account, keeping the top-level mirror in step when it is the active one
+const patchAccount = (
+  state: PortfolioStore,
+  accountId: string,
+  patch: Partial<AccountData>
+): Partial<PortfolioStore> => {
+  const accounts = { ...state.accounts, [accountId]: { ...state.accounts[accountId], ...patch } };
+  return accountId === state.activeAccountId ? { accounts, ...patch } : { accounts };
+};
+
+// The accounts that follow market prices: only the replay sandbox while a replay runs, so historical
+// prices never fill, revalue, liquidate or lock the real accounts
+export const getSimulatedAccounts = (
+  state: Pick<PortfolioStore, 'accounts' | 'replayAccountId'>
+): Record<string, PaperAccount> => {
+  const sandbox = state.replayAccountId ? state.accounts[state.replayAccountId] : undefined;
+  return sandbox ? { [sandbox.id]: sandbox } : state.accounts;
+};
+
+// Applies a patch to every simulated account that returns one
+const patchAccounts = (
+  state: PortfolioStore,
+  update: (account: PaperAccount) => Partial<AccountData> | undefined
+): Partial<PortfolioStore> => {
+  const accounts = { ...state.accounts };
+  let activePatch: Partial<AccountData> = {};
+
+  Object.values(getSimulatedAccounts(state)).forEach(account => {
+    const patch = update(account);
+    if (!patch) return;
+    accounts[account.id] = { ...account, ...patch };
+    if (account.id === state.activeAccountId) activePatch = patch;
+  });
+
+  return { accounts, ...activePatch };
+};
+
+const findOrderAccount = (state: PortfolioStore, orderId: string): PaperAccount | undefined => {
+  return Object.values(state.accounts).find(account => account.orders.some(order => order.id === orderId));
+};
+
+const archiveAccount = (account: PaperAccount): ArchivedAccount => ({
+  id: generateId(),
+  name: account.config.name,
+  archivedAt: Date.now(),
+  initialCash: account.initialCash,
+  finalValue: account.totalValue,
+  cash: account.cash,
+  positions: account.positions,
+  orders: account.orders.map(order =>
+    isOrderOpen(order) ? { ...order, status: 'cancelled' as const } : order
+  ),
+  trades: account.trades,
+});
+
+const hasActivity = (account: PaperAccount): boolean => account.trades.length > 0 || account.orders.length > 0;
+
+// Every account's orders, for the matching engine
+export const getAllOrders = (accounts: Record<string, PaperAccount>): Order[] => {
+  return Object.values(accounts).reduce<Order[]>((all, account) => all.concat(account.orders), []);
+};
+
+const STORAGE_KEY = 'paperTradingPortfolio';
+const STORAGE_VERSION = 5;
+
+type PersistedPortfolio = Pick<PortfolioStore, 'accounts' | 'activeAccountId' | 'archivedAccounts'>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// A stored account from an earlier version: settings and history added since may be missing
+type StoredAccount = Omit<PaperAccount, 'config' | 'equityHistory'> & {
+  config: Partial<AccountConfig>;
+  equityHistory?: PaperAccount['equityHistory'];
+};
+
+// Runs a migration step over every stored account; anything unrecognisable is left for merge() to discard
+const migrateAccounts = (state: unknown, update: (account: StoredAccount) => StoredAccount): unknown => {
+  if (!isRecord(state) || !isRecord(state.accounts)) return state;
+  const stored = state.accounts;
+  const accounts = Object.keys(stored).reduce<Record<string, unknown>>((result, id) => {
+    const account = stored[id];
+    result[id] = isRecord(account) ? update(account as unknown as StoredAccount) : account;
+    return result;
+  }, {});
+  return { ...state, accounts };
+};
+
+// Each migration upgrades persisted state from the version before it
+const migrations: Record<number, (state: unknown) => unknown> = {
+  // v1 held a single account at the top level
+  2: (state) => {
+    const stored: Record<string, unknown> = isRecord(state) ? state : {};
+    const { archivedAccounts, ...data } = stored;
+    const initialCash = typeof data.initialCash === 'number' ? data.initialCash : TRADING_CONFIG.INITIAL_CASH;
+    const account: PaperAccount = {
+      ...newAccount(DEFAULT_ACCOUNT_CONFIG, initialCash),
+      ...(data as Partial<AccountData>),
+    };
+    return {
+      accounts: { [account.id]: account },
+      activeAccountId: account.id,
+      archivedAccounts: Array.isArray(archivedAccounts) ? archivedAccounts : [],
+    };
+  },
+  // v2 had no equity history; start the curve from the account's opening balance
+  3: (state) => migrateAccounts(state, account => ({
+    ...account,
+    equityHistory: account.equityHistory || [{
+      timestamp: account.createdAt,
+      equity: account.initialCash,
+      cash: account.initialCash,
+      grossExposure: 0,
+    }],
+  })),
+  // v3 charged every account a flat rate; keep existing accounts on that schedule
+  4: (state) => migrateAccounts(state, account => ({
+    ...account,
+    config: { feeScheduleId: 'flat', ...account.config },
+  })),
+  // v4 had no pre-trade risk limits beyond buying power and position size
+  5: (state) => migrateAccounts(state, account => ({
+    ...account,
+    config: { riskLimits: DEFAULT_ACCOUNT_CONFIG.riskLimits, ...account.config },
+  })),
+};
+
+// Version 1 was the first stored shape, so anything older is migrated as if it were v1
+const migratePortfolio = (persistedState: unknown, version: number): PersistedPortfolio => {
+  let state = persistedState;
+  for (let next = Math.max(version + 1, 2); next <= STORAGE_VERSION; next++) {
+    state = migrations[next](state);
+  }
+  return state as PersistedPortfolio;
+};
+
+// Prices revalue the portfolio every second, so writes are batched to one per PORTFOLIO_SAVE_INTERVAL
+// (plus one when the page is hidden); a full or unavailable localStorage is logged rather than thrown from set()
+const createPortfolioStorage = (): PersistStorage<PersistedPortfolio> | undefined => {
+  const json = createJSONStorage<PersistedPortfolio>(() => localStorage);
+  if (!json) return undefined;
+
+  let pending: { name: string; value: StorageValue<PersistedPortfolio> } | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (!pending) return;
+
+    const { name, value } = pending;
+    pending = null;
+    try {
+      json.setItem(name, value);
+    } catch (error) {
+      console.error('Failed to save the portfolio:', error);
+    }
+  };
+
+  if (typeof window !== 'undefined') {
+    window.addEventListener('pagehide', flush);
+  }
+
+  return {
+    getItem: name => json.getItem(name),
+    setItem: (name, value) => {
+      pending = { name, value };
+      if (!timer) timer = setTimeout(flush, TRADING_CONFIG.PORTFOLIO_SAVE_INTERVAL);
+    },
+    removeItem: name => {
+      pending = null;
+      json.removeItem(name);
+    },
+  };
+};
+
+const initialAccount = newAccount(DEFAULT_ACCOUNT_CONFIG, TRADING_CONFIG.INITIAL_CASH);
 
 export const usePortfolioStore = create<PortfolioStore>()(
-  subscribeWithSelector((set, get) => ({
+  subscribeWithSelector(persist((set, get) => ({
     // Initial state
-    cash: TRADING_CONFIG.INITIAL_CASH,
-    totalValue: TRADING_CONFIG.INITIAL_CASH,
-    dayChange: 0,
-    dayChangePercent: 0,
-    positions: [],
-    orders: [],
-    trades: [],
-    initialCash: TRADING_CONFIG.INITIAL_CASH,
+    ...toAccountData(initialAccount),
+    accounts: { [initialAccount.id]: initialAccount },
+    activeAccountId: initialAccount.id,
+    archivedAccounts: [],
 
     // Portfolio actions
     updateTotalValue: (marketPrices: Map<string, number>) => {
-      set((state) => {
-        let positionsValue = 0;
-        let unrealizedPL = 0;
-        
-        const updatedPositions = state.positions.map(position => {
+      const now = getMarketTime();
+      set((state) => patchAccounts(state, account => {
+        const updatedPositions = account.positions.map(position => {
           const currentPrice = marketPrices.get(position.symbol) || position.currentPrice;
-          const marketValue = currentPrice * Math.abs(position.quantity);
-          const positionPL = position.side === 'long' 
-            ? (currentPrice - position.avgPrice) * position.quantity
-            : (position.avgPrice - currentPrice) * position.quantity;
-          
-          positionsValue += marketValue;
-          unrealizedPL += positionPL;
-          
           return {
             ...position,
             currentPrice,
-            unrealizedPL: positionPL,
+            unrealizedPL: getUnrealizedPL(position, currentPrice),
           };
         });
-        
-        const totalValue = state.cash + positionsValue;
-        const dayChange = totalValue - state.initialCash;
-        const dayChangePercent = (dayChange / state.initialCash) * 100;
-        
+
+        // Shorts count against equity: their proceeds already sit in cash
+        const margin = getMarginSummary(account.cash, updatedPositions, account.config);
+        const totalValue = margin.equity;
+        const dayChange = totalValue - account.initialCash;
+        const dayChangePercent = (dayChange / account.initialCash) * 100;
+
+        // Sample the equity curve on a fixed interval rather than on every tick, thinning older points as it grows
+        const lastSnapshot = account.equityHistory[account.equityHistory.length - 1];
+        const equityHistory = !lastSnapshot || now - lastSnapshot.timestamp >= TRADING_CONFIG.EQUITY_SNAPSHOT_INTERVAL
+          ? downsampleEquityHistory([...account.equityHistory, {
+            timestamp: now,
+            equity: totalValue,
+            cash: account.cash,
+            grossExposure: margin.grossExposure,
+          }], now, TRADING_CONFIG.EQUITY_FULL_RESOLUTION_AGE, TRADING_CONFIG.EQUITY_DOWNSAMPLE_INTERVAL)
+            .slice(-TRADING_CONFIG.MAX_EQUITY_SNAPSHOTS)
+          : account.equityHistory;
+
         return {
           positions: updatedPositions,
           totalValue,
           dayChange,
           dayChangePercent,
+          equityHistory,
         };
-      });
+      }));
+    },
+
+    accrueBorrowFees: (now: number = getMarketTime()) => {
+      let totalFees = 0;
+
+      set((state) => patchAccounts(state, account => {
+        const elapsed = now - account.lastBorrowAccrual;
+        if (elapsed <= 0) return undefined;
+
+        let accountFees = 0;
+        const positions = account.positions.map(position => {
+          const fee = getBorrowFee(position, elapsed);
+          if (fee <= 0) return position;
+          accountFees += fee;
+          return { ...position, borrowFeesPaid: (position.borrowFeesPaid || 0) + fee };
+        });
+        totalFees += accountFees;
+
+        return {
+          lastBorrowAccrual: now,
+          ...(accountFees > 0 ? { positions, cash: account.cash - accountFees } : {}),
+        };
+      }));
+
+      return totalFees;
     },
 
     // Position actions
@@ -102,20 +382,20 @@ export const usePortfolioStore = create<PortfolioStore>()(
       const position: Position = {
         ...positionData,
         id,
-        timestamp: Date.now(),
+        timestamp: getMarketTime(),
         unrealizedPL: 0,
         realizedPL: 0,
       };
-      
-      set((state) => ({
+
+      set((state) => patchAccount(state, state.activeAccountId, {
         positions: [...state.positions, position],
       }));
-      
+
       return id;
     },
 
     updatePosition: (id: string, updates: Partial<Position>) => {
-      set((state) => ({
+      set((state) => patchAccount(state, state.activeAccountId, {
         positions: state.positions.map(position =>
           position.id === id ? { ...position, ...updates } : position
         ),
@@ -123,7 +403,7 @@ export const usePortfolioStore = create<PortfolioStore>()(
     },
 
     removePosition: (id: string) => {
-      set((state) => ({
+      set((state) => patchAccount(state, state.activeAccountId, {
         positions: state.positions.filter(position => position.id !== id),
       }));
     },
@@ -133,188 +413,351 @@ export const usePortfolioStore = create<PortfolioStore>()(
     },
 
     // Order actions
-    addOrder: (orderData) => {
+    addOrder: (orderData, accountId?: string) => {
       const id = generateId();
+      const timestamp = getMarketTime();
+      const timeInForce = orderData.timeInForce || 'GTC';
       const order: Order = {
         ...orderData,
         id,
-        timestamp: Date.now(),
+        timestamp,
         status: 'pending',
+        timeInForce,
+        expiresAt: orderData.expiresAt ?? (timeInForce === 'DAY'
+          ? getDayOrderExpiry(getSymbolType(orderData.symbol), new Date(timestamp))
+          : undefined),
       };
-      
-      set((state) => ({
-        orders: [...state.orders, order],
-      }));
-      
+
+      set((state) => {
+        const targetId = accountId || state.activeAccountId;
+        return patchAccount(state, targetId, {
+          orders: [...state.accounts[targetId].orders, order],
+        });
+      });
+
       return id;
     },
 
     updateOrder: (id: string, updates: Partial<Order>) => {
-      set((state) => ({
-        orders: state.orders.map(order =>
-          order.id === id ? { ...order, ...updates } : order
-        ),
-      }));
+      set((state) => {
+        const account = findOrderAccount(state, id);
+        if (!account) return {};
+        return patchAccount(state, account.id, {
+          orders: account.orders.map(order =>
+            order.id === id ? { ...order, ...updates } : order
+          ),
+        });
+      });
     },
 
-    cancelOrder: (id: string) => {
-      set((state) => ({
-        orders: state.orders.map(order =>
-          order.id === id ? { ...order, status: 'cancelled' as const } : order
+    // Amends an open order in place and records the change; validation and risk checks live in OrderService
+    replaceOrder: (id: string, changes: OrderAmendmentFields) => {
+      const account = findOrderAccount(get(), id);
+      const order = account?.orders.find(o => o.id === id);
+      if (!account || !order || !isOrderOpen(order)) return false;
+
+      const fields = (Object.keys(changes) as (keyof OrderAmendmentFields)[])
+        .filter(field => changes[field] !== undefined && changes[field] !== order[field]);
+      if (fields.length === 0) return false;
+
+      const previous: OrderAmendmentFields = {};
+      const applied: OrderAmendmentFields = {};
+      fields.forEach(field => {
+        previous[field] = order[field];
+        applied[field] = changes[field];
+      });
+
+      set((state) => patchAccount(state, account.id, {
+        orders: state.accounts[account.id].orders.map(o =>
+          o.id === id
+            ? { ...o, ...applied, amendments: [...(o.amendments || []), { timestamp: getMarketTime(), previous, changes: applied }] }
+            : o
         ),
       }));
+      return true;
     },
 
-    fillOrder: (id: string, filledPrice: number, filledQuantity?: number) => {
-      const state = get();
-      const order = state.orders.find(o => o.id === id);
-      
-      if (!order || order.status !== 'pending') return;
-      
-      const quantity = filledQuantity || order.quantity;
-      const commission = quantity * filledPrice * TRADING_CONFIG.COMMISSION_RATE;
-      const totalCost = quantity * filledPrice + commission;
-      
-      // Update order status
-      set((state) => ({
-        orders: state.orders.map(o =>
-          o.id === id ? {
-            ...o,
-            status: 'filled' as const,
-            filledPrice,
-            filledQuantity: quantity,
-          } : o
-        ),
-      }));
-      
-      // Create trade record
-      const tradeId = get().addTrade({
-        symbol: order.symbol,
-        side: order.side,
-        quantity,
-        price: filledPrice,
-        commission,
-        orderId: id,
-      });
-      
-      // Update cash
-      const cashChange = order.side === 'buy' ? -totalCost : totalCost - commission;
-      set((state) => ({
-        cash: state.cash + cashChange,
-      }));
-      
-      // Update or create position
-      const existingPosition = get().getPosition(order.symbol);
-      
-      if (existingPosition) {
-        // Update existing position
-        const newQuantity = order.side === 'buy' 
-          ? existingPosition.quantity + quantity
-          : existingPosition.quantity - quantity;
-          
-        if (newQuantity === 0) {
-          get().removePosition(existingPosition.id);
-        } else {
-          const newAvgPrice = order.side === 'buy'
-            ? ((existingPosition.avgPrice * existingPosition.quantity) + (filledPrice * quantity)) / newQuantity
-            : existingPosition.avgPrice;
-            
-          get().updatePosition(existingPosition.id, {
-            quantity: newQuantity,
-            avgPrice: newAvgPrice,
-            side: newQuantity > 0 ? 'long' : 'short',
-          });
-        }
-      } else if (order.side === 'buy') {
-        // Create new position for buy orders
-        get().addPosition({
-          symbol: order.symbol,
-          side: 'long',
-          quantity,
-          avgPrice: filledPrice,
-          currentPrice: filledPrice,
-          unrealizedPL: 0,
-          realizedPL: 0,
+    cancelOrder: (id: string) => {
+      // Cancelling a bracket entry also cancels its exit legs
+      set((state) => {
+        const account = findOrderAccount(state, id);
+        if (!account) return {};
+        return patchAccount(state, account.id, {
+          orders: account.orders.map(order =>
+            (order.id === id || order.parentId === id) && isOrderOpen(order)
+              ? { ...order, status: 'cancelled' as const }
+              : order
+          ),
         });
+      });
+    },
+
+    expireOrders: (now: number = getMarketTime()) => {
+      const expiredIds = getAllOrders(getSimulatedAccounts(get()))
+        .filter(order => isOrderOpen(order) && isOrderExpired(order, now))
+        .map(order => order.id);
+
+      if (expiredIds.length > 0) {
+        const expired = new Set(expiredIds);
+        set((state) => patchAccounts(state, account =>
+          account.orders.some(order => expired.has(order.id)) ? {
+            orders: account.orders.map(order =>
+              expired.has(order.id) ? { ...order, status: 'expired' as const } : order
+            ),
+          } : undefined
+        ));
       }
+
+      return expiredIds;
+    },
+
+    fillOrder: (id: string, filledPrice: number, filledQuantity?: number, liquidity: FeeLiquidity = 'taker') => {
+      const account = findOrderAccount(get(), id);
+      if (!account) return;
+
+      const result = applyOrderFill(account, id, filledPrice, filledQuantity, liquidity, getMarketTime(), generateId);
+      if (!result) return;
+
+      const { trade, ...fill } = result;
+      set((state) => patchAccount(state, account.id, fill));
+      get().addTrade(trade, account.id);
     },
 
     // Trade actions
-    addTrade: (tradeData) => {
+    addTrade: (tradeData, accountId?: string) => {
       const id = generateId();
       const trade: Trade = {
         ...tradeData,
         id,
-        timestamp: Date.now(),
+        timestamp: getMarketTime(),
       };
-      
-      set((state) => ({
-        trades: [...state.trades, trade],
-      }));
-      
+
+      set((state) => {
+        const targetId = accountId || state.activeAccountId;
+        return patchAccount(state, targetId, {
+          trades: [...state.accounts[targetId].trades, trade],
+        });
+      });
+
       return id;
     },
 
     // Portfolio analysis
-    getPortfolioPerformance: () => {
+    getPortfolioPerformance: (accountId?: string) => {
       const state = get();
-      const unrealizedPL = state.positions.reduce((sum, pos) => sum + pos.unrealizedPL, 0);
-      const realizedPL = state.trades
-        .filter(trade => trade.side === 'sell')
-        .reduce((sum, trade) => sum - trade.commission, 0); // Simplified calculation
-      
-      const totalReturn = state.totalValue - state.initialCash;
-      const totalReturnPercent = (totalReturn / state.initialCash) * 100;
-      
-      return {
-        totalReturn,
-        totalReturnPercent,
-        dayReturn: state.dayChange,
-        dayReturnPercent: state.dayChangePercent,
-        unrealizedPL,
-        realizedPL,
-      };
+      return getAccountPerformance(state.accounts[accountId || state.activeAccountId]);
     },
 
     // Risk management
-    canPlaceOrder: (symbol: string, quantity: number, price: number) => {
+    canPlaceOrder: (order: RiskCheckOrder, accountId?: string) => {
       const state = get();
-      const orderValue = quantity * price;
-      const commission = orderValue * TRADING_CONFIG.COMMISSION_RATE;
-      const totalCost = orderValue + commission;
-      
-      // Check if enough cash for buy orders
-      if (totalCost > state.cash) {
-        return {
-          canPlace: false,
-          reason: 'Insufficient cash balance',
-        };
-      }
-      
-      // Check position size limit
-      const positionValue = orderValue / state.totalValue;
-      if (positionValue > TRADING_CONFIG.MAX_POSITION_SIZE) {
-        return {
-          canPlace: false,
-          reason: `Position size would exceed ${TRADING_CONFIG.MAX_POSITION_SIZE * 100}% limit`,
-        };
-      }
-      
-      return { canPlace: true };
+      return riskEngine.evaluate(state.accounts[accountId || state.activeAccountId], order, getMarketTime());
+    },
+
+    // Locks any account whose loss since midnight has reached its daily limit
+    enforceDailyLossLimits: (now: number = getMarketTime()) => {
+      const lockedIds: string[] = [];
+
+      Object.values(getSimulatedAccounts(get())).forEach(account => {
+        const limit = account.config.riskLimits.dailyLossLimit;
+        if (!limit || isTradingLocked(account, now)) return;
+
+        const { equity } = getMarginSummary(account.cash, account.positions, account.config);
+        if (getDailyLossFraction(account, equity, now) < limit) return;
+
+        set((state) => patchAccount(state, account.id, { tradingLockedUntil: getNextDayStart(now) }));
+        lockedIds.push(account.id);
+      });
+
+      return lockedIds;
+    },
+
+    getMarginSummary: (accountId?: string) => {
+      const state = get();
+      const account = state.accounts[accountId || state.activeAccountId];
+      return getMarginSummary(account.cash, account.positions, account.config);
+    },
+
+    liquidateForMargin: () => {
+      const orderIds: string[] = [];
+
+      Object.values(getSimulatedAccounts(get())).forEach(account => {
+        const margin = getMarginSummary(account.cash, account.positions, account.config);
+        if (!margin.isBelowMaintenance) return;
+
+        // A liquidation is already working
+        if (account.orders.some(order => order.liquidation && isOrderOpen(order))) return;
+
+        // Working orders are pulled so they cannot add exposure during the margin call
+        set((state) => patchAccount(state, account.id, {
+          orders: account.orders.map(order =>
+            isOrderOpen(order) ? { ...order, status: 'cancelled' as const } : order
+          ),
+        }));
+
+        // Close the largest positions first until the rest is back above maintenance
+        const byValue = [...account.positions].sort((a, b) => getMarketValue(b) - getMarketValue(a));
+        let grossExposure = margin.grossExposure;
+
+        for (const position of byValue) {
+          if (margin.equity >= grossExposure * account.config.maintenanceMargin) break;
+
+          orderIds.push(get().addOrder({
+            symbol: position.symbol,
+            side: position.side === 'long' ? 'sell' : 'buy',
+            type: 'market',
+            quantity: position.quantity,
+            status: 'pending',
+            liquidation: true,
+          }, account.id));
+          grossExposure -= getMarketValue(position);
+        }
+      });
+
+      return orderIds;
+    },
+
+    // Applies to closing trades from now on; lots already closed keep their booked P&L
+    setCostBasisMethod: (method: CostBasisMethod) => {
+      set((state) => patchAccount(state, state.activeAccountId, { costBasisMethod: method }));
     },
 
     // Reset portfolio
-    resetPortfolio: () => {
+    resetPortfolio: (initialCash?: number) => {
+      const state = get();
+      const account = state.accounts[state.activeAccountId];
+      const fresh = newAccount(account.config, initialCash ?? account.initialCash);
+
+      // Keep the old account for reference instead of discarding its history
+      set({
+        ...patchAccount(state, account.id, {
+          ...toAccountData(fresh),
+          costBasisMethod: account.costBasisMethod,
+          tradingLockedUntil: undefined,
+        }),
+        archivedAccounts: hasActivity(account)
+          ? [...state.archivedAccounts, archiveAccount(account)]
+          : state.archivedAccounts,
+      });
+    },
+
+    deleteArchivedAccount: (id: string) => {
+      set((state) => ({
+        archivedAccounts: state.archivedAccounts.filter(account => account.id !== id),
+      }));
+    },
+
+    // Account actions
+    createAccount: (config, initialCash: number = TRADING_CONFIG.INITIAL_CASH) => {
+      const account = newAccount({ ...DEFAULT_ACCOUNT_CONFIG, ...config }, initialCash);
+
+      set((state) => ({
+        accounts: { ...state.accounts, [account.id]: account },
+      }));
+
+      return account.id;
+    },
+
+    switchAccount: (id: string) => {
+      const account = get().accounts[id];
+      if (!account) return;
+
+      set({ activeAccountId: id, ...toAccountData(account) });
+    },
+
+    updateAccountConfig: (id: string, updates: Partial<AccountConfig>) => {
+      set((state) => {
+        const account = state.accounts[id];
+        if (!account) return {};
+        return patchAccount(state, id, { config: { ...account.config, ...updates } });
+      });
+    },
+
+    deleteAccount: (id: string) => {
+      const state = get();
+      const account = state.accounts[id];
+      const remaining = Object.values(state.accounts).filter(a => a.id !== id);
+      if (!account || remaining.length === 0) return;
+
+      const accounts = { ...state.accounts };
+      delete accounts[id];
+      const active = id === state.activeAccountId ? remaining[0] : state.accounts[state.activeAccountId];
+
+      // Deleted accounts are archived like resets, so no history is lost
+      set({
+        accounts,
+        activeAccountId: active.id,
+        ...toAccountData(active),
+        archivedAccounts: hasActivity(account)
+          ? [...state.archivedAccounts, archiveAccount(account)]
+          : state.archivedAccounts,
+      });
+    },
+
+    // Replays trade a fresh copy of the active account's settings, opened at the replay's start time;
+    // starting another replay replaces it
+    startReplayAccount: (startTime?: number) => {
+      const state = get();
+      const returnId = state.replayReturnAccountId ?? state.activeAccountId;
+      const base = state.accounts[returnId];
+      const sandbox = newAccount({ ...base.config, name: `${base.config.name} (replay)` }, base.initialCash, startTime);
+
+      const accounts = { ...state.accounts, [sandbox.id]: sandbox };
+      if (state.replayAccountId) delete accounts[state.replayAccountId];
+
       set({
-        cash: TRADING_CONFIG.INITIAL_CASH,
-        totalValue: TRADING_CONFIG.INITIAL_CASH,
-        dayChange: 0,
-        dayChangePercent: 0,
-        positions: [],
-        orders: [],
-        trades: [],
+        accounts,
+        activeAccountId: sandbox.id,
+        ...toAccountData(sandbox),
+        replayAccountId: sandbox.id,
+        replayReturnAccountId: returnId,
       });
-      nextId = 1; // Reset ID counter
+      return sandbox.id;
+    },
+
+    // The sandbox is discarded, not archived: its trades were made at historical prices
+    endReplayAccount: () => {
+      const state = get();
+      if (!state.replayAccountId) return;
+
+      const accounts = { ...state.accounts };
+      delete accounts[state.replayAccountId];
+      const activeId = state.activeAccountId === state.replayAccountId
+        ? state.replayReturnAccountId
+        : state.activeAccountId;
+      const active = (activeId && accounts[activeId]) || Object.values(accounts)[0];
+
+      set({
+        accounts,
+        activeAccountId: active.id,
+        ...toAccountData(active),
+        replayAccountId: undefined,
+        replayReturnAccountId: undefined,
+      });
+    },
+  }), {
+    name: STORAGE_KEY,
+    version: STORAGE_VERSION,
+    storage: createPortfolioStorage(),
+    migrate: migratePortfolio,
+    // Actions and the active-account mirror are rebuilt on load; only the accounts are stored
+    // The replay sandbox is never stored
+    partialize: (state): PersistedPortfolio => {
+      const accounts = { ...state.accounts };
+      if (state.replayAccountId) delete accounts[state.replayAccountId];
+      return {
+        accounts,
+        activeAccountId: state.activeAccountId === state.replayAccountId && state.replayReturnAccountId
+          ? state.replayReturnAccountId
+          : state.activeAccountId,
+        archivedAccounts: state.archivedAccounts,
+      };
+    },
+    merge: (persistedState, currentState) => {
+      const persisted = persistedState as PersistedPortfolio | undefined;
+      const active = persisted?.accounts?.[persisted.activeAccountId];
+      if (!persisted || !active) return currentState;
+      return { ...currentState, ...persisted, ...toAccountData(active) };
     },
   }))
 );
@@ -325,4 +768,12 @@ export const useCashBalance = () => usePortfolioStore(state => state.cash);
 export const usePositions = () => usePortfolioStore(state => state.positions);
 export const useOrders = () => usePortfolioStore(state => state.orders);
 export const useTrades = () => usePortfolioStore(state => state.trades);
-export const usePortfolioPerformance = () => usePortfolioStore(state => state.getPortfolioPerformance());
\ No newline at end of file
+export const usePortfolioPerformance = () => usePortfolioStore(
+  useShallow(state => state.getPortfolioPerformance())
+);
+export const useMarginSummary = () => usePortfolioStore(
+  useShallow(state => getMarginSummary(state.cash, state.positions, state.config))
+);
+export const useEquityHistory = () => usePortfolioStore(state => state.equityHistory);
+export const useAccounts = () => usePortfolioStore(state => state.accounts);
+export const useActiveAccountId = () => usePortfolioStore(state => state.activeAccountId);
@@ -0,0 +1,66 @@
+import { create } from 'zustand';
+import { subscribeWithSelector } from 'zustand/middleware';
+
+// 'loading' still shows live data; the replay takes over once its data has loaded
+export type ReplayStatus = 'idle' | 'loading' | 'paused' | 'playing' | 'finished';
+
+interface ReplayState {
+  status: ReplayStatus;
+  session: number;      // Bumped each time a replay is loaded or stopped, so views can reload their data
+  symbols: string[];
+  speed: number;        // Multiple of real time
+  position: number;     // Ticks replayed so far
+  length: number;       // Ticks in the session
+  startTime?: number;   // Market time (ms) of the first and last ticks
+  endTime?: number;
+  currentTime?: number; // Market time (ms) of the last replayed tick
+  error?: string;
+}
+
+interface ReplayStore extends ReplayState {
+  setReplayState: (state: Partial<ReplayState>) => void;
+  resetReplay: () => void;
+}
+
+const INITIAL_STATE: Omit<ReplayState, 'session' | 'speed'> = {
+  status: 'idle',
+  symbols: [],
+  position: 0,
+  length: 0,
+  startTime: undefined,
+  endTime: undefined,
+  currentTime: undefined,
+  error: undefined,
+};
+
+export const useReplayStore = create<ReplayStore>()(
+  subscribeWithSelector((set) => ({
+    ...INITIAL_STATE,
+    session: 0,
+    speed: 1,
+
+    setReplayState: (state: Partial<ReplayState>) => {
+      set(state);
+    },
+
+    // Keeps the chosen speed for the next session
+    resetReplay: () => {
+      set(state => ({ ...INITIAL_STATE, session: state.session + 1 }));
+    },
+  }))
+);
+
+// Whether replayed data, rather than the live feeds, is driving the market store
+export const isReplayActive = (status: ReplayStatus = useReplayStore.getState().status): boolean => {
+  return status !== 'idle' && status !== 'loading';
+};
+
+// The clock simulated trading runs on: the last replayed tick's time during a replay, the wall clock otherwise
+export const getMarketTime = (): number => {
+  const { status, currentTime } = useReplayStore.getState();
+  return isReplayActive(status) && currentTime !== undefined ? currentTime : Date.now();
+};
+
+// Selector hooks
+export const useReplayStatus = () => useReplayStore(state => state.status);
+export const useReplayActive = () => useReplayStore(state => isReplayActive(state.status));
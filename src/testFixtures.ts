@@ -0,0 +1,54 @@
+// Shared builders for the unit tests; each returns a valid default that tests override field by field
+import { OHLCData, Order, PaperAccount, Position } from './types/trading';
+import { DEFAULT_ACCOUNT_CONFIG } from './utils/constants';
+
+export const makeOrder = (overrides: Partial<Order> = {}): Order => ({
+  id: 'order-1',
+  symbol: 'AAPL',
+  side: 'buy',
+  type: 'market',
+  quantity: 10,
+  status: 'pending',
+  timestamp: 0,
+  filledQuantity: 0,
+  ...overrides,
+});
+
+export const makePosition = (overrides: Partial<Position> = {}): Position => ({
+  id: 'position-1',
+  symbol: 'AAPL',
+  side: 'long',
+  quantity: 10,
+  avgPrice: 100,
+  currentPrice: 100,
+  unrealizedPL: 0,
+  realizedPL: 0,
+  timestamp: 0,
+  ...overrides,
+});
+
+export const makeAccount = (overrides: Partial<PaperAccount> = {}): PaperAccount => ({
+  id: 'account-1',
+  createdAt: 0,
+  config: DEFAULT_ACCOUNT_CONFIG,
+  initialCash: 10000,
+  cash: 10000,
+  totalValue: 10000,
+  dayChange: 0,
+  dayChangePercent: 0,
+  positions: [],
+  orders: [],
+  trades: [],
+  lastBorrowAccrual: 0,
+  costBasisMethod: 'FIFO',
+  equityHistory: [],
+  ...overrides,
+});
+
+export const makeBar = (time: number, open: number, high: number, low: number, close: number): OHLCData => ({
+  time,
+  open,
+  high,
+  low,
+  close,
+});
@@ -19,6 +19,10 @@ export interface MarketPrice {
   open24h?: number;    // 24-hour open price
   high24h?: number;    // 24-hour high price
   low24h?: number;     // 24-hour low price
+  
+  // Top of book, from quote feeds that publish it (e.g. forex)
+  bid?: number;
+  ask?: number;
 }
 
 export interface OHLCData {
@@ -40,20 +44,165 @@ export interface Position {
   unrealizedPL: number;
   realizedPL: number;
   timestamp: number;
+  borrowFeesPaid?: number; // Accrued stock-borrow cost while short
+  lots?: TaxLot[];         // Open lots, oldest first
+}
+
+// Which lots a closing trade is matched against when booking realized P&L
+export type CostBasisMethod = 'FIFO' | 'LIFO' | 'AVERAGE';
+
+export interface TaxLot {
+  quantity: number;
+  price: number;
+  timestamp: number;
 }
 
+// GTC: until cancelled, DAY: until the session ends,
+// IOC: fill what is possible now and cancel the rest, FOK: fill completely now or cancel
+export type TimeInForce = 'GTC' | 'DAY' | 'IOC' | 'FOK';
+
 export interface Order {
   id: string;
   symbol: string;
   side: 'buy' | 'sell';
-  type: 'market' | 'limit' | 'stop' | 'stopLimit' | 'bracket';
+  type: 'market' | 'limit' | 'stop' | 'stopLimit' | 'bracket' | 'trailingStop' | 'trailingStopLimit';
   quantity: number;
   price?: number;
   stopPrice?: number;
-  status: 'pending' | 'filled' | 'cancelled' | 'rejected';
+  status: 'pending' | 'partiallyFilled' | 'filled' | 'cancelled' | 'rejected' | 'expired';
   timestamp: number;
-  filledQuantity?: number;
-  filledPrice?: number;
+  timeInForce?: TimeInForce; // Defaults to GTC
+  expiresAt?: number;        // DAY orders: session close (stocks), 17:00 New York (forex) or UTC rollover (crypto)
+  filledQuantity?: number; // Cumulative quantity filled so far
+  filledPrice?: number;    // Volume-weighted average fill price
+  triggered?: boolean;     // Stop price has been crossed (stop / stopLimit)
+  triggeredAt?: number;
+
+  // Trailing stops: the stop follows the best price since placement by a fixed amount or percentage
+  trailAmount?: number;
+  trailPercent?: number;
+  limitOffset?: number;     // Trailing stop-limit: how far the limit sits beyond the stop
+  highWaterMark?: number;   // Best price seen while untriggered: the high for sells, the low for buys
+  
+  // Bracket / OCO linkage
+  takeProfitPrice?: number; // Bracket entry: limit price of the take-profit leg
+  stopLossPrice?: number;   // Bracket entry: stop price of the stop-loss leg
+  parentId?: string;        // Exit legs reference their bracket entry order
+  ocoGroupId?: string;      // Open orders in the same group cancel each other on fill
+  bracketLeg?: 'takeProfit' | 'stopLoss';
+  liquidation?: boolean;    // Placed by the margin check, not by the trader
+  amendments?: OrderAmendment[]; // Cancel-replace history, oldest first
+}
+
+// The order fields a cancel-replace may change
+export type OrderAmendmentFields = Partial<Pick<
+  Order,
+  'quantity' | 'price' | 'stopPrice' | 'trailAmount' | 'trailPercent' | 'limitOffset'
+>>;
+
+export interface OrderAmendment {
+  timestamp: number;
+  previous: OrderAmendmentFields; // Values before the amendment, for the fields that changed
+  changes: OrderAmendmentFields;
+}
+
+// Per-account trading costs and risk limits
+export type FeeLiquidity = 'maker' | 'taker';
+
+export interface FeeItem {
+  label: string;
+  amount: number;
+}
+
+// How one asset class is charged
+export type FeeRule =
+  | { type: 'percent'; rate?: number }  // Share of notional; without a rate the account's commissionRate applies
+  | { type: 'perShare'; perShare: number; minimum: number; maxPercentOfValue: number }
+  | { type: 'makerTaker'; makerBps: number; takerBps: number }
+  | { type: 'spreadMarkup'; markupBps: number };
+
+export interface FeeSchedule {
+  id: string;
+  name: string;
+  description: string;
+  stock: FeeRule;
+  crypto: FeeRule;
+  forex: FeeRule;
+}
+
+// Pre-trade limits; a limit of 0 switches that rule off
+export interface RiskLimits {
+  maxOrderNotional: number;    // Largest single order, in account currency
+  maxPositionNotional: number; // Largest position in one symbol, in account currency
+  maxGrossExposure: number;    // Long plus short market value, as a multiple of equity
+  maxNetExposure: number;      // Long minus short market value, as a multiple of equity
+  maxOpenOrders: number;
+  dailyLossLimit: number;      // Loss since the start of the day, as a fraction of that day's opening equity
+  priceBandPercent: number;    // How far a limit or stop price may sit from the last trade
+}
+
+export type RiskRuleId =
+  | 'shortSelling'
+  | 'buyingPower'
+  | 'positionSize'
+  | 'maxOrderNotional'
+  | 'maxPositionNotional'
+  | 'grossExposure'
+  | 'netExposure'
+  | 'maxOpenOrders'
+  | 'dailyLossLimit'
+  | 'priceBand'
+  | (string & {});              // Custom rules registered at runtime
+
+export interface RiskViolation {
+  ruleId: RiskRuleId;
+  message: string;
+  limit?: number;
+  actual?: number;
+}
+
+export interface AccountConfig {
+  name: string;
+  feeScheduleId: string;
+  commissionRate: number;      // Used by percent rules without their own rate
+  maxPositionSize: number;     // Largest new position as a fraction of equity
+  allowShortSelling: boolean;
+  initialMargin: number;
+  maintenanceMargin: number;
+  riskLimits: RiskLimits;
+}
+
+// Point-in-time account valuation used for the equity curve
+export interface EquitySnapshot {
+  timestamp: number;
+  equity: number;
+  cash: number;
+  grossExposure: number;
+}
+
+// An independent paper-trading account with its own cash, positions and history
+export interface PaperAccount extends Portfolio {
+  id: string;
+  createdAt: number;
+  config: AccountConfig;
+  initialCash: number;
+  lastBorrowAccrual: number;
+  costBasisMethod: CostBasisMethod;
+  equityHistory: EquitySnapshot[];
+  tradingLockedUntil?: number; // Set when the daily loss limit is hit; only reducing orders until then
+}
+
+// A retired paper-trading account, kept when the account is reset or deleted
+export interface ArchivedAccount {
+  id: string;
+  name?: string;
+  archivedAt: number;
+  initialCash: number;
+  finalValue: number;
+  cash: number;
+  positions: Position[];
+  orders: Order[];
+  trades: Trade[];
 }
 
 export interface Portfolio {
@@ -75,11 +224,39 @@ export interface Trade {
   commission: number;
   timestamp: number;
   orderId: string;
+  realizedPL?: number; // Gain or loss booked by the closing part of this trade, before commission
+  liquidity?: FeeLiquidity;
+  fees?: FeeItem[];    // Breakdown of the commission
+}
+
+export interface OrderBookLevel {
+  price: number;
+  quantity: number;
+}
+
+export interface OrderBook {
+  symbol: string;
+  bids: OrderBookLevel[]; // Best (highest) bid first
+  asks: OrderBookLevel[]; // Best (lowest) ask first
+  lastUpdateId: number;   // Exchange sequence number the book is current to
+  timestamp: number;
+}
+
+// A print from the exchange tape, as opposed to a fill in the paper account
+export interface MarketTrade {
+  id: number;
+  symbol: string;
+  price: number;
+  quantity: number;
+  side: 'buy' | 'sell';   // Aggressor: 'buy' when the buyer lifted the offer
+  timestamp: number;
 }
 
 export interface MarketData {
   prices: Map<string, MarketPrice>;
   charts: Map<string, OHLCData[]>;
+  orderBooks: Map<string, OrderBook>;
+  recentTrades: Map<string, MarketTrade[]>;
   subscriptions: Set<string>;
   connectionStatus: 'connecting' | 'connected' | 'disconnected' | 'error';
 }
@@ -92,6 +269,30 @@ export interface TradingSymbol {
   currency: string;
 }
 
+// Market data feeds, routed per symbol by the MarketDataRegistry
+export type MarketDataStatus = MarketData['connectionStatus'];
+export type BarInterval = '1m' | '5m' | '15m' | '30m' | '1h' | '4h' | '1d' | '1w' | '1M';
+
+export interface MarketDataListener {
+  onPrice: (price: MarketPrice) => void;
+  onStatusChange?: (providerId: string, status: MarketDataStatus) => void;
+}
+
+export interface MarketDataProvider {
+  readonly id: string;
+  readonly name: string;
+  readonly assetTypes: TradingSymbol['type'][]; // Served when a symbol has no exchange prefix
+  readonly prefixes: string[];                  // Exchange prefixes served, e.g. ['BINANCE']
+  connect(listener: MarketDataListener): Promise<void>;
+  disconnect(): void;                           // Stop forwarding data; subscriptions are kept
+  reconnect?(): Promise<void>;
+  subscribe(symbol: string): void;              // Market symbols, without the exchange prefix
+  unsubscribe(symbol: string): void;
+  getStatus(): MarketDataStatus;
+  isConfigured?(): boolean;                     // False when a required API key is missing; left out of the combined status
+  fetchHistoricalBars(symbol: string, interval: BarInterval, limit?: number): Promise<OHLCData[]>; // Oldest first, ms
+}
+
 // WebSocket message types
 export interface WSMessage {
   type: string;
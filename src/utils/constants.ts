@@ -1,8 +1,15 @@
+import { AccountConfig, CostBasisMethod } from '../types/trading';
+
 // API Configuration
+// Base URLs can be pointed at the local mock exchange (npm run mock-exchange) to work offline
 export const API_CONFIG = {
+  BINANCE: {
+    REST_URL: process.env.REACT_APP_BINANCE_REST_URL || 'https://api.binance.com/api/v3',
+    WS_URL: process.env.REACT_APP_BINANCE_WS_URL || 'wss://stream.binance.com:9443',
+  },
   FINNHUB: {
-    BASE_URL: 'https://finnhub.io/api/v1',
-    WS_URL: 'wss://ws.finnhub.io',
+    BASE_URL: process.env.REACT_APP_FINNHUB_BASE_URL || 'https://finnhub.io/api/v1',
+    WS_URL: process.env.REACT_APP_FINNHUB_WS_URL || 'wss://ws.finnhub.io',
     API_KEY: process.env.REACT_APP_FINNHUB_API_KEY || '',
   },
   COINGECKO: {
@@ -22,6 +29,9 @@ export const API_CONFIG = {
     WS_URL: 'wss://ws.twelvedata.com/v1/quotes/price',
     API_KEY: process.env.REACT_APP_TWELVE_DATA_API_KEY || '',
   },
+  FRANKFURTER: {
+    BASE_URL: process.env.REACT_APP_FRANKFURTER_URL || 'https://api.frankfurter.app', // ECB reference rates, no key
+  },
   NEWS_API: {
     BASE_URL: 'https://newsapi.org/v2',
     API_KEY: process.env.REACT_APP_NEWS_API_KEY || '',
@@ -40,15 +50,69 @@ export const DEFAULT_SYMBOLS = [
   { symbol: 'OANDA:GBP_USD', name: 'GBP/USD', type: 'forex' as const, currency: 'USD' },
 ];
 
+// A numeric env setting, or the fallback when it is unset or not a number; an explicit 0 is kept
+const envNumber = (value: string | undefined, fallback: number): number => {
+  if (value === undefined || value.trim() === '') return fallback;
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? fallback : parsed;
+};
+
 // Trading configuration
 export const TRADING_CONFIG = {
   INITIAL_CASH: Number(process.env.REACT_APP_INITIAL_CASH) || 100000,
   COMMISSION_RATE: Number(process.env.REACT_APP_COMMISSION_RATE) || 0.001,
+  FEE_SCHEDULE: process.env.REACT_APP_FEE_SCHEDULE || 'flat',                    // See FEE_SCHEDULES in utils/fees
   MAX_POSITION_SIZE: Number(process.env.REACT_APP_MAX_POSITION_SIZE) || 0.1,
+  ALLOW_SHORT_SELLING: process.env.REACT_APP_ALLOW_SHORT_SELLING !== 'false',
+  INITIAL_MARGIN: envNumber(process.env.REACT_APP_INITIAL_MARGIN, 0.5),         // Reg T: 50% of position value
+  MAINTENANCE_MARGIN: envNumber(process.env.REACT_APP_MAINTENANCE_MARGIN, 0.3), // Forced liquidation below this
+  SHORT_BORROW_RATE: envNumber(process.env.REACT_APP_SHORT_BORROW_RATE, 0.03),  // Annual fee on short market value
+  COST_BASIS_METHOD: (process.env.REACT_APP_COST_BASIS_METHOD || 'FIFO') as CostBasisMethod,
+  SLIPPAGE_BPS: envNumber(process.env.REACT_APP_SLIPPAGE_BPS, 5),                 // Used when no order book is available
+  MARKET_IMPACT_BPS: envNumber(process.env.REACT_APP_MARKET_IMPACT_BPS, 10),       // Extra cost at MARKET_IMPACT_NOTIONAL
+  MARKET_IMPACT_NOTIONAL: Number(process.env.REACT_APP_MARKET_IMPACT_NOTIONAL) || 1000000,
+  // Pre-trade risk limits for new accounts; 0 switches a rule off
+  MAX_ORDER_NOTIONAL: envNumber(process.env.REACT_APP_MAX_ORDER_NOTIONAL, 0),
+  MAX_POSITION_NOTIONAL: envNumber(process.env.REACT_APP_MAX_POSITION_NOTIONAL, 0),
+  MAX_GROSS_EXPOSURE: envNumber(process.env.REACT_APP_MAX_GROSS_EXPOSURE, 2),        // Multiple of equity
+  MAX_NET_EXPOSURE: envNumber(process.env.REACT_APP_MAX_NET_EXPOSURE, 0),            // Multiple of equity
+  MAX_OPEN_ORDERS: envNumber(process.env.REACT_APP_MAX_OPEN_ORDERS, 50),
+  DAILY_LOSS_LIMIT: envNumber(process.env.REACT_APP_DAILY_LOSS_LIMIT, 0.1),          // Fraction of the day's opening equity
+  PRICE_BAND_PERCENT: envNumber(process.env.REACT_APP_PRICE_BAND_PERCENT, 10),       // Limit/stop distance from the last trade
   CURRENCY: 'USD',
   DEFAULT_QUANTITY: 100,
   RECONNECT_INTERVAL: Number(process.env.REACT_APP_WS_RECONNECT_INTERVAL) || 5000,
   MAX_RECONNECT_ATTEMPTS: Number(process.env.REACT_APP_WS_MAX_RECONNECT_ATTEMPTS) || 10,
+  CRYPTO_DAY_ROLLOVER_UTC_HOUR: Number(process.env.REACT_APP_CRYPTO_DAY_ROLLOVER_UTC_HOUR) || 0, // DAY orders on crypto expire here
+  FOREX_POLL_INTERVAL: Number(process.env.REACT_APP_FOREX_POLL_INTERVAL) || 60000, // Forex APIs have small free quotas
+  EXCHANGE_RATE_REFRESH_INTERVAL: Number(process.env.REACT_APP_EXCHANGE_RATE_REFRESH_INTERVAL) || 300000, // Display currency rates
+  EXCHANGE_RATE_MAX_AGE: Number(process.env.REACT_APP_EXCHANGE_RATE_MAX_AGE) || 1800000, // Older rates are flagged as stale
+  ORDER_EXPIRY_CHECK_INTERVAL: 15000,
+  EQUITY_SNAPSHOT_INTERVAL: 60000,  // Record the equity curve at most once a minute
+  EQUITY_FULL_RESOLUTION_AGE: 86400000, // Keep every snapshot from the last day
+  EQUITY_DOWNSAMPLE_INTERVAL: 3600000,  // Older ones are thinned to one an hour
+  MAX_EQUITY_SNAPSHOTS: 5000,       // Oldest points are dropped beyond this
+  PORTFOLIO_SAVE_INTERVAL: 5000,    // Longest a portfolio change waits before it is written to localStorage
+};
+
+// Settings for new paper accounts and backtests
+export const DEFAULT_ACCOUNT_CONFIG: AccountConfig = {
+  name: 'Main',
+  feeScheduleId: TRADING_CONFIG.FEE_SCHEDULE,
+  commissionRate: TRADING_CONFIG.COMMISSION_RATE,
+  maxPositionSize: TRADING_CONFIG.MAX_POSITION_SIZE,
+  allowShortSelling: TRADING_CONFIG.ALLOW_SHORT_SELLING,
+  initialMargin: TRADING_CONFIG.INITIAL_MARGIN,
+  maintenanceMargin: TRADING_CONFIG.MAINTENANCE_MARGIN,
+  riskLimits: {
+    maxOrderNotional: TRADING_CONFIG.MAX_ORDER_NOTIONAL,
+    maxPositionNotional: TRADING_CONFIG.MAX_POSITION_NOTIONAL,
+    maxGrossExposure: TRADING_CONFIG.MAX_GROSS_EXPOSURE,
+    maxNetExposure: TRADING_CONFIG.MAX_NET_EXPOSURE,
+    maxOpenOrders: TRADING_CONFIG.MAX_OPEN_ORDERS,
+    dailyLossLimit: TRADING_CONFIG.DAILY_LOSS_LIMIT,
+    priceBandPercent: TRADING_CONFIG.PRICE_BAND_PERCENT,
+  },
 };
 
 // Chart configuration
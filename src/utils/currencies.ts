@@ -1,3 +1,5 @@
+import { TRADING_CONFIG } from './constants';
+
 export interface Currency {
   code: 'USD' | 'EUR' | 'GBP' | 'JPY' | 'CNY';
   symbol: string;
@@ -5,6 +7,17 @@ export interface Currency {
   rate: number; // Exchange rate relative to USD
 }
 
+export type CurrencyCode = Currency['code'];
+
+// A live rate: units of the currency per US dollar, and when it was fetched
+export interface ExchangeRate {
+  rate: number;
+  updatedAt: number;
+  source: 'binance' | 'ecb';
+}
+
+export type ExchangeRates = Partial<Record<CurrencyCode, ExchangeRate>>;
+
 export const CURRENCIES: Record<string, Currency> = {
   USD: {
     code: 'USD',
@@ -16,25 +29,25 @@ export const CURRENCIES: Record<string, Currency> = {
     code: 'EUR',
     symbol: '€',
     name: 'Euro',
-    rate: 0.92  // Example rate, should be fetched from API
+    rate: 0.92  // Fallback until live rates load
   },
   GBP: {
     code: 'GBP',
     symbol: '£',
     name: 'British Pound',
-    rate: 0.79  // Example rate, should be fetched from API
+    rate: 0.79  // Fallback until live rates load
   },
   JPY: {
     code: 'JPY',
     symbol: '¥',
     name: 'Japanese Yen',
-    rate: 147.50  // Example rate, should be fetched from API
+    rate: 147.50  // Fallback until live rates load
   },
   CNY: {
     code: 'CNY',
     symbol: '¥',
     name: 'Chinese Yuan',
-    rate: 7.30  // Example rate, should be fetched from API
+    rate: 7.30  // Fallback until live rates load
   }
 };
 
@@ -64,13 +77,13 @@ export const formatPrice = (price: number, currency: Currency, decimals?: number
   return `$${formattedNumber}`;
 };
 
-// Hook to fetch and update exchange rates
-export const updateExchangeRates = async (): Promise<void> => {
-  try {
-    // In a real app, you would fetch from an exchange rate API
-    // For now, we'll use the static rates defined above
-    console.log('Exchange rates updated');
-  } catch (error) {
-    console.error('Failed to update exchange rates:', error);
-  }
-};
\ No newline at end of file
+// Rates older than the limit convert prices wrongly; USD needs no rate
+export const isRateStale = (
+  code: CurrencyCode,
+  rate: ExchangeRate | undefined,
+  now: number = Date.now(),
+  maxAge: number = TRADING_CONFIG.EXCHANGE_RATE_MAX_AGE
+): boolean => {
+  if (code === 'USD') return false;
+  return !rate || now - rate.updatedAt > maxAge;
+};
@@ -0,0 +1,34 @@
+// CSV / JSON export helpers for trade and order history
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => string | number | boolean | undefined | null;
+}
+
+// Quote fields that would break the CSV layout
+const escapeCsvValue = (value: string | number | boolean | undefined | null): string => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCSV = <T>(rows: T[], columns: ExportColumn<T>[]): string => {
+  const header = columns.map(column => escapeCsvValue(column.header)).join(',');
+  const lines = rows.map(row => columns.map(column => escapeCsvValue(column.value(row))).join(','));
+  return [header, ...lines].join('\n');
+};
+
+export const toJSON = <T>(rows: T[]): string => JSON.stringify(rows, null, 2);
+
+// Trigger a browser download for generated content
+export const downloadFile = (content: string, filename: string, mimeType: string): void => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,50 @@
+import { FEE_SCHEDULES, calculateFeeItems, calculateTradeFees, getFeeSchedule } from './fees';
+
+describe('calculateFeeItems', () => {
+  test('charges percent rules at their own rate or the account commission rate', () => {
+    expect(calculateFeeItems({ type: 'percent' }, 10, 100, 'taker', 0.001)).toEqual([{ label: 'Commission', amount: 1 }]);
+    expect(calculateFeeItems({ type: 'percent', rate: 0 }, 10, 100, 'taker', 0.001)).toEqual([]);
+  });
+
+  test('tops per-share commission up to the minimum and caps it at a share of the trade value', () => {
+    const rule = FEE_SCHEDULES.retail.stock;
+
+    const minimum = calculateFeeItems(rule, 100, 50, 'taker', 0);
+    expect(minimum.reduce((sum, item) => sum + item.amount, 0)).toBeCloseTo(1);
+    expect(minimum[1]).toMatchObject({ label: 'Minimum charge' });
+
+    const plain = calculateFeeItems(rule, 1000, 50, 'taker', 0);
+    expect(plain).toHaveLength(1);
+    expect(plain[0].amount).toBeCloseTo(5);
+
+    // $1 minimum on a $10 trade would be 10%, so the 1% cap wins
+    const capped = calculateFeeItems(rule, 10, 1, 'taker', 0);
+    expect(capped.reduce((sum, item) => sum + item.amount, 0)).toBeCloseTo(0.1);
+  });
+
+  test('charges maker and taker fills at their own rates', () => {
+    const rule = FEE_SCHEDULES.pro.crypto;
+    expect(calculateFeeItems(rule, 1, 10000, 'maker', 0)[0].amount).toBeCloseTo(2);
+    expect(calculateFeeItems(rule, 1, 10000, 'taker', 0)[0].amount).toBeCloseTo(4);
+  });
+
+  test('charges spread markups on both sides of the book alike', () => {
+    const rule = FEE_SCHEDULES.commissionFree.crypto;
+    expect(calculateFeeItems(rule, 1, 10000, 'maker', 0)).toEqual(calculateFeeItems(rule, 1, 10000, 'taker', 0));
+    expect(calculateFeeItems(rule, 1, 10000, 'maker', 0)[0].amount).toBeCloseTo(50);
+  });
+});
+
+describe('calculateTradeFees', () => {
+  test("uses the rule for the symbol's asset class", () => {
+    const schedule = FEE_SCHEDULES.commissionFree;
+    expect(calculateTradeFees(schedule, 'AAPL', 10, 100, 'taker', 0.001).total).toBe(0);
+    expect(calculateTradeFees(schedule, 'BTCUSDT', 1, 10000, 'taker', 0.001).total).toBeCloseTo(50);
+    expect(calculateTradeFees(schedule, 'EUR_USD', 100000, 1, 'taker', 0.001).total).toBeCloseTo(15);
+  });
+
+  test('falls back to the flat schedule for unknown ids', () => {
+    expect(getFeeSchedule('missing')).toBe(FEE_SCHEDULES.flat);
+    expect(getFeeSchedule('pro')).toBe(FEE_SCHEDULES.pro);
+  });
+});
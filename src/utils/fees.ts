@@ -0,0 +1,104 @@
+// Commission and fee schedules per asset class
+import { FeeItem, FeeLiquidity, FeeRule, FeeSchedule } from '../types/trading';
+import { getSymbolType } from './symbolUtils';
+
+export interface TradeFees {
+  total: number;
+  items: FeeItem[];
+}
+
+// Venue profiles an account can be charged under
+export const FEE_SCHEDULES: Record<string, FeeSchedule> = {
+  flat: {
+    id: 'flat',
+    name: 'Flat rate',
+    description: "The account's commission rate on every fill",
+    stock: { type: 'percent' },
+    crypto: { type: 'percent' },
+    forex: { type: 'percent' },
+  },
+  retail: {
+    id: 'retail',
+    name: 'Retail broker',
+    description: '$0.005/share (min $1, max 1%), 10 bps crypto, 1 bps forex markup',
+    stock: { type: 'perShare', perShare: 0.005, minimum: 1, maxPercentOfValue: 0.01 },
+    crypto: { type: 'makerTaker', makerBps: 10, takerBps: 10 },
+    forex: { type: 'spreadMarkup', markupBps: 1 },
+  },
+  pro: {
+    id: 'pro',
+    name: 'Professional',
+    description: '$0.0035/share (min $0.35, max 1%), 2/4 bps maker/taker crypto, 0.2 bps forex markup',
+    stock: { type: 'perShare', perShare: 0.0035, minimum: 0.35, maxPercentOfValue: 0.01 },
+    crypto: { type: 'makerTaker', makerBps: 2, takerBps: 4 },
+    forex: { type: 'spreadMarkup', markupBps: 0.2 },
+  },
+  commissionFree: {
+    id: 'commissionFree',
+    name: 'Commission-free app',
+    description: 'No stock commission; paid through 50 bps crypto and 1.5 bps forex markups',
+    stock: { type: 'percent', rate: 0 },
+    crypto: { type: 'spreadMarkup', markupBps: 50 },
+    forex: { type: 'spreadMarkup', markupBps: 1.5 },
+  },
+};
+
+export const getFeeSchedule = (id: string): FeeSchedule => FEE_SCHEDULES[id] || FEE_SCHEDULES.flat;
+
+/**
+ * Fees for one fill under a single asset-class rule
+ * @param commissionRate - Fallback rate for percent rules without their own
+ */
+export const calculateFeeItems = (
+  rule: FeeRule,
+  quantity: number,
+  price: number,
+  liquidity: FeeLiquidity,
+  commissionRate: number
+): FeeItem[] => {
+  const notional = quantity * price;
+
+  switch (rule.type) {
+    case 'percent': {
+      const amount = notional * (rule.rate ?? commissionRate);
+      return amount > 0 ? [{ label: 'Commission', amount }] : [];
+    }
+
+    case 'perShare': {
+      const base = quantity * rule.perShare;
+      const cap = notional * rule.maxPercentOfValue;
+      // The cap wins over the minimum on very small trades
+      const charged = Math.min(Math.max(base, rule.minimum), cap);
+      const items: FeeItem[] = [{ label: `Commission (${quantity} × $${rule.perShare})`, amount: base }];
+      if (charged > base) items.push({ label: 'Minimum charge', amount: charged - base });
+      if (charged < base) items.push({ label: 'Cap adjustment', amount: charged - base });
+      return items;
+    }
+
+    case 'makerTaker': {
+      const bps = liquidity === 'maker' ? rule.makerBps : rule.takerBps;
+      return [{ label: `${liquidity === 'maker' ? 'Maker' : 'Taker'} fee (${bps} bps)`, amount: notional * bps / 10000 }];
+    }
+
+    case 'spreadMarkup':
+      return [{ label: `Spread markup (${rule.markupBps} bps)`, amount: notional * rule.markupBps / 10000 }];
+
+    default:
+      return [];
+  }
+};
+
+/**
+ * Fees for a fill, using the rule for the symbol's asset class
+ */
+export const calculateTradeFees = (
+  schedule: FeeSchedule,
+  symbol: string,
+  quantity: number,
+  price: number,
+  liquidity: FeeLiquidity,
+  commissionRate: number
+): TradeFees => {
+  const items = calculateFeeItems(schedule[getSymbolType(symbol)], quantity, price, liquidity, commissionRate);
+  return { total: items.reduce((sum, item) => sum + item.amount, 0), items };
+};
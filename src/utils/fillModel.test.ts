@@ -0,0 +1,71 @@
+import { Order, OrderBook } from '../types/trading';
+import { makeOrder } from '../testFixtures';
+import { FillModelConfig, estimateImpactFill, getOrderLimitPrice, simulateFill, walkOrderBook } from './fillModel';
+
+const MODEL: FillModelConfig = { slippageBps: 5, impactBps: 10, impactNotional: 10000 };
+
+const BOOK: OrderBook = {
+  symbol: 'BTCUSDT',
+  bids: [{ price: 99, quantity: 1 }, { price: 98, quantity: 2 }],
+  asks: [{ price: 101, quantity: 1 }, { price: 102, quantity: 2 }],
+  lastUpdateId: 1,
+  timestamp: 0,
+};
+
+describe('walkOrderBook', () => {
+  test('takes levels best price first at a volume-weighted average', () => {
+    expect(walkOrderBook(BOOK.asks, 'buy', 2)).toEqual({ price: 101.5, quantity: 2, levelsConsumed: 2, source: 'orderBook' });
+    expect(walkOrderBook(BOOK.bids, 'sell', 1)).toEqual({ price: 99, quantity: 1, levelsConsumed: 1, source: 'orderBook' });
+  });
+
+  test('stops at the limit price or when the book runs out', () => {
+    expect(walkOrderBook(BOOK.asks, 'buy', 3, 101)?.quantity).toBe(1);
+    expect(walkOrderBook(BOOK.asks, 'buy', 10)?.quantity).toBe(3);
+    expect(walkOrderBook(BOOK.asks, 'buy', 1, 100)).toBeUndefined();
+  });
+});
+
+describe('estimateImpactFill', () => {
+  test('adds slippage plus square-root impact against the order', () => {
+    // 10000 notional: 5 bps slippage + 10 bps impact
+    expect(estimateImpactFill('buy', 100, 100, MODEL)?.price).toBeCloseTo(100.15);
+    expect(estimateImpactFill('sell', 100, 100, MODEL)?.price).toBeCloseTo(99.85);
+    // Four times the size doubles the impact
+    expect(estimateImpactFill('buy', 400, 100, MODEL)?.price).toBeCloseTo(100.25);
+  });
+
+  test('never fills a marketable limit beyond its limit', () => {
+    expect(estimateImpactFill('buy', 100, 100, MODEL, 100.1)?.price).toBe(100.1);
+    expect(estimateImpactFill('buy', 100, 0, MODEL)).toBeUndefined();
+  });
+});
+
+describe('simulateFill', () => {
+  test('walks the book when there is depth on the side taken', () => {
+    expect(simulateFill({ side: 'buy', quantity: 2, referencePrice: 100, book: BOOK }, MODEL)?.source).toBe('orderBook');
+  });
+
+  test('prices off the quoted touch with impact only when there is no depth', () => {
+    const fill = simulateFill({ side: 'buy', quantity: 100, referencePrice: 100, ask: 100 }, MODEL);
+    expect(fill?.source).toBe('impactModel');
+    expect(fill?.price).toBeCloseTo(100.1);
+  });
+
+  test('falls back to the last price with slippage', () => {
+    const empty = { ...BOOK, bids: [], asks: [] };
+    expect(simulateFill({ side: 'sell', quantity: 100, referencePrice: 100, book: empty }, MODEL)?.price).toBeCloseTo(99.85);
+  });
+});
+
+describe('getOrderLimitPrice', () => {
+  const order = (type: Order['type']) => makeOrder({ type, price: 100 });
+
+  test('only priced order types carry a limit', () => {
+    expect(getOrderLimitPrice(order('limit'))).toBe(100);
+    expect(getOrderLimitPrice(order('stopLimit'))).toBe(100);
+    expect(getOrderLimitPrice(order('trailingStopLimit'))).toBe(100);
+    expect(getOrderLimitPrice(order('bracket'))).toBe(100);
+    expect(getOrderLimitPrice(order('market'))).toBeUndefined();
+    expect(getOrderLimitPrice(order('stop'))).toBeUndefined();
+  });
+});
@@ -0,0 +1,128 @@
+// Fill simulation: walk the order book when we have one, otherwise apply a slippage/impact estimate
+import { Order, OrderBook, OrderBookLevel } from '../types/trading';
+import { TRADING_CONFIG } from './constants';
+import { QUANTITY_EPSILON } from './orderMatching';
+
+export interface FillModelConfig {
+  slippageBps: number;     // Flat cost of crossing the spread when there is no book
+  impactBps: number;       // Extra cost for an order of impactNotional, scaled by the square root of size
+  impactNotional: number;
+}
+
+export interface SimulatedFill {
+  price: number;           // Volume-weighted average price across the levels taken
+  quantity: number;        // May be less than requested when depth or the limit price runs out
+  levelsConsumed: number;
+  source: 'orderBook' | 'impactModel';
+}
+
+export interface FillRequest {
+  side: Order['side'];
+  quantity: number;
+  referencePrice: number;  // Last traded price, used when there is no book
+  limitPrice?: number;     // Worst price the order accepts
+  book?: OrderBook;
+  bid?: number;            // Quoted top of book, used when there is no depth
+  ask?: number;
+}
+
+export const DEFAULT_FILL_MODEL: FillModelConfig = {
+  slippageBps: TRADING_CONFIG.SLIPPAGE_BPS,
+  impactBps: TRADING_CONFIG.MARKET_IMPACT_BPS,
+  impactNotional: TRADING_CONFIG.MARKET_IMPACT_NOTIONAL,
+};
+
+// Buys take the asks, sells hit the bids
+const isWithinLimit = (side: Order['side'], price: number, limitPrice?: number): boolean => {
+  if (limitPrice === undefined) return true;
+  return side === 'buy' ? price <= limitPrice : price >= limitPrice;
+};
+
+/**
+ * Takes liquidity level by level until the quantity is filled, the book runs out or the limit is reached
+ * @param levels - The opposite side of the book, best price first
+ * @returns The volume-weighted fill, or undefined when nothing is available
+ */
+export const walkOrderBook = (
+  levels: OrderBookLevel[],
+  side: Order['side'],
+  quantity: number,
+  limitPrice?: number
+): SimulatedFill | undefined => {
+  let remaining = quantity;
+  let filled = 0;
+  let notional = 0;
+  let levelsConsumed = 0;
+
+  for (const level of levels) {
+    if (remaining <= QUANTITY_EPSILON || !isWithinLimit(side, level.price, limitPrice)) break;
+    const take = Math.min(remaining, level.quantity);
+    filled += take;
+    notional += take * level.price;
+    remaining -= take;
+    levelsConsumed++;
+  }
+
+  if (filled <= QUANTITY_EPSILON) return undefined;
+  return { price: notional / filled, quantity: filled, levelsConsumed, source: 'orderBook' };
+};
+
+/**
+ * Estimates a fill price without depth data using a square-root market impact model
+ */
+export const estimateImpactFill = (
+  side: Order['side'],
+  quantity: number,
+  referencePrice: number,
+  config: FillModelConfig = DEFAULT_FILL_MODEL,
+  limitPrice?: number
+): SimulatedFill | undefined => {
+  if (!(referencePrice > 0) || quantity <= QUANTITY_EPSILON) return undefined;
+
+  const notional = quantity * referencePrice;
+  const costBps = config.slippageBps + config.impactBps * Math.sqrt(notional / config.impactNotional);
+  const direction = side === 'buy' ? 1 : -1;
+  let price = referencePrice * (1 + direction * costBps / 10000);
+
+  // A marketable limit never fills worse than its limit
+  if (limitPrice !== undefined && !isWithinLimit(side, price, limitPrice)) {
+    price = limitPrice;
+  }
+
+  return { price, quantity, levelsConsumed: 0, source: 'impactModel' };
+};
+
+/**
+ * Simulates how much of an order would fill right now, and at what average price
+ */
+export const simulateFill = (
+  request: FillRequest,
+  config: FillModelConfig = DEFAULT_FILL_MODEL
+): SimulatedFill | undefined => {
+  const { side, quantity, referencePrice, limitPrice, book, bid, ask } = request;
+  const levels = book ? (side === 'buy' ? book.asks : book.bids) : [];
+
+  if (levels.length > 0) {
+    return walkOrderBook(levels, side, quantity, limitPrice);
+  }
+
+  // A quoted touch already prices in the spread, so only market impact is added on top of it
+  const touch = side === 'buy' ? ask : bid;
+  if (touch !== undefined && touch > 0) {
+    return estimateImpactFill(side, quantity, touch, { ...config, slippageBps: 0 }, limitPrice);
+  }
+  return estimateImpactFill(side, quantity, referencePrice, config, limitPrice);
+};
+
+// Limit, stop-limit (fixed or trailing) and priced bracket entries carry a worst acceptable price; market and stop orders do not
+export const getOrderLimitPrice = (order: Order): number | undefined => {
+  switch (order.type) {
+    case 'limit':
+    case 'stopLimit':
+    case 'trailingStopLimit':
+    case 'bracket':
+      return order.price;
+    default:
+      return undefined;
+  }
+};
@@ -0,0 +1,81 @@
+import {
+  formatForexPrice,
+  formatPips,
+  getPipSize,
+  getPipValue,
+  getSpreadPips,
+  lotsToUnits,
+  parseCurrencyPair,
+  unitsToLots,
+} from './forex';
+import { getForexMarketStatus, getNextForexRollover } from './marketHours';
+
+describe('currency pairs', () => {
+  test('parses every supported pair notation', () => {
+    ['OANDA:EUR_USD', 'EUR_USD', 'EUR/USD', 'EURUSD'].forEach(symbol =>
+      expect(parseCurrencyPair(symbol)).toEqual({ base: 'EUR', quote: 'USD' })
+    );
+    expect(parseCurrencyPair('AAPL')).toBeUndefined();
+  });
+});
+
+describe('pips', () => {
+  test('uses 0.01 pips for yen-quoted pairs and 0.0001 otherwise', () => {
+    expect(getPipSize('EUR_USD')).toBe(0.0001);
+    expect(getPipSize('USD_JPY')).toBe(0.01);
+    expect(formatForexPrice(1.083451, 'EUR_USD')).toBe('1.08345');
+    expect(formatForexPrice(151.2345, 'USD_JPY')).toBe('151.234');
+  });
+
+  test('converts price differences and spreads to pips', () => {
+    expect(formatPips(0.00125, 'EUR_USD')).toBe('+12.5 pips');
+    expect(formatPips(-0.5, 'USD_JPY')).toBe('-50.0 pips');
+    expect(getSpreadPips(1.0834, 1.08352, 'EUR_USD')).toBeCloseTo(1.2);
+  });
+
+  test('values a pip in USD for USD-quoted and USD-based pairs', () => {
+    expect(getPipValue('EUR_USD', 100000, 1.08)).toBeCloseTo(10);
+    expect(getPipValue('USD_JPY', 100000, 150)).toBeCloseTo(1000 / 150);
+    // Crosses stay in the quote currency
+    expect(getPipValue('EUR_GBP', 100000, 0.85)).toBeCloseTo(10);
+  });
+});
+
+describe('lots', () => {
+  test('converts between lots and units for each lot size', () => {
+    expect(lotsToUnits(1)).toBe(100000);
+    expect(lotsToUnits(0.01)).toBe(1000);
+    expect(lotsToUnits(2.5, 'mini')).toBe(25000);
+    expect(lotsToUnits(0.333, 'micro')).toBe(333);
+    expect(unitsToLots(25000)).toBe(0.25);
+    expect(unitsToLots(25000, 'micro')).toBe(25);
+  });
+});
+
+// January dates, so New York is on EST (UTC-5) and 17:00 there is 22:00 UTC
+describe('24x5 sessions', () => {
+  test('stays open from the Sunday open through to the Friday close', () => {
+    const midweek = getForexMarketStatus(new Date('2024-01-03T12:00:00Z'));
+    expect(midweek.isOpen).toBe(true);
+    expect(midweek.nextClose?.toISOString()).toBe('2024-01-05T22:00:00.000Z');
+
+    expect(getForexMarketStatus(new Date('2024-01-04T23:30:00Z')).isOpen).toBe(true);
+    expect(getForexMarketStatus(new Date('2024-01-05T21:59:00Z')).isOpen).toBe(true);
+    expect(getForexMarketStatus(new Date('2024-01-07T22:00:00Z')).isOpen).toBe(true);
+  });
+
+  test('is closed over the weekend until Sunday 17:00 New York time', () => {
+    ['2024-01-05T22:00:00Z', '2024-01-06T12:00:00Z', '2024-01-07T21:59:00Z'].forEach(time => {
+      const status = getForexMarketStatus(new Date(time));
+      expect(status.isOpen).toBe(false);
+      expect(status.nextOpen?.toISOString()).toBe('2024-01-07T22:00:00.000Z');
+    });
+  });
+
+  test('rolls over daily at 17:00 New York time and skips the weekend', () => {
+    expect(getNextForexRollover(new Date('2024-01-03T12:00:00Z')).toISOString()).toBe('2024-01-03T22:00:00.000Z');
+    expect(getNextForexRollover(new Date('2024-01-03T22:00:00Z')).toISOString()).toBe('2024-01-04T22:00:00.000Z');
+    expect(getNextForexRollover(new Date('2024-01-05T22:30:00Z')).toISOString()).toBe('2024-01-08T22:00:00.000Z');
+    expect(getNextForexRollover(new Date('2024-01-07T23:00:00Z')).toISOString()).toBe('2024-01-08T22:00:00.000Z');
+  });
+});
@@ -0,0 +1,94 @@
+// Forex helpers: currency pair parsing, pip-based formatting and lot sizing
+import { toMarketSymbol } from './symbolUtils';
+
+export type LotType = 'standard' | 'mini' | 'micro';
+
+export interface CurrencyPair {
+  base: string;  // e.g. 'EUR'
+  quote: string; // e.g. 'USD'
+}
+
+// Units of the base currency in one lot
+export const LOT_SIZES: Record<LotType, number> = {
+  standard: 100000,
+  mini: 10000,
+  micro: 1000,
+};
+
+export const LOT_LABELS: Record<LotType, string> = {
+  standard: 'Standard (100k)',
+  mini: 'Mini (10k)',
+  micro: 'Micro (1k)',
+};
+
+// Smallest lot increment brokers usually accept
+export const LOT_STEP = 0.01;
+
+/**
+ * Splits a pair symbol into its currencies
+ * Accepts 'OANDA:EUR_USD', 'EUR_USD', 'EUR/USD' and 'EURUSD'
+ */
+export const parseCurrencyPair = (symbol: string): CurrencyPair | undefined => {
+  const match = toMarketSymbol(symbol).toUpperCase().match(/^([A-Z]{3})[_/]?([A-Z]{3})$/);
+  return match ? { base: match[1], quote: match[2] } : undefined;
+};
+
+/**
+ * Pip size for a pair: 0.01 for yen-quoted pairs, 0.0001 otherwise
+ */
+export const getPipSize = (symbol: string): number => {
+  return parseCurrencyPair(symbol)?.quote === 'JPY' ? 0.01 : 0.0001;
+};
+
+// Prices are quoted to a tenth of a pip (a "pipette")
+export const getForexPriceDecimals = (symbol: string): number => {
+  return Math.round(-Math.log10(getPipSize(symbol))) + 1;
+};
+
+/**
+ * Formats a rate to pipette precision, e.g. 1.08345 or 151.234
+ */
+export const formatForexPrice = (price: number, symbol: string): string => {
+  return price.toFixed(getForexPriceDecimals(symbol));
+};
+
+/**
+ * Converts a price difference to pips
+ */
+export const toPips = (priceDifference: number, symbol: string): number => {
+  return priceDifference / getPipSize(symbol);
+};
+
+/**
+ * Formats a price difference in pips, e.g. '+12.5 pips'
+ */
+export const formatPips = (priceDifference: number, symbol: string): string => {
+  const pips = toPips(priceDifference, symbol);
+  return `${pips >= 0 ? '+' : ''}${pips.toFixed(1)} pips`;
+};
+
+/**
+ * Spread between bid and ask in pips
+ */
+export const getSpreadPips = (bid: number, ask: number, symbol: string): number => {
+  return toPips(ask - bid, symbol);
+};
+
+export const lotsToUnits = (lots: number, lotType: LotType = 'standard'): number => {
+  return Math.round(lots * LOT_SIZES[lotType]);
+};
+
+export const unitsToLots = (units: number, lotType: LotType = 'standard'): number => {
+  return units / LOT_SIZES[lotType];
+};
+
+/**
+ * Value of one pip for a position, in USD
+ * USD-quoted pairs are exact; USD-based pairs convert at the current rate; crosses are left in the quote currency
+ */
+export const getPipValue = (symbol: string, units: number, price: number): number => {
+  const pipValueInQuote = units * getPipSize(symbol);
+  const pair = parseCurrencyPair(symbol);
+  if (pair?.base === 'USD' && price > 0) return pipValueInQuote / price;
+  return pipValueInQuote;
+};
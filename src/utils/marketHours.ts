@@ -1,4 +1,7 @@
 // Market hours utilities
+import { TradingSymbol } from '../types/trading';
+import { TRADING_CONFIG } from './constants';
+
 export interface MarketHours {
   isOpen: boolean;
   nextOpen?: Date;
@@ -6,10 +9,13 @@ export interface MarketHours {
   timezone: string;
 }
 
-export const getMarketStatus = (): MarketHours => {
-  const now = new Date();
+export const getMarketStatus = (now: Date = new Date()): MarketHours => {
   const easternTime = new Date(now.toLocaleString("en-US", {timeZone: "America/New_York"}));
   
+  // easternTime carries New York wall-clock time in the local zone; this offset maps it back to real instants
+  const easternOffset = Math.round((easternTime.getTime() - now.getTime()) / 60000) * 60000;
+  const toInstant = (wallClock: Date): Date => new Date(wallClock.getTime() - easternOffset);
+  
   const day = easternTime.getDay(); // 0 = Sunday, 1 = Monday, ..., 6 = Saturday
   const hour = easternTime.getHours();
   const minute = easternTime.getMinutes();
@@ -60,12 +66,99 @@ export const getMarketStatus = (): MarketHours => {
   
   return {
     isOpen,
-    nextOpen,
-    nextClose,
+    nextOpen: nextOpen && toInstant(nextOpen),
+    nextClose: nextClose && toInstant(nextClose),
     timezone: 'EST'
   };
 };
 
+// Forex trades 24 hours a day from Sunday 17:00 to Friday 17:00 New York time, rolling over daily at 17:00
+const FOREX_ROLLOVER_HOUR = 17;
+
+/**
+ * Gets the forex session status: open around the clock from the Sunday open to the Friday close
+ */
+export const getForexMarketStatus = (now: Date = new Date()): MarketHours => {
+  const easternTime = new Date(now.toLocaleString("en-US", {timeZone: "America/New_York"}));
+  const easternOffset = Math.round((easternTime.getTime() - now.getTime()) / 60000) * 60000;
+  const toInstant = (wallClock: Date): Date => new Date(wallClock.getTime() - easternOffset);
+  
+  const day = easternTime.getDay();
+  const beforeRollover = easternTime.getHours() < FOREX_ROLLOVER_HOUR;
+  
+  // Closed from Friday 17:00 through Saturday until Sunday 17:00
+  const isOpen = !(day === 6 || (day === 5 && !beforeRollover) || (day === 0 && beforeRollover));
+  
+  if (isOpen) {
+    // Closes on Friday at the rollover
+    const nextClose = new Date(easternTime);
+    nextClose.setDate(nextClose.getDate() + (5 - day));
+    nextClose.setHours(FOREX_ROLLOVER_HOUR, 0, 0, 0);
+    return { isOpen, nextClose: toInstant(nextClose), timezone: 'EST' };
+  }
+  
+  // Opens on Sunday at the rollover
+  const nextOpen = new Date(easternTime);
+  nextOpen.setDate(nextOpen.getDate() + ((7 - day) % 7));
+  nextOpen.setHours(FOREX_ROLLOVER_HOUR, 0, 0, 0);
+  return { isOpen, nextOpen: toInstant(nextOpen), timezone: 'EST' };
+};
+
+/**
+ * Gets the next forex trading-day rollover (17:00 New York), skipping the weekend close
+ */
+export const getNextForexRollover = (now: Date = new Date()): Date => {
+  const easternTime = new Date(now.toLocaleString("en-US", {timeZone: "America/New_York"}));
+  const easternOffset = Math.round((easternTime.getTime() - now.getTime()) / 60000) * 60000;
+  
+  const rollover = new Date(easternTime);
+  rollover.setHours(FOREX_ROLLOVER_HOUR, 0, 0, 0);
+  if (rollover.getTime() <= easternTime.getTime()) {
+    rollover.setDate(rollover.getDate() + 1);
+  }
+  // Friday's rollover is the weekly close and Sunday 17:00 is the open, so after Friday the next one is Monday's
+  while (rollover.getDay() === 6 || rollover.getDay() === 0) {
+    rollover.setDate(rollover.getDate() + 1);
+  }
+  return new Date(rollover.getTime() - easternOffset);
+};
+
+/**
+ * Gets the next crypto trading-day rollover (crypto trades 24/7, so "DAY" ends at a fixed UTC hour)
+ */
+export const getNextCryptoRollover = (
+  now: Date = new Date(),
+  rolloverHourUtc: number = TRADING_CONFIG.CRYPTO_DAY_ROLLOVER_UTC_HOUR
+): Date => {
+  const rollover = new Date(now);
+  rollover.setUTCHours(rolloverHourUtc, 0, 0, 0);
+  if (rollover.getTime() <= now.getTime()) {
+    rollover.setUTCDate(rollover.getUTCDate() + 1);
+  }
+  return rollover;
+};
+
+/**
+ * Gets the time a DAY order expires for the given asset type
+ * Stocks expire at the close of the current (or next) regular session, forex at the 17:00 New York rollover
+ */
+export const getDayOrderExpiry = (assetType: TradingSymbol['type'], now: Date = new Date()): number => {
+  if (assetType === 'stock') {
+    const status = getMarketStatus(now);
+    if (status.isOpen && status.nextClose) {
+      return status.nextClose.getTime();
+    }
+    // Placed outside the session: good for the whole next session
+    if (status.nextOpen) {
+      return status.nextOpen.getTime() + (16 * 60 - (9 * 60 + 30)) * 60 * 1000;
+    }
+  }
+  if (assetType === 'forex') {
+    return getNextForexRollover(now).getTime();
+  }
+  return getNextCryptoRollover(now).getTime();
+};
+
 export const formatTimeUntil = (date: Date): string => {
   const now = new Date();
   const diff = date.getTime() - now.getTime();
@@ -0,0 +1,52 @@
+import { applyDepthUpdates, getCumulativeDepth, getSpread, parseDepthLevels } from './orderBook';
+
+const BIDS = [
+  { price: 100, quantity: 1 },
+  { price: 99, quantity: 2 },
+];
+const ASKS = [
+  { price: 101, quantity: 1 },
+  { price: 102, quantity: 2 },
+];
+
+describe('applyDepthUpdates', () => {
+  test('parses exchange string pairs', () => {
+    expect(parseDepthLevels([['100.5', '0.25']])).toEqual([{ price: 100.5, quantity: 0.25 }]);
+  });
+
+  test('sets, adds and removes levels, keeping bids descending and asks ascending', () => {
+    const bids = applyDepthUpdates(BIDS, [
+      { price: 100, quantity: 0 },
+      { price: 99, quantity: 5 },
+      { price: 99.5, quantity: 3 },
+    ], 'bids', 10);
+    expect(bids).toEqual([
+      { price: 99.5, quantity: 3 },
+      { price: 99, quantity: 5 },
+    ]);
+
+    const asks = applyDepthUpdates(ASKS, [{ price: 100.5, quantity: 4 }], 'asks', 10);
+    expect(asks.map(level => level.price)).toEqual([100.5, 101, 102]);
+  });
+
+  test('trims to the level limit and ignores removals of unknown levels', () => {
+    expect(applyDepthUpdates(ASKS, [{ price: 100.5, quantity: 4 }], 'asks', 2).map(level => level.price))
+      .toEqual([100.5, 101]);
+    expect(applyDepthUpdates(BIDS, [{ price: 50, quantity: 0 }], 'bids', 10)).toEqual(BIDS);
+  });
+});
+
+describe('depth helpers', () => {
+  test('accumulates quantity from the top of the book', () => {
+    expect(getCumulativeDepth(BIDS, 5).map(row => row.total)).toEqual([1, 3]);
+    expect(getCumulativeDepth(BIDS, 1)).toHaveLength(1);
+  });
+
+  test('measures the spread around the mid price', () => {
+    const spread = getSpread({ symbol: 'BTCUSDT', bids: BIDS, asks: ASKS, lastUpdateId: 1, timestamp: 0 });
+    expect(spread?.spread).toBe(1);
+    expect(spread?.midPrice).toBe(100.5);
+    expect(spread?.spreadPercent).toBeCloseTo(100 / 100.5);
+    expect(getSpread({ symbol: 'BTCUSDT', bids: [], asks: ASKS, lastUpdateId: 1, timestamp: 0 })).toBeNull();
+  });
+});
@@ -0,0 +1,62 @@
+// Local order book maintenance and depth helpers
+import { OrderBook, OrderBookLevel } from '../types/trading';
+
+// Exchange depth levels arrive as [price, quantity] string pairs
+export type RawDepthLevel = [string, string];
+
+export interface DepthRow extends OrderBookLevel {
+  total: number;           // Cumulative quantity from the top of the book
+}
+
+export const parseDepthLevels = (levels: RawDepthLevel[]): OrderBookLevel[] => {
+  return levels.map(([price, quantity]) => ({ price: parseFloat(price), quantity: parseFloat(quantity) }));
+};
+
+/**
+ * Applies absolute level updates to one side of the book; a zero quantity removes the level
+ * @param levels - Current levels, best price first
+ * @param updates - New quantities per price level
+ * @param side - Bids sort descending, asks ascending
+ * @param maxLevels - Levels kept after the update
+ */
+export const applyDepthUpdates = (
+  levels: OrderBookLevel[],
+  updates: OrderBookLevel[],
+  side: 'bids' | 'asks',
+  maxLevels: number
+): OrderBookLevel[] => {
+  if (updates.length === 0) return levels;
+
+  const byPrice = new Map<number, number>();
+  levels.forEach(level => byPrice.set(level.price, level.quantity));
+  updates.forEach(update => {
+    if (update.quantity > 0) {
+      byPrice.set(update.price, update.quantity);
+    } else {
+      byPrice.delete(update.price);
+    }
+  });
+
+  return Array.from(byPrice.entries())
+    .map(([price, quantity]) => ({ price, quantity }))
+    .sort((a, b) => side === 'bids' ? b.price - a.price : a.price - b.price)
+    .slice(0, maxLevels);
+};
+
+export const getCumulativeDepth = (levels: OrderBookLevel[], count: number): DepthRow[] => {
+  let total = 0;
+  return levels.slice(0, count).map(level => {
+    total += level.quantity;
+    return { ...level, total };
+  });
+};
+
+export const getSpread = (book: OrderBook): { spread: number; spreadPercent: number; midPrice: number } | null => {
+  const bestBid = book.bids[0];
+  const bestAsk = book.asks[0];
+  if (!bestBid || !bestAsk) return null;
+
+  const midPrice = (bestBid.price + bestAsk.price) / 2;
+  const spread = bestAsk.price - bestBid.price;
+  return { spread, spreadPercent: midPrice > 0 ? (spread / midPrice) * 100 : 0, midPrice };
+};
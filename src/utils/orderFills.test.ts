@@ -0,0 +1,82 @@
+import { Order, PaperAccount } from '../types/trading';
+import { makeAccount, makeOrder, makePosition } from '../testFixtures';
+import { DEFAULT_ACCOUNT_CONFIG } from './constants';
+import { applyOrderFill } from './orderFills';
+
+const FLAT_CONFIG = { ...DEFAULT_ACCOUNT_CONFIG, feeScheduleId: 'flat', commissionRate: 0.001 };
+
+const limitOrder = (overrides: Partial<Order> = {}): Order => makeOrder({ type: 'limit', price: 100, ...overrides });
+
+const accountWith = (orders: Order[], overrides: Partial<PaperAccount> = {}): PaperAccount =>
+  makeAccount({ config: FLAT_CONFIG, orders, ...overrides });
+
+let nextId = 0;
+const createId = () => `id-${nextId++}`;
+
+describe('applyOrderFill', () => {
+  test('fills the remaining quantity by default and charges the schedule commission', () => {
+    const result = applyOrderFill(accountWith([limitOrder()]), 'order-1', 100, undefined, 'maker', 5, createId);
+
+    expect(result?.orders[0]).toMatchObject({ status: 'filled', filledQuantity: 10, filledPrice: 100 });
+    expect(result?.trade).toMatchObject({ quantity: 10, price: 100, commission: 1, liquidity: 'maker' });
+    expect(result?.cash).toBe(10000 - 1000 - 1);
+    expect(result?.positions[0]).toMatchObject({ side: 'long', quantity: 10 });
+  });
+
+  test('accumulates partial fills at a volume-weighted average price', () => {
+    const first = applyOrderFill(accountWith([limitOrder()]), 'order-1', 100, 4, 'taker', 5, createId)!;
+    expect(first.orders[0]).toMatchObject({ status: 'partiallyFilled', filledQuantity: 4 });
+
+    const account = accountWith(first.orders, { cash: first.cash, positions: first.positions });
+    const second = applyOrderFill(account, 'order-1', 110, 6, 'taker', 6, createId)!;
+    expect(second.orders[0].status).toBe('filled');
+    expect(second.orders[0].filledPrice).toBeCloseTo((4 * 100 + 6 * 110) / 10);
+  });
+
+  test('never fills beyond the order quantity or a closed order', () => {
+    const result = applyOrderFill(accountWith([limitOrder()]), 'order-1', 100, 25, 'taker', 5, createId);
+    expect(result?.trade.quantity).toBe(10);
+
+    expect(applyOrderFill(accountWith([limitOrder({ status: 'cancelled' })]), 'order-1', 100, 5, 'taker', 5, createId))
+      .toBeUndefined();
+  });
+
+  test("books realized P&L with the account's cost basis method", () => {
+    const position = makePosition({
+      quantity: 20,
+      avgPrice: 110,
+      currentPrice: 110,
+      lots: [
+        { quantity: 10, price: 100, timestamp: 1 },
+        { quantity: 10, price: 120, timestamp: 2 },
+      ],
+    });
+    const sell = makeOrder({ side: 'sell' });
+
+    const fifo = applyOrderFill(accountWith([sell], { positions: [position] }), 'order-1', 130, undefined, 'taker', 5, createId);
+    expect(fifo?.trade.realizedPL).toBe(300);
+
+    const lifo = applyOrderFill(
+      accountWith([sell], { positions: [position], costBasisMethod: 'LIFO' }), 'order-1', 130, undefined, 'taker', 5, createId
+    );
+    expect(lifo?.trade.realizedPL).toBe(100);
+  });
+
+  test('arms bracket exit legs for the filled quantity', () => {
+    const entry = limitOrder({ type: 'bracket', takeProfitPrice: 120, stopLossPrice: 90 });
+    const result = applyOrderFill(accountWith([entry]), 'order-1', 100, 4, 'maker', 5, createId)!;
+
+    const legs = result.orders.filter(order => order.parentId === 'order-1');
+    expect(legs).toHaveLength(2);
+    expect(legs.find(leg => leg.bracketLeg === 'takeProfit')).toMatchObject({ side: 'sell', type: 'limit', price: 120, quantity: 4 });
+    expect(legs.find(leg => leg.bracketLeg === 'stopLoss')).toMatchObject({ side: 'sell', type: 'stop', stopPrice: 90, quantity: 4 });
+  });
+
+  test('cancels the other OCO leg once one fills completely', () => {
+    const takeProfit = limitOrder({ id: 'tp', side: 'sell', price: 120, ocoGroupId: 'group' });
+    const stopLoss = makeOrder({ id: 'sl', side: 'sell', type: 'stop', stopPrice: 90, ocoGroupId: 'group' });
+    const result = applyOrderFill(accountWith([takeProfit, stopLoss]), 'tp', 120, undefined, 'maker', 5, createId);
+
+    expect(result?.orders.find(order => order.id === 'sl')?.status).toBe('cancelled');
+  });
+});
@@ -0,0 +1,100 @@
+// Booking an order fill against an account: fees, cash and positions, order status and bracket/OCO legs
+import { FeeLiquidity, Order, PaperAccount, Position, Trade } from '../types/trading';
+import { getRemainingQuantity, isOrderOpen, QUANTITY_EPSILON } from './orderMatching';
+import { syncBracketLegs, resolveOcoGroup } from './orderGroups';
+import { calculateTradeFees, getFeeSchedule } from './fees';
+import { applyFill } from './portfolioAccounting';
+
+export interface OrderFillResult {
+  cash: number;
+  positions: Position[];
+  orders: Order[];
+  trade: Omit<Trade, 'id' | 'timestamp'>;
+}
+
+/**
+ * Applies a (possibly partial) fill of one of the account's orders
+ * Shared by the portfolio store and the backtest engine so both book fills the same way
+ * @param filledQuantity - Defaults to the order's remaining quantity
+ * @param createId - Generates ids for new positions and bracket legs
+ * @returns The account's new cash, positions and orders plus the trade to record, or undefined if nothing filled
+ */
+export const applyOrderFill = (
+  account: PaperAccount,
+  orderId: string,
+  filledPrice: number,
+  filledQuantity: number | undefined,
+  liquidity: FeeLiquidity,
+  timestamp: number,
+  createId: () => string
+): OrderFillResult | undefined => {
+  const order = account.orders.find(o => o.id === orderId);
+  if (!order || !isOrderOpen(order)) return undefined;
+
+  // Partial fills accumulate until the full order quantity is reached
+  const remaining = getRemainingQuantity(order);
+  const quantity = Math.min(filledQuantity || remaining, remaining);
+  if (quantity <= QUANTITY_EPSILON) return undefined;
+
+  const fees = calculateTradeFees(
+    getFeeSchedule(account.config.feeScheduleId),
+    order.symbol,
+    quantity,
+    filledPrice,
+    liquidity,
+    account.config.commissionRate
+  );
+  const commission = fees.total;
+
+  const previousFilled = order.filledQuantity || 0;
+  const totalFilled = previousFilled + quantity;
+  const avgFillPrice = ((order.filledPrice || 0) * previousFilled + filledPrice * quantity) / totalFilled;
+  const isComplete = order.quantity - totalFilled <= QUANTITY_EPSILON;
+
+  // Update cash and positions; sells beyond the long position open a short
+  const { cash, positions, realizedPL } = applyFill(account.cash, account.positions, {
+    symbol: order.symbol,
+    side: order.side,
+    quantity,
+    price: filledPrice,
+    commission,
+    timestamp,
+  }, createId, account.costBasisMethod);
+
+  // Update order status
+  let orders = account.orders.map(o =>
+    o.id === orderId ? {
+      ...o,
+      status: isComplete ? 'filled' as const : 'partiallyFilled' as const,
+      filledPrice: avgFillPrice,
+      filledQuantity: totalFilled,
+    } : o
+  );
+
+  // Bracket entry fills arm (or grow) the take-profit and stop-loss legs
+  if (order.type === 'bracket') {
+    orders = syncBracketLegs(orders, orderId, createId);
+  }
+
+  // A fill on one OCO leg shrinks or cancels the other legs
+  if (order.ocoGroupId) {
+    orders = resolveOcoGroup(orders, orderId, quantity);
+  }
+
+  return {
+    cash,
+    positions,
+    orders,
+    trade: {
+      symbol: order.symbol,
+      side: order.side,
+      quantity,
+      price: filledPrice,
+      commission,
+      orderId,
+      realizedPL,
+      liquidity,
+      fees: fees.items,
+    },
+  };
+};
@@ -0,0 +1,122 @@
+// Bracket and one-cancels-other (OCO) order group handling
+import { Order } from '../types/trading';
+import { isOrderOpen, getRemainingQuantity, QUANTITY_EPSILON } from './orderMatching';
+
+export interface OrderGroup {
+  root: Order;
+  children: Order[];
+}
+
+/**
+ * Creates or resizes the exit legs of a bracket entry to cover its filled quantity
+ * @param orders - All orders in the portfolio
+ * @param parentId - The bracket entry order
+ * @param createId - Generates ids for newly spawned legs
+ * @returns The updated order list
+ */
+export const syncBracketLegs = (orders: Order[], parentId: string, createId: () => string): Order[] => {
+  const parent = orders.find(o => o.id === parentId);
+  if (!parent || parent.type !== 'bracket') return orders;
+
+  const filled = parent.filledQuantity || 0;
+  const legs = orders.filter(o => o.parentId === parent.id);
+
+  if (legs.length === 0) {
+    const exitSide = parent.side === 'buy' ? 'sell' : 'buy';
+    const now = Date.now();
+    const newLegs: Order[] = [];
+
+    if (parent.takeProfitPrice !== undefined) {
+      newLegs.push({
+        id: createId(),
+        symbol: parent.symbol,
+        side: exitSide,
+        type: 'limit',
+        quantity: filled,
+        price: parent.takeProfitPrice,
+        status: 'pending',
+        timestamp: now,
+        parentId: parent.id,
+        ocoGroupId: parent.id,
+        bracketLeg: 'takeProfit',
+      });
+    }
+
+    if (parent.stopLossPrice !== undefined) {
+      newLegs.push({
+        id: createId(),
+        symbol: parent.symbol,
+        side: exitSide,
+        type: 'stop',
+        quantity: filled,
+        stopPrice: parent.stopLossPrice,
+        status: 'pending',
+        timestamp: now,
+        parentId: parent.id,
+        ocoGroupId: parent.id,
+        bracketLeg: 'stopLoss',
+      });
+    }
+
+    return [...orders, ...newLegs];
+  }
+
+  // Later partial fills of the entry grow the open legs by the unexited quantity
+  const exited = legs.reduce((sum, leg) => sum + (leg.filledQuantity || 0), 0);
+  const unexited = Math.max(0, filled - exited);
+
+  return orders.map(o =>
+    o.parentId === parent.id && isOrderOpen(o)
+      ? { ...o, quantity: (o.filledQuantity || 0) + unexited }
+      : o
+  );
+};
+
+/**
+ * Shrinks the open siblings of an OCO leg after it fills, cancelling any left empty
+ * @param orders - All orders in the portfolio
+ * @param legId - The leg that just filled
+ * @param filledQuantity - Quantity filled on that leg
+ * @returns The updated order list
+ */
+export const resolveOcoGroup = (orders: Order[], legId: string, filledQuantity: number): Order[] => {
+  const leg = orders.find(o => o.id === legId);
+  if (!leg || !leg.ocoGroupId) return orders;
+
+  return orders.map(o => {
+    if (o.id === leg.id || o.ocoGroupId !== leg.ocoGroupId || !isOrderOpen(o)) return o;
+
+    const remaining = getRemainingQuantity(o) - filledQuantity;
+    if (remaining <= QUANTITY_EPSILON) {
+      return { ...o, status: 'cancelled' as const };
+    }
+    return { ...o, quantity: (o.filledQuantity || 0) + remaining };
+  });
+};
+
+/**
+ * Groups exit legs under their bracket entry for display, newest group first
+ */
+export const groupOrders = (orders: Order[]): OrderGroup[] => {
+  const childrenByParent = new Map<string, Order[]>();
+  orders.forEach(o => {
+    if (o.parentId) {
+      const children = childrenByParent.get(o.parentId) || [];
+      children.push(o);
+      childrenByParent.set(o.parentId, children);
+    }
+  });
+
+  const orderIds = new Set(orders.map(o => o.id));
+  return orders
+    .filter(o => !o.parentId || !orderIds.has(o.parentId))
+    .map(root => ({ root, children: childrenByParent.get(root.id) || [] }))
+    .sort((a, b) => b.root.timestamp - a.root.timestamp);
+};
+
+/**
+ * Checks if any order in the group can still trade
+ */
+export const isGroupOpen = (group: OrderGroup): boolean => {
+  return isOrderOpen(group.root) || group.children.some(isOrderOpen);
+};
@@ -0,0 +1,133 @@
+import { makeOrder } from '../testFixtures';
+import { getDayOrderExpiry } from './marketHours';
+import {
+  getTrailingLevels,
+  isImmediateOrder,
+  isOrderExpired,
+  matchOrder,
+  updateTrailingStop,
+} from './orderMatching';
+
+describe('matchOrder', () => {
+  test('fills market orders at the last price', () => {
+    expect(matchOrder(makeOrder(), 100)).toEqual({ fill: { price: 100, quantity: 10 } });
+  });
+
+  test('ignores closed orders and bad prices', () => {
+    expect(matchOrder(makeOrder({ status: 'filled' }), 100)).toEqual({});
+    expect(matchOrder(makeOrder(), 0)).toEqual({});
+  });
+
+  test('fills limits once the market trades at or through the limit', () => {
+    const buy = makeOrder({ type: 'limit', price: 100 });
+    expect(matchOrder(buy, 101)).toEqual({});
+    expect(matchOrder(buy, 100).fill).toEqual({ price: 100, quantity: 10 });
+    expect(matchOrder(buy, 99).fill?.price).toBe(99);
+
+    const sell = makeOrder({ type: 'limit', side: 'sell', price: 100 });
+    expect(matchOrder(sell, 99)).toEqual({});
+    expect(matchOrder(sell, 101).fill?.price).toBe(101);
+  });
+
+  test('only fills the remaining quantity, capped by the liquidity available', () => {
+    const order = makeOrder({ type: 'limit', price: 100, filledQuantity: 4, status: 'partiallyFilled' });
+    expect(matchOrder(order, 100).fill?.quantity).toBe(6);
+    expect(matchOrder(order, 100, 2).fill?.quantity).toBe(2);
+  });
+
+  test('triggers stops on a move through the stop and fills them at market', () => {
+    const sellStop = makeOrder({ type: 'stop', side: 'sell', stopPrice: 95 });
+    expect(matchOrder(sellStop, 96)).toEqual({});
+    expect(matchOrder(sellStop, 94)).toEqual({ fill: { price: 94, quantity: 10 }, triggered: true });
+
+    const buyStop = makeOrder({ type: 'stop', stopPrice: 105 });
+    expect(matchOrder(buyStop, 104)).toEqual({});
+    expect(matchOrder(buyStop, 105).triggered).toBe(true);
+  });
+
+  test('rests a triggered stop-limit until the limit is marketable', () => {
+    const order = makeOrder({ type: 'stopLimit', side: 'sell', stopPrice: 95, price: 94 });
+    expect(matchOrder(order, 96)).toEqual({});
+    expect(matchOrder(order, 93)).toEqual({ triggered: true });
+    expect(matchOrder(order, 94.5)).toEqual({ fill: { price: 94.5, quantity: 10 }, triggered: true });
+
+    // Once triggered, the stop no longer has to be crossed again
+    expect(matchOrder({ ...order, triggered: true }, 94.5).fill?.price).toBe(94.5);
+  });
+
+  test('treats bracket entries as limit orders, or market orders without a price', () => {
+    expect(matchOrder(makeOrder({ type: 'bracket', price: 100 }), 101)).toEqual({});
+    expect(matchOrder(makeOrder({ type: 'bracket', price: 100 }), 99).fill?.price).toBe(99);
+    expect(matchOrder(makeOrder({ type: 'bracket' }), 101).fill?.price).toBe(101);
+  });
+
+  test('never partially fills fill-or-kill orders', () => {
+    const order = makeOrder({ type: 'limit', price: 100, timeInForce: 'FOK' });
+    expect(matchOrder(order, 100, 5)).toEqual({});
+    expect(matchOrder(order, 100, 10).fill?.quantity).toBe(10);
+  });
+
+  test('lets immediate-or-cancel orders fill partially', () => {
+    const order = makeOrder({ type: 'limit', price: 100, timeInForce: 'IOC' });
+    expect(matchOrder(order, 100, 5).fill?.quantity).toBe(5);
+  });
+});
+
+describe('trailing stops', () => {
+  test('trails sell stops below the high and buy stops above the low', () => {
+    expect(getTrailingLevels({ side: 'sell', type: 'trailingStop', trailAmount: 5 }, 100))
+      .toEqual({ stopPrice: 95, price: undefined });
+    expect(getTrailingLevels({ side: 'buy', type: 'trailingStop', trailPercent: 10 }, 100))
+      .toEqual({ stopPrice: 110, price: undefined });
+    expect(getTrailingLevels({ side: 'sell', type: 'trailingStopLimit', trailAmount: 5, limitOffset: 1 }, 100))
+      .toEqual({ stopPrice: 95, price: 94 });
+  });
+
+  test('moves the stop only when the price improves', () => {
+    const order = makeOrder({ type: 'trailingStop', side: 'sell', trailAmount: 5, highWaterMark: 100, stopPrice: 95 });
+    expect(updateTrailingStop(order, 99)).toBeUndefined();
+    expect(updateTrailingStop(order, 110)).toEqual({ highWaterMark: 110, stopPrice: 105, price: undefined });
+    expect(updateTrailingStop({ ...order, triggered: true }, 110)).toBeUndefined();
+  });
+
+  test('triggers once the price falls back through the trailed stop', () => {
+    const order = makeOrder({ type: 'trailingStop', side: 'sell', trailAmount: 5, highWaterMark: 100, stopPrice: 95 });
+    const trailed = { ...order, ...updateTrailingStop(order, 110) };
+    expect(matchOrder(trailed, 106)).toEqual({});
+    expect(matchOrder(trailed, 104)).toEqual({ fill: { price: 104, quantity: 10 }, triggered: true });
+  });
+
+  test('rests a triggered trailing stop-limit at its offset limit', () => {
+    const order = makeOrder({
+      type: 'trailingStopLimit',
+      side: 'sell',
+      trailAmount: 5,
+      limitOffset: 1,
+      highWaterMark: 100,
+      stopPrice: 95,
+      price: 94,
+    });
+    expect(matchOrder(order, 93)).toEqual({ triggered: true });
+    expect(matchOrder(order, 94.5).fill?.price).toBe(94.5);
+  });
+});
+
+describe('time in force', () => {
+  test('only IOC and FOK orders are immediate', () => {
+    expect(isImmediateOrder(makeOrder({ timeInForce: 'IOC' }))).toBe(true);
+    expect(isImmediateOrder(makeOrder({ timeInForce: 'FOK' }))).toBe(true);
+    expect(isImmediateOrder(makeOrder({ timeInForce: 'DAY' }))).toBe(false);
+    expect(isImmediateOrder(makeOrder())).toBe(false);
+  });
+
+  test('expires DAY orders at their expiry time and never expires GTC orders', () => {
+    const placed = new Date('2024-01-05T12:00:00Z');
+    const expiresAt = getDayOrderExpiry('crypto', placed);
+    expect(expiresAt).toBe(Date.parse('2024-01-06T00:00:00Z'));
+
+    const order = makeOrder({ timeInForce: 'DAY', expiresAt });
+    expect(isOrderExpired(order, expiresAt - 1)).toBe(false);
+    expect(isOrderExpired(order, expiresAt)).toBe(true);
+    expect(isOrderExpired(makeOrder({ timeInForce: 'GTC' }), Number.MAX_SAFE_INTEGER)).toBe(false);
+  });
+});
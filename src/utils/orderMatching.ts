@@ -0,0 +1,140 @@
+// Order matching rules for the paper-trading simulator
+import { Order } from '../types/trading';
+
+// Tolerance for floating point quantity comparisons (crypto trades in fractions)
+export const QUANTITY_EPSILON = 1e-9;
+
+export interface OrderFill {
+  price: number;
+  quantity: number;
+}
+
+export interface MatchResult {
+  fill?: OrderFill;
+  triggered?: boolean; // Set when this price crossed the order's stop
+}
+
+export const isOrderOpen = (order: Order): boolean => {
+  return order.status === 'pending' || order.status === 'partiallyFilled';
+};
+
+// IOC and FOK orders only ever get one chance to match, on placement
+export const isImmediateOrder = (order: Order): boolean => {
+  return order.timeInForce === 'IOC' || order.timeInForce === 'FOK';
+};
+
+export const isOrderExpired = (order: Order, now: number = Date.now()): boolean => {
+  return order.expiresAt !== undefined && now >= order.expiresAt;
+};
+
+export const getRemainingQuantity = (order: Order): number => {
+  return Math.max(0, order.quantity - (order.filledQuantity || 0));
+};
+
+// Buy stops trigger on a rise through the stop, sell stops on a fall through it
+export const isStopTriggered = (side: Order['side'], stopPrice: number, lastPrice: number): boolean => {
+  return side === 'buy' ? lastPrice >= stopPrice : lastPrice <= stopPrice;
+};
+
+// A limit is marketable once the market trades at or through the limit price
+export const isLimitMarketable = (side: Order['side'], limitPrice: number, lastPrice: number): boolean => {
+  return side === 'buy' ? lastPrice <= limitPrice : lastPrice >= limitPrice;
+};
+
+export const isTrailingOrder = (order: Pick<Order, 'type'>): boolean => {
+  return order.type === 'trailingStop' || order.type === 'trailingStopLimit';
+};
+
+/**
+ * Stop and limit levels for a trailing order with the given high-water mark
+ * Sell stops trail below the high, buy stops above the low
+ */
+export const getTrailingLevels = (
+  order: Pick<Order, 'side' | 'type' | 'trailAmount' | 'trailPercent' | 'limitOffset'>,
+  highWaterMark: number
+): Pick<Order, 'stopPrice' | 'price'> => {
+  const direction = order.side === 'sell' ? -1 : 1;
+  const distance = order.trailPercent !== undefined
+    ? highWaterMark * order.trailPercent / 100
+    : order.trailAmount || 0;
+  const stopPrice = highWaterMark + direction * distance;
+
+  return {
+    stopPrice,
+    price: order.type === 'trailingStopLimit' ? stopPrice + direction * (order.limitOffset || 0) : undefined,
+  };
+};
+
+/**
+ * Moves an untriggered trailing order's high-water mark and stop when the price improves
+ * @returns The fields to update, or undefined when the stop stays where it is
+ */
+export const updateTrailingStop = (order: Order, lastPrice: number): Partial<Order> | undefined => {
+  if (!isTrailingOrder(order) || !isOrderOpen(order) || order.triggered || !(lastPrice > 0)) return undefined;
+
+  const mark = order.highWaterMark;
+  const improved = mark === undefined || (order.side === 'sell' ? lastPrice > mark : lastPrice < mark);
+  if (!improved) return undefined;
+
+  return { highWaterMark: lastPrice, ...getTrailingLevels(order, lastPrice) };
+};
+
+/**
+ * Checks an open order against the latest traded price
+ * @param order - The order to evaluate
+ * @param lastPrice - The last traded price for the order's symbol
+ * @param availableQuantity - Liquidity available at that price; caps the fill for partial fills
+ * @returns The fill to apply, if any, and whether the stop was triggered
+ */
+export const matchOrder = (
+  order: Order,
+  lastPrice: number,
+  availableQuantity: number = Infinity
+): MatchResult => {
+  if (!isOrderOpen(order) || !(lastPrice > 0)) return {};
+
+  const remaining = getRemainingQuantity(order);
+  const quantity = Math.min(remaining, availableQuantity);
+  if (quantity <= QUANTITY_EPSILON) return {};
+  
+  // Fill-or-kill orders never take a partial fill
+  if (order.timeInForce === 'FOK' && remaining - quantity > QUANTITY_EPSILON) return {};
+
+  const fillAtMarket: MatchResult = { fill: { price: lastPrice, quantity } };
+
+  switch (order.type) {
+    case 'market':
+      return fillAtMarket;
+
+    case 'limit':
+      if (order.price === undefined) return {};
+      return isLimitMarketable(order.side, order.price, lastPrice) ? fillAtMarket : {};
+
+    case 'stop':
+    case 'trailingStop': {
+      if (order.stopPrice === undefined) return {};
+      const triggered = order.triggered || isStopTriggered(order.side, order.stopPrice, lastPrice);
+      // Once triggered a stop becomes a market order
+      return triggered ? { ...fillAtMarket, triggered: true } : {};
+    }
+
+    case 'stopLimit':
+    case 'trailingStopLimit': {
+      if (order.stopPrice === undefined || order.price === undefined) return {};
+      const triggered = order.triggered || isStopTriggered(order.side, order.stopPrice, lastPrice);
+      if (!triggered) return {};
+      // Once triggered a stop-limit rests as a limit order
+      return isLimitMarketable(order.side, order.price, lastPrice)
+        ? { ...fillAtMarket, triggered: true }
+        : { triggered: true };
+    }
+
+    case 'bracket':
+      // The entry leg of a bracket is a limit order, or a market order without a price
+      if (order.price === undefined) return fillAtMarket;
+      return isLimitMarketable(order.side, order.price, lastPrice) ? fillAtMarket : {};
+
+    default:
+      return {};
+  }
+};
@@ -0,0 +1,185 @@
+// Equity-curve and trade statistics for the analysis page and backtests
+import { EquitySnapshot, Trade } from '../types/trading';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365 * DAY_MS;
+
+export interface DrawdownPoint {
+  timestamp: number;
+  drawdown: number;        // Fraction below the running peak (0.1 = 10% down)
+}
+
+export interface PerformanceMetrics {
+  totalReturn: number;     // Fraction of starting equity
+  annualizedReturn: number;
+  volatility: number;      // Annualized standard deviation of period returns
+  sharpeRatio: number;
+  sortinoRatio: number;
+  maxDrawdown: number;
+  maxDrawdownDuration: number; // Longest time spent below a previous peak, in ms
+  closedTrades: number;
+  winRate: number;
+  profitFactor: number;
+  averageWin: number;
+  averageLoss: number;
+  expectancy: number;      // Average net P&L per closing trade
+  exposure: number;        // Fraction of sampled time with open positions
+  averageGrossLeverage: number;
+}
+
+const mean = (values: number[]): number => {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+};
+
+const standardDeviation = (values: number[]): number => {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - avg) ** 2, 0) / (values.length - 1));
+};
+
+// Only negative returns count towards downside deviation
+const downsideDeviation = (values: number[], target = 0): number => {
+  if (values.length < 2) return 0;
+  const squares = values.map(value => Math.min(0, value - target) ** 2);
+  return Math.sqrt(squares.reduce((sum, value) => sum + value, 0) / (values.length - 1));
+};
+
+export const getPeriodReturns = (snapshots: EquitySnapshot[]): number[] => {
+  const returns: number[] = [];
+  for (let i = 1; i < snapshots.length; i++) {
+    const previous = snapshots[i - 1].equity;
+    if (previous > 0) returns.push(snapshots[i].equity / previous - 1);
+  }
+  return returns;
+};
+
+export const getDrawdownSeries = (snapshots: EquitySnapshot[]): DrawdownPoint[] => {
+  let peak = -Infinity;
+  return snapshots.map(snapshot => {
+    peak = Math.max(peak, snapshot.equity);
+    return {
+      timestamp: snapshot.timestamp,
+      drawdown: peak > 0 ? (peak - snapshot.equity) / peak : 0,
+    };
+  });
+};
+
+// Thins snapshots older than fullResolutionMs to the last one in each bucketMs window, so a long-lived
+// account's curve stays small; the opening snapshot is always kept as the return baseline
+export const downsampleEquityHistory = (
+  snapshots: EquitySnapshot[],
+  now: number,
+  fullResolutionMs: number,
+  bucketMs: number
+): EquitySnapshot[] => {
+  const cutoff = now - fullResolutionMs;
+  return snapshots.filter((snapshot, i) => {
+    const next = snapshots[i + 1];
+    return i === 0
+      || snapshot.timestamp >= cutoff
+      || !next
+      || next.timestamp >= cutoff
+      || Math.floor(next.timestamp / bucketMs) !== Math.floor(snapshot.timestamp / bucketMs);
+  });
+};
+
+const getMaxDrawdownDuration = (snapshots: EquitySnapshot[]): number => {
+  let peak = -Infinity;
+  let peakTime = 0;
+  let longest = 0;
+
+  snapshots.forEach(snapshot => {
+    if (snapshot.equity >= peak) {
+      peak = snapshot.equity;
+      peakTime = snapshot.timestamp;
+    } else {
+      longest = Math.max(longest, snapshot.timestamp - peakTime);
+    }
+  });
+
+  return longest;
+};
+
+// Snapshots are sampled on a timer, so the median spacing tells us how many periods make a year
+const getPeriodsPerYear = (snapshots: EquitySnapshot[]): number => {
+  const gaps = snapshots
+    .slice(1)
+    .map((snapshot, i) => snapshot.timestamp - snapshots[i].timestamp)
+    .filter(gap => gap > 0)
+    .sort((a, b) => a - b);
+  if (gaps.length === 0) return 0;
+  return YEAR_MS / gaps[Math.floor(gaps.length / 2)];
+};
+
+/**
+ * Net P&L of every trade that closed some quantity (realized P&L less that trade's commission)
+ */
+export const getClosedTradePnL = (trades: Trade[]): number[] => {
+  return trades
+    .filter(trade => trade.realizedPL !== undefined && trade.realizedPL !== 0)
+    .map(trade => (trade.realizedPL || 0) - trade.commission);
+};
+
+/**
+ * Computes risk-adjusted returns, drawdowns and trade statistics
+ * @param snapshots - Equity curve, oldest first
+ * @param trades - Executed trades for win/loss statistics
+ * @param riskFreeRate - Annual risk-free rate used for Sharpe and Sortino
+ */
+export const calculatePerformanceMetrics = (
+  snapshots: EquitySnapshot[],
+  trades: Trade[],
+  riskFreeRate = 0
+): PerformanceMetrics => {
+  const first = snapshots[0];
+  const last = snapshots[snapshots.length - 1];
+  const totalReturn = first && last && first.equity > 0 ? last.equity / first.equity - 1 : 0;
+
+  const elapsed = first && last ? last.timestamp - first.timestamp : 0;
+  // Compounding a few minutes of history up to a year is meaningless, so short curves report the raw return
+  const annualizedReturn = elapsed >= DAY_MS && totalReturn > -1
+    ? Math.pow(1 + totalReturn, YEAR_MS / elapsed) - 1
+    : totalReturn;
+
+  const returns = getPeriodReturns(snapshots);
+  const periodsPerYear = getPeriodsPerYear(snapshots);
+  const periodRiskFree = periodsPerYear > 0 ? riskFreeRate / periodsPerYear : 0;
+  const excessReturn = mean(returns) - periodRiskFree;
+  const deviation = standardDeviation(returns);
+  const downside = downsideDeviation(returns, periodRiskFree);
+  const annualize = Math.sqrt(periodsPerYear);
+
+  const pnl = getClosedTradePnL(trades);
+  const wins = pnl.filter(value => value > 0);
+  const losses = pnl.filter(value => value < 0);
+  const grossProfit = wins.reduce((sum, value) => sum + value, 0);
+  const grossLoss = Math.abs(losses.reduce((sum, value) => sum + value, 0));
+
+  // Exposure is weighted by the time each snapshot stands for
+  let exposedTime = 0;
+  let leverageTime = 0;
+  for (let i = 1; i < snapshots.length; i++) {
+    const span = snapshots[i].timestamp - snapshots[i - 1].timestamp;
+    const previous = snapshots[i - 1];
+    if (previous.grossExposure > 0) exposedTime += span;
+    if (previous.equity > 0) leverageTime += span * (previous.grossExposure / previous.equity);
+  }
+
+  return {
+    totalReturn,
+    annualizedReturn,
+    volatility: deviation * annualize,
+    sharpeRatio: deviation > 0 ? (excessReturn / deviation) * annualize : 0,
+    sortinoRatio: downside > 0 ? (excessReturn / downside) * annualize : 0,
+    maxDrawdown: getDrawdownSeries(snapshots).reduce((max, point) => Math.max(max, point.drawdown), 0),
+    maxDrawdownDuration: getMaxDrawdownDuration(snapshots),
+    closedTrades: pnl.length,
+    winRate: pnl.length > 0 ? wins.length / pnl.length : 0,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : (grossProfit > 0 ? Infinity : 0),
+    averageWin: wins.length > 0 ? grossProfit / wins.length : 0,
+    averageLoss: losses.length > 0 ? -grossLoss / losses.length : 0,
+    expectancy: mean(pnl),
+    exposure: elapsed > 0 ? exposedTime / elapsed : 0,
+    averageGrossLeverage: elapsed > 0 ? leverageTime / elapsed : 0,
+  };
+};
@@ -0,0 +1,159 @@
+import { TaxLot } from '../types/trading';
+import { makePosition } from '../testFixtures';
+import { TRADING_CONFIG } from './constants';
+import {
+  applyFill,
+  closeLots,
+  getBorrowFee,
+  getCostBasis,
+  getMarginSummary,
+  getPositionLots,
+  splitOrderQuantity,
+} from './portfolioAccounting';
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+const LOTS: TaxLot[] = [
+  { quantity: 10, price: 100, timestamp: 1 },
+  { quantity: 10, price: 120, timestamp: 2 },
+];
+
+const fill = (side: 'buy' | 'sell', quantity: number, price: number, commission = 0) => ({
+  symbol: 'AAPL',
+  side,
+  quantity,
+  price,
+  commission,
+  timestamp: 10,
+});
+
+let nextId = 0;
+const createId = () => `id-${nextId++}`;
+
+describe('tax lots', () => {
+  test('FIFO closes the oldest lots first', () => {
+    const result = closeLots(LOTS, 15, 'FIFO');
+    expect(result.costBasis).toBe(10 * 100 + 5 * 120);
+    expect(result.lots).toEqual([{ quantity: 5, price: 120, timestamp: 2 }]);
+  });
+
+  test('LIFO closes the newest lots first', () => {
+    const result = closeLots(LOTS, 15, 'LIFO');
+    expect(result.costBasis).toBe(10 * 120 + 5 * 100);
+    expect(result.lots).toEqual([{ quantity: 5, price: 100, timestamp: 1 }]);
+  });
+
+  test('AVERAGE closes at the average cost and keeps every lot at it', () => {
+    const result = closeLots(LOTS, 10, 'AVERAGE');
+    expect(result.costBasis).toBe(10 * 110);
+    expect(result.lots).toEqual([
+      { quantity: 5, price: 110, timestamp: 1 },
+      { quantity: 5, price: 110, timestamp: 2 },
+    ]);
+  });
+
+  test('closing more than the lots hold leaves no lots behind', () => {
+    expect(closeLots(LOTS, 25, 'FIFO')).toEqual({ lots: [], costBasis: 2200 });
+    expect(closeLots(LOTS, 25, 'AVERAGE').lots).toEqual([]);
+  });
+
+  test('treats positions opened before lot tracking as a single lot at the average price', () => {
+    const legacy = makePosition({ quantity: 10, avgPrice: 105, timestamp: 5 });
+    expect(getPositionLots(legacy)).toEqual([{ quantity: 10, price: 105, timestamp: 5 }]);
+    expect(getCostBasis(legacy)).toBe(1050);
+    expect(getCostBasis(makePosition({ quantity: 20, lots: LOTS }))).toBe(2200);
+  });
+
+  test('opens a lot per fill and averages the entry price', () => {
+    const opened = applyFill(10000, [], fill('buy', 10, 100), createId);
+    const added = applyFill(opened.cash, opened.positions, { ...fill('buy', 10, 120), timestamp: 20 }, createId);
+
+    expect(added.positions[0].lots).toEqual([
+      { quantity: 10, price: 100, timestamp: 10 },
+      { quantity: 10, price: 120, timestamp: 20 },
+    ]);
+    expect(added.positions[0]).toMatchObject({ quantity: 20, avgPrice: 110 });
+  });
+
+  test('books realized P&L against the chosen lots when reducing a long', () => {
+    const position = makePosition({ quantity: 20, avgPrice: 110, lots: LOTS });
+
+    const fifo = applyFill(0, [position], fill('sell', 10, 130), createId, 'FIFO');
+    expect(fifo.realizedPL).toBe(10 * (130 - 100));
+    expect(fifo.positions[0]).toMatchObject({ quantity: 10, avgPrice: 120 });
+
+    const lifo = applyFill(0, [position], fill('sell', 10, 130), createId, 'LIFO');
+    expect(lifo.realizedPL).toBe(10 * (130 - 120));
+    expect(lifo.positions[0]).toMatchObject({ quantity: 10, avgPrice: 100 });
+  });
+});
+
+describe('applyFill', () => {
+  test('opens a long and charges notional plus commission', () => {
+    const result = applyFill(10000, [], fill('buy', 10, 100, 1), createId);
+    expect(result.cash).toBe(10000 - 1000 - 1);
+    expect(result.realizedPL).toBe(0);
+    expect(result.positions).toHaveLength(1);
+    expect(result.positions[0]).toMatchObject({ side: 'long', quantity: 10, avgPrice: 100 });
+  });
+
+  test('opens a short on a sell when flat and credits the proceeds', () => {
+    const result = applyFill(1000, [], fill('sell', 5, 100), createId);
+    expect(result.cash).toBe(1500);
+    expect(result.positions[0]).toMatchObject({ side: 'short', quantity: 5, avgPrice: 100 });
+  });
+
+  test('covering a short realizes the fall in price and removes the position', () => {
+    const short = makePosition({ side: 'short', quantity: 5, avgPrice: 100 });
+    const result = applyFill(1500, [short], fill('buy', 5, 90), createId);
+    expect(result.realizedPL).toBe(50);
+    expect(result.cash).toBe(1050);
+    expect(result.positions).toEqual([]);
+  });
+
+  test('selling through a long closes it and opens a short with the rest', () => {
+    const result = applyFill(0, [makePosition({ quantity: 10 })], fill('sell', 15, 110), createId);
+    expect(result.realizedPL).toBe(100);
+    expect(result.positions).toHaveLength(1);
+    expect(result.positions[0]).toMatchObject({ side: 'short', quantity: 5, avgPrice: 110 });
+  });
+
+  test('splits an order into its closing and opening parts', () => {
+    expect(splitOrderQuantity(makePosition({ quantity: 10 }), 'sell', 15)).toEqual({ closing: 10, opening: 5 });
+    expect(splitOrderQuantity(makePosition({ quantity: 10 }), 'buy', 5)).toEqual({ closing: 0, opening: 5 });
+    expect(splitOrderQuantity(undefined, 'sell', 5)).toEqual({ closing: 0, opening: 5 });
+  });
+});
+
+describe('margin', () => {
+  const rates = { initialMargin: 0.5, maintenanceMargin: 0.3 };
+
+  test('counts shorts against equity and sizes buying power at the initial margin', () => {
+    const summary = getMarginSummary(15000, [
+      makePosition({ quantity: 100, currentPrice: 100 }),
+      makePosition({ id: 'position-2', symbol: 'MSFT', side: 'short', quantity: 50, currentPrice: 100 }),
+    ], rates);
+
+    expect(summary.equity).toBe(15000 + 10000 - 5000);
+    expect(summary.grossExposure).toBe(15000);
+    expect(summary.initialMarginRequired).toBe(7500);
+    expect(summary.buyingPower).toBe((20000 - 7500) / 0.5);
+    expect(summary.isBelowMaintenance).toBe(false);
+  });
+
+  test('flags accounts below maintenance margin', () => {
+    // 10000 of stock bought with 7500 borrowed leaves 2500 equity, under the 3000 maintenance requirement
+    const summary = getMarginSummary(-7500, [makePosition({ quantity: 100, currentPrice: 100 })], rates);
+    expect(summary.equity).toBe(2500);
+    expect(summary.isBelowMaintenance).toBe(true);
+    expect(summary.buyingPower).toBe(0);
+  });
+
+  test('charges borrow fees on shorts only, pro rata over the year', () => {
+    const short = makePosition({ side: 'short', quantity: 100, currentPrice: 100 });
+    expect(getBorrowFee(short, YEAR_MS)).toBeCloseTo(10000 * TRADING_CONFIG.SHORT_BORROW_RATE);
+    expect(getBorrowFee(short, YEAR_MS / 2)).toBeCloseTo(5000 * TRADING_CONFIG.SHORT_BORROW_RATE);
+    expect(getBorrowFee(makePosition(), YEAR_MS)).toBe(0);
+    expect(getBorrowFee(short, 0)).toBe(0);
+  });
+});
@@ -0,0 +1,274 @@
+// Position and margin accounting for the paper-trading portfolio
+import { Position, Order, TaxLot, CostBasisMethod, AccountConfig, PaperAccount } from '../types/trading';
+import { TRADING_CONFIG } from './constants';
+import { QUANTITY_EPSILON } from './orderMatching';
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+export interface FillDetails {
+  symbol: string;
+  side: Order['side'];
+  quantity: number;
+  price: number;
+  commission: number;
+  timestamp: number;
+}
+
+export interface MarginSummary {
+  equity: number;                    // Cash + long market value - short market value
+  longMarketValue: number;
+  shortMarketValue: number;
+  grossExposure: number;
+  initialMarginRequired: number;
+  maintenanceMarginRequired: number;
+  buyingPower: number;               // Notional that can still be opened at initial margin
+  isBelowMaintenance: boolean;
+}
+
+export interface PortfolioPerformance {
+  totalReturn: number;
+  totalReturnPercent: number;
+  dayReturn: number;
+  dayReturnPercent: number;
+  unrealizedPL: number;
+  realizedPL: number;
+  commissions: number;
+}
+
+// Longs are positive, shorts negative
+export const getSignedQuantity = (position?: Position): number => {
+  if (!position) return 0;
+  return position.side === 'long' ? position.quantity : -position.quantity;
+};
+
+export const getMarketValue = (position: Position): number => {
+  return position.quantity * position.currentPrice;
+};
+
+export const getUnrealizedPL = (position: Position, price: number = position.currentPrice): number => {
+  return position.side === 'long'
+    ? (price - position.avgPrice) * position.quantity
+    : (position.avgPrice - price) * position.quantity;
+};
+
+/**
+ * Splits an order into the part that closes the existing position and the part that opens new exposure
+ */
+export const splitOrderQuantity = (
+  position: Position | undefined,
+  side: Order['side'],
+  quantity: number
+): { closing: number; opening: number } => {
+  const signed = getSignedQuantity(position);
+  const reduces = (signed > 0 && side === 'sell') || (signed < 0 && side === 'buy');
+  const closing = reduces ? Math.min(Math.abs(signed), quantity) : 0;
+  return { closing, opening: quantity - closing };
+};
+
+// Positions opened before lot tracking carry their whole quantity as one lot
+export const getPositionLots = (position: Position): TaxLot[] => {
+  return position.lots && position.lots.length > 0
+    ? position.lots
+    : [{ quantity: position.quantity, price: position.avgPrice, timestamp: position.timestamp }];
+};
+
+export const getCostBasis = (position: Position): number => {
+  return getPositionLots(position).reduce((sum, lot) => sum + lot.quantity * lot.price, 0);
+};
+
+const getAverageLotPrice = (lots: TaxLot[]): number => {
+  const quantity = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  return quantity > 0 ? lots.reduce((sum, lot) => sum + lot.price * lot.quantity, 0) / quantity : 0;
+};
+
+/**
+ * Removes the closed quantity from a position's lots
+ * FIFO consumes the oldest lots, LIFO the newest; AVERAGE draws pro rata so every lot keeps the average cost
+ * @returns The remaining lots and the cost basis of the closed quantity
+ */
+export const closeLots = (
+  lots: TaxLot[],
+  quantity: number,
+  method: CostBasisMethod
+): { lots: TaxLot[]; costBasis: number } => {
+  if (method === 'AVERAGE') {
+    const total = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+    const avgPrice = getAverageLotPrice(lots);
+    const keep = total > 0 ? Math.max(0, 1 - quantity / total) : 0;
+    return {
+      lots: lots
+        .map(lot => ({ ...lot, quantity: lot.quantity * keep, price: avgPrice }))
+        .filter(lot => lot.quantity > QUANTITY_EPSILON),
+      costBasis: avgPrice * quantity,
+    };
+  }
+
+  const ordered = method === 'FIFO' ? [...lots] : [...lots].reverse();
+  const remaining: TaxLot[] = [];
+  let toClose = quantity;
+  let costBasis = 0;
+
+  ordered.forEach(lot => {
+    const used = Math.min(lot.quantity, toClose);
+    toClose -= used;
+    costBasis += used * lot.price;
+    if (lot.quantity - used > QUANTITY_EPSILON) {
+      remaining.push({ ...lot, quantity: lot.quantity - used });
+    }
+  });
+
+  return {
+    lots: method === 'FIFO' ? remaining : remaining.reverse(),
+    costBasis,
+  };
+};
+
+/**
+ * Applies a fill to cash and positions
+ * Sells beyond a long (or any sell when flat) open a short; short sale proceeds are credited to cash
+ * @param cash - Cash before the fill
+ * @param positions - Positions before the fill
+ * @param fill - The executed fill
+ * @param createId - Generates ids for newly opened positions
+ * @param method - Lot matching used to book realized P&L on the closing quantity
+ * @returns The new cash balance, positions and the P&L realized by this fill
+ */
+export const applyFill = (
+  cash: number,
+  positions: Position[],
+  fill: FillDetails,
+  createId: () => string,
+  method: CostBasisMethod = TRADING_CONFIG.COST_BASIS_METHOD
+): { cash: number; positions: Position[]; realizedPL: number } => {
+  const notional = fill.quantity * fill.price;
+  const newCash = fill.side === 'buy'
+    ? cash - notional - fill.commission
+    : cash + notional - fill.commission;
+
+  const existing = positions.find(p => p.symbol === fill.symbol);
+  const { closing, opening } = splitOrderQuantity(existing, fill.side, fill.quantity);
+  let newPositions = positions;
+  let realizedPL = 0;
+
+  if (existing && closing > 0) {
+    const { lots, costBasis } = closeLots(getPositionLots(existing), closing, method);
+    const proceeds = closing * fill.price;
+    realizedPL = existing.side === 'long' ? proceeds - costBasis : costBasis - proceeds;
+
+    const remaining = existing.quantity - closing;
+    newPositions = remaining <= QUANTITY_EPSILON
+      ? newPositions.filter(p => p.id !== existing.id)
+      : newPositions.map(p => p.id === existing.id ? {
+        ...p,
+        quantity: remaining,
+        avgPrice: getAverageLotPrice(lots),
+        realizedPL: p.realizedPL + realizedPL,
+        lots,
+      } : p);
+  }
+
+  if (opening > QUANTITY_EPSILON) {
+    const side: Position['side'] = fill.side === 'buy' ? 'long' : 'short';
+    const current = newPositions.find(p => p.symbol === fill.symbol);
+    const lot: TaxLot = { quantity: opening, price: fill.price, timestamp: fill.timestamp };
+
+    if (current) {
+      // Adding to a position in the same direction opens a new lot and averages the entry price
+      const lots = [...getPositionLots(current), lot];
+      newPositions = newPositions.map(p => p.id === current.id ? {
+        ...p,
+        quantity: current.quantity + opening,
+        avgPrice: getAverageLotPrice(lots),
+        lots,
+      } : p);
+    } else {
+      newPositions = [...newPositions, {
+        id: createId(),
+        symbol: fill.symbol,
+        side,
+        quantity: opening,
+        avgPrice: fill.price,
+        currentPrice: fill.price,
+        unrealizedPL: 0,
+        realizedPL: 0,
+        timestamp: fill.timestamp,
+        lots: [lot],
+      }];
+    }
+  }
+
+  return { cash: newCash, positions: newPositions, realizedPL };
+};
+
+type MarginRates = Pick<AccountConfig, 'initialMargin' | 'maintenanceMargin'>;
+
+const DEFAULT_MARGIN_RATES: MarginRates = {
+  initialMargin: TRADING_CONFIG.INITIAL_MARGIN,
+  maintenanceMargin: TRADING_CONFIG.MAINTENANCE_MARGIN,
+};
+
+/**
+ * Computes equity, margin requirements and buying power for a margin account
+ */
+export const getMarginSummary = (
+  cash: number,
+  positions: Position[],
+  rates: MarginRates = DEFAULT_MARGIN_RATES
+): MarginSummary => {
+  let longMarketValue = 0;
+  let shortMarketValue = 0;
+
+  positions.forEach(position => {
+    if (position.side === 'long') {
+      longMarketValue += getMarketValue(position);
+    } else {
+      shortMarketValue += getMarketValue(position);
+    }
+  });
+
+  const equity = cash + longMarketValue - shortMarketValue;
+  const grossExposure = longMarketValue + shortMarketValue;
+  const initialMarginRequired = grossExposure * rates.initialMargin;
+  const maintenanceMarginRequired = grossExposure * rates.maintenanceMargin;
+
+  return {
+    equity,
+    longMarketValue,
+    shortMarketValue,
+    grossExposure,
+    initialMarginRequired,
+    maintenanceMarginRequired,
+    buyingPower: Math.max(0, (equity - initialMarginRequired) / rates.initialMargin),
+    isBelowMaintenance: grossExposure > 0 && equity < maintenanceMarginRequired,
+  };
+};
+
+/**
+ * Borrow fee owed on a short position over the elapsed time
+ */
+export const getBorrowFee = (position: Position, elapsedMs: number): number => {
+  if (position.side !== 'short' || elapsedMs <= 0) return 0;
+  return getMarketValue(position) * TRADING_CONFIG.SHORT_BORROW_RATE * (elapsedMs / YEAR_MS);
+};
+
+/**
+ * Realized and unrealized P&L and total return for one account
+ */
+export const getAccountPerformance = (account: PaperAccount): PortfolioPerformance => {
+  const unrealizedPL = account.positions.reduce((sum, pos) => sum + pos.unrealizedPL, 0);
+  const realizedPL = account.trades.reduce((sum, trade) => sum + (trade.realizedPL || 0), 0);
+  const commissions = account.trades.reduce((sum, trade) => sum + trade.commission, 0);
+
+  const totalReturn = account.totalValue - account.initialCash;
+  const totalReturnPercent = (totalReturn / account.initialCash) * 100;
+
+  return {
+    totalReturn,
+    totalReturnPercent,
+    dayReturn: account.dayChange,
+    dayReturnPercent: account.dayChangePercent,
+    unrealizedPL,
+    realizedPL,
+    commissions,
+  };
+};
@@ -0,0 +1,174 @@
+import { makeAccount, makeOrder, makePosition } from '../testFixtures';
+import { DEFAULT_ACCOUNT_CONFIG } from './constants';
+import {
+  RiskContext,
+  buyingPowerRule,
+  dailyLossLimitRule,
+  getDailyLossFraction,
+  getDayStartEquity,
+  getNextDayStart,
+  grossExposureRule,
+  isTradingLocked,
+  maxOpenOrdersRule,
+  maxOrderNotionalRule,
+  maxPositionNotionalRule,
+  netExposureRule,
+  positionSizeRule,
+  priceBandRule,
+  shortSellingRule,
+} from './riskRules';
+
+// Local times, since the daily loss limit resets at local midnight
+const MIDNIGHT = new Date(2024, 0, 10).getTime();
+const HOUR = 60 * 60 * 1000;
+const NOON = MIDNIGHT + 12 * HOUR;
+
+const NO_LIMITS = {
+  maxOrderNotional: 0,
+  maxPositionNotional: 0,
+  maxGrossExposure: 0,
+  maxNetExposure: 0,
+  maxOpenOrders: 0,
+  dailyLossLimit: 0,
+  priceBandPercent: 0,
+};
+
+// Every rule but the one under test is off
+const CONFIG = { ...DEFAULT_ACCOUNT_CONFIG, allowShortSelling: true, maxPositionSize: 0, riskLimits: NO_LIMITS };
+
+const makeContext = (overrides: Partial<RiskContext> = {}): RiskContext => ({
+  account: makeAccount({ config: CONFIG }),
+  order: { symbol: 'AAPL', side: 'buy', type: 'limit', quantity: 10, price: 100, limitPrice: 100, lastPrice: 100 },
+  opening: 10,
+  closing: 0,
+  margin: {
+    equity: 10000,
+    longMarketValue: 0,
+    shortMarketValue: 0,
+    grossExposure: 0,
+    initialMarginRequired: 0,
+    maintenanceMarginRequired: 0,
+    buyingPower: 20000,
+    isBelowMaintenance: false,
+  },
+  commission: 0,
+  now: NOON,
+  ...overrides,
+});
+
+const withLimits = (limits: Partial<typeof NO_LIMITS>) =>
+  makeAccount({ config: { ...CONFIG, riskLimits: { ...NO_LIMITS, ...limits } } });
+
+const snapshot = (timestamp: number, equity: number) => ({ timestamp, equity, cash: equity, grossExposure: 0 });
+
+describe('daily loss tracking', () => {
+  test('measures the day from the last snapshot before midnight', () => {
+    const account = makeAccount({
+      equityHistory: [snapshot(MIDNIGHT - 2 * HOUR, 9000), snapshot(MIDNIGHT - HOUR, 10000), snapshot(MIDNIGHT + HOUR, 9500)],
+    });
+    expect(getDayStartEquity(account, NOON)).toBe(10000);
+    expect(getDailyLossFraction(account, 9500, NOON)).toBeCloseTo(0.05);
+    expect(getDailyLossFraction(account, 10500, NOON)).toBeCloseTo(-0.05);
+  });
+
+  test('falls back to the first snapshot today, then to the initial cash', () => {
+    expect(getDayStartEquity(makeAccount({ equityHistory: [snapshot(MIDNIGHT + HOUR, 8000)] }), NOON)).toBe(8000);
+    expect(getDayStartEquity(makeAccount({ initialCash: 5000 }), NOON)).toBe(5000);
+  });
+
+  test('locks until the stored time and reopens at the next local midnight', () => {
+    expect(getNextDayStart(NOON)).toBe(new Date(2024, 0, 11).getTime());
+
+    const locked = makeAccount({ tradingLockedUntil: getNextDayStart(NOON) });
+    expect(isTradingLocked(locked, NOON)).toBe(true);
+    expect(isTradingLocked(locked, getNextDayStart(NOON))).toBe(false);
+    expect(isTradingLocked(makeAccount(), NOON)).toBe(false);
+  });
+});
+
+describe('risk rules', () => {
+  test('rejects sells when short selling is disabled', () => {
+    const context = makeContext({
+      account: makeAccount({ config: { ...CONFIG, allowShortSelling: false } }),
+      order: { ...makeContext().order, side: 'sell' },
+    });
+    expect(shortSellingRule.check(context)?.ruleId).toBe('shortSelling');
+    expect(shortSellingRule.check(makeContext({ order: { ...context.order, side: 'buy' } }))).toBeUndefined();
+  });
+
+  test('needs buying power for the opening part of the order plus commission', () => {
+    const margin = { ...makeContext().margin, buyingPower: 1000 };
+    expect(buyingPowerRule.check(makeContext({ margin }))).toBeUndefined();
+    expect(buyingPowerRule.check(makeContext({ margin, commission: 1 }))).toMatchObject({ limit: 1000, actual: 1001 });
+    expect(buyingPowerRule.check(makeContext({ margin, opening: 0, closing: 10, commission: 1 }))).toBeUndefined();
+  });
+
+  test('caps position size as a fraction of equity', () => {
+    const capped = makeAccount({ config: { ...CONFIG, maxPositionSize: 0.05 } });
+    expect(positionSizeRule.check(makeContext({ account: capped }))).toMatchObject({ limit: 0.05, actual: 0.1 });
+    expect(positionSizeRule.check(makeContext({ account: capped, opening: 5 }))).toBeUndefined();
+  });
+
+  test('treats a limit of 0 as no limit', () => {
+    const context = makeContext({ order: { ...makeContext().order, quantity: 1e6 }, opening: 1e6 });
+    [maxOrderNotionalRule, maxPositionNotionalRule, grossExposureRule, netExposureRule, maxOpenOrdersRule, dailyLossLimitRule, priceBandRule]
+      .forEach(rule => expect(rule.check(context)).toBeUndefined());
+  });
+
+  test('limits order value and the resulting position value per symbol', () => {
+    expect(maxOrderNotionalRule.check(makeContext({ account: withLimits({ maxOrderNotional: 500 }) })))
+      .toMatchObject({ limit: 500, actual: 1000 });
+
+    const position = makePosition({ quantity: 20 });
+    const account = withLimits({ maxPositionNotional: 2500 });
+    expect(maxPositionNotionalRule.check(makeContext({ account, position }))).toMatchObject({ actual: 3000 });
+    expect(maxPositionNotionalRule.check(makeContext({ account, position: { ...position, side: 'short' } }))).toBeUndefined();
+  });
+
+  test('limits gross and net exposure as multiples of equity', () => {
+    const margin = { ...makeContext().margin, longMarketValue: 15000, grossExposure: 15000 };
+    const order = { ...makeContext().order, quantity: 100 };
+
+    expect(grossExposureRule.check(makeContext({ account: withLimits({ maxGrossExposure: 2 }), margin, order, opening: 100 })))
+      .toMatchObject({ actual: 2.5 });
+    expect(netExposureRule.check(makeContext({ account: withLimits({ maxNetExposure: 2 }), margin, order, opening: 100 })))
+      .toMatchObject({ actual: 2.5 });
+
+    // Selling against the long reduces net exposure
+    const sell = { ...order, side: 'sell' as const };
+    expect(netExposureRule.check(makeContext({ account: withLimits({ maxNetExposure: 2 }), margin, order: sell, opening: 0 })))
+      .toBeUndefined();
+  });
+
+  test('counts only open orders against the open order limit', () => {
+    const order = makeOrder({ type: 'limit', quantity: 1 });
+    const account = { ...withLimits({ maxOpenOrders: 2 }), orders: [order, { ...order, id: 'order-2', status: 'filled' as const }] };
+    expect(maxOpenOrdersRule.check(makeContext({ account }))).toBeUndefined();
+
+    account.orders.push({ ...order, id: 'order-3', status: 'partiallyFilled' });
+    expect(maxOpenOrdersRule.check(makeContext({ account }))).toMatchObject({ limit: 2, actual: 2 });
+  });
+
+  test('trips the daily loss limit and reports a lock that is still in force', () => {
+    const account = { ...withLimits({ dailyLossLimit: 0.05 }), equityHistory: [snapshot(MIDNIGHT - HOUR, 10000)] };
+    const margin = (equity: number) => ({ ...makeContext().margin, equity });
+
+    expect(dailyLossLimitRule.check(makeContext({ account, margin: margin(9600) }))).toBeUndefined();
+    expect(dailyLossLimitRule.check(makeContext({ account, margin: margin(9500) }))).toMatchObject({ limit: 0.05 });
+
+    const locked = { ...account, tradingLockedUntil: getNextDayStart(NOON) };
+    expect(dailyLossLimitRule.check(makeContext({ account: locked, margin: margin(10000) }))?.message).toMatch(/locked/);
+  });
+
+  test('rejects limit and stop prices outside the band around the last trade', () => {
+    const account = withLimits({ priceBandPercent: 10 });
+    const order = makeContext().order;
+
+    expect(priceBandRule.check(makeContext({ account, order: { ...order, limitPrice: 109 } }))).toBeUndefined();
+    expect(priceBandRule.check(makeContext({ account, order: { ...order, limitPrice: 111 } }))?.actual).toBeCloseTo(11);
+    expect(priceBandRule.check(makeContext({ account, order: { ...order, stopPrice: 85 } }))?.actual).toBeCloseTo(15);
+    expect(priceBandRule.check(makeContext({ account, order: { ...order, limitPrice: 200, lastPrice: undefined } })))
+      .toBeUndefined();
+    expect(priceBandRule.appliesToReducingOrders).toBe(true);
+  });
+});
@@ -0,0 +1,273 @@
+// Pre-trade risk rules: each checks one order against one account and reports a breach, if any
+import { Order, PaperAccount, Position, RiskLimits, RiskRuleId, RiskViolation } from '../types/trading';
+import { MarginSummary } from './portfolioAccounting';
+import { isOrderOpen } from './orderMatching';
+import { formatCurrency } from './constants';
+
+export interface RiskCheckOrder {
+  symbol: string;
+  side: Order['side'];
+  type: Order['type'];
+  quantity: number;
+  price: number;        // Price the order is sized at: its limit, its stop or the last trade
+  limitPrice?: number;
+  stopPrice?: number;
+  lastPrice?: number;
+  replacesOrderId?: string; // Cancel-replace: the order being amended does not count against the account
+}
+
+export interface RiskContext {
+  account: PaperAccount;
+  order: RiskCheckOrder;
+  position?: Position;
+  opening: number;      // Part of the order that adds exposure; the rest closes the existing position
+  closing: number;
+  margin: MarginSummary;
+  commission: number;
+  now: number;
+}
+
+export interface RiskRule {
+  id: RiskRuleId;
+  name: string;
+  appliesToReducingOrders?: boolean; // Most rules only police new exposure
+  check: (context: RiskContext) => RiskViolation | undefined;
+}
+
+const getLimits = (context: RiskContext): RiskLimits => context.account.config.riskLimits;
+
+// Local midnight; the daily loss limit resets here
+export const getDayStart = (now: number): number => new Date(now).setHours(0, 0, 0, 0);
+
+export const getNextDayStart = (now: number): number => {
+  const next = new Date(now);
+  next.setHours(24, 0, 0, 0);
+  return next.getTime();
+};
+
+// Equity at the last snapshot before today, or the first one today for accounts opened since midnight
+export const getDayStartEquity = (account: PaperAccount, now: number): number => {
+  const dayStart = getDayStart(now);
+  const history = account.equityHistory || [];
+  let equity: number | undefined;
+
+  for (const snapshot of history) {
+    if (snapshot.timestamp > dayStart) {
+      equity = equity ?? snapshot.equity;
+      break;
+    }
+    equity = snapshot.equity;
+  }
+  return equity ?? account.initialCash;
+};
+
+// Today's loss as a fraction of the day's opening equity; gains come back negative
+export const getDailyLossFraction = (account: PaperAccount, equity: number, now: number): number => {
+  const opening = getDayStartEquity(account, now);
+  return opening > 0 ? (opening - equity) / opening : 0;
+};
+
+export const isTradingLocked = (account: PaperAccount, now: number): boolean =>
+  (account.tradingLockedUntil ?? 0) > now;
+
+// The part of the symbol's position left after the order, valued at the order price
+const getResultingPositionValue = ({ order, position, opening }: RiskContext): number => {
+  const sameSide = position !== undefined && (position.side === 'long') === (order.side === 'buy');
+  return ((sameSide ? position.quantity : 0) + opening) * order.price;
+};
+
+export const shortSellingRule: RiskRule = {
+  id: 'shortSelling',
+  name: 'Short selling',
+  check: ({ account, order }) => {
+    if (order.side !== 'sell' || account.config.allowShortSelling) return undefined;
+    return { ruleId: 'shortSelling', message: 'Short selling is disabled' };
+  },
+};
+
+// New exposure is limited by buying power at the initial margin rate
+export const buyingPowerRule: RiskRule = {
+  id: 'buyingPower',
+  name: 'Buying power',
+  check: ({ order, opening, margin, commission }) => {
+    const required = opening * order.price + commission;
+    if (required <= margin.buyingPower) return undefined;
+    return {
+      ruleId: 'buyingPower',
+      message: `Insufficient buying power: needs ${formatCurrency(required)}, ${formatCurrency(margin.buyingPower)} available`,
+      limit: margin.buyingPower,
+      actual: required,
+    };
+  },
+};
+
+export const positionSizeRule: RiskRule = {
+  id: 'positionSize',
+  name: 'Position size (% of equity)',
+  check: ({ account, order, opening, margin }) => {
+    const { maxPositionSize } = account.config;
+    const fraction = margin.equity > 0 ? (opening * order.price) / margin.equity : Infinity;
+    if (!maxPositionSize || fraction <= maxPositionSize) return undefined;
+    return {
+      ruleId: 'positionSize',
+      message: `Position size would exceed ${maxPositionSize * 100}% limit`,
+      limit: maxPositionSize,
+      actual: fraction,
+    };
+  },
+};
+
+export const maxOrderNotionalRule: RiskRule = {
+  id: 'maxOrderNotional',
+  name: 'Max order value',
+  check: (context) => {
+    const limit = getLimits(context).maxOrderNotional;
+    const notional = context.order.quantity * context.order.price;
+    if (!limit || notional <= limit) return undefined;
+    return {
+      ruleId: 'maxOrderNotional',
+      message: `Order value ${formatCurrency(notional)} exceeds the ${formatCurrency(limit)} limit`,
+      limit,
+      actual: notional,
+    };
+  },
+};
+
+export const maxPositionNotionalRule: RiskRule = {
+  id: 'maxPositionNotional',
+  name: 'Max position value per symbol',
+  check: (context) => {
+    const limit = getLimits(context).maxPositionNotional;
+    const value = getResultingPositionValue(context);
+    if (!limit || value <= limit) return undefined;
+    return {
+      ruleId: 'maxPositionNotional',
+      message: `${context.order.symbol} position would be worth ${formatCurrency(value)}, above the ${formatCurrency(limit)} limit`,
+      limit,
+      actual: value,
+    };
+  },
+};
+
+export const grossExposureRule: RiskRule = {
+  id: 'grossExposure',
+  name: 'Max gross exposure',
+  check: (context) => {
+    const limit = getLimits(context).maxGrossExposure;
+    if (!limit) return undefined;
+
+    const { order, position, opening, closing, margin } = context;
+    const gross = margin.grossExposure - closing * (position?.currentPrice ?? order.price) + opening * order.price;
+    const multiple = margin.equity > 0 ? gross / margin.equity : Infinity;
+    if (multiple <= limit) return undefined;
+    return {
+      ruleId: 'grossExposure',
+      message: `Gross exposure would reach ${multiple.toFixed(2)}x equity, above the ${limit}x limit`,
+      limit,
+      actual: multiple,
+    };
+  },
+};
+
+export const netExposureRule: RiskRule = {
+  id: 'netExposure',
+  name: 'Max net exposure',
+  check: (context) => {
+    const limit = getLimits(context).maxNetExposure;
+    if (!limit) return undefined;
+
+    const { order, margin } = context;
+    const direction = order.side === 'buy' ? 1 : -1;
+    const net = margin.longMarketValue - margin.shortMarketValue + direction * order.quantity * order.price;
+    const multiple = margin.equity > 0 ? Math.abs(net) / margin.equity : Infinity;
+    if (multiple <= limit) return undefined;
+    return {
+      ruleId: 'netExposure',
+      message: `Net ${net >= 0 ? 'long' : 'short'} exposure would reach ${multiple.toFixed(2)}x equity, above the ${limit}x limit`,
+      limit,
+      actual: multiple,
+    };
+  },
+};
+
+export const maxOpenOrdersRule: RiskRule = {
+  id: 'maxOpenOrders',
+  name: 'Max open orders',
+  check: (context) => {
+    const limit = getLimits(context).maxOpenOrders;
+    const open = context.account.orders.filter(isOrderOpen).length;
+    if (!limit || open < limit) return undefined;
+    return {
+      ruleId: 'maxOpenOrders',
+      message: `${open} orders are already open (limit ${limit})`,
+      limit,
+      actual: open,
+    };
+  },
+};
+
+// Once tripped the account stays locked until midnight, even if prices recover
+export const dailyLossLimitRule: RiskRule = {
+  id: 'dailyLossLimit',
+  name: 'Daily loss limit',
+  check: (context) => {
+    const { account, margin, now } = context;
+    const limit = getLimits(context).dailyLossLimit;
+    const loss = getDailyLossFraction(account, margin.equity, now);
+
+    if (isTradingLocked(account, now)) {
+      return {
+        ruleId: 'dailyLossLimit',
+        message: `Trading is locked until ${new Date(account.tradingLockedUntil!).toLocaleString()} after hitting the daily loss limit; only reducing orders are accepted`,
+        limit,
+        actual: loss,
+      };
+    }
+    if (!limit || loss < limit) return undefined;
+    return {
+      ruleId: 'dailyLossLimit',
+      message: `Down ${(loss * 100).toFixed(2)}% today, past the ${limit * 100}% daily loss limit; only reducing orders are accepted`,
+      limit,
+      actual: loss,
+    };
+  },
+};
+
+// Guards against fat-fingered limit and stop prices, including on closing orders
+export const priceBandRule: RiskRule = {
+  id: 'priceBand',
+  name: 'Price band',
+  appliesToReducingOrders: true,
+  check: (context) => {
+    const band = getLimits(context).priceBandPercent;
+    const { limitPrice, stopPrice, lastPrice } = context.order;
+    if (!band || !lastPrice) return undefined;
+
+    const prices = [limitPrice, stopPrice].filter((price): price is number => price !== undefined && price > 0);
+    for (const price of prices) {
+      const distance = (Math.abs(price - lastPrice) / lastPrice) * 100;
+      if (distance > band) {
+        return {
+          ruleId: 'priceBand',
+          message: `Price ${price} is ${distance.toFixed(1)}% from the last trade at ${lastPrice}, outside the ${band}% band`,
+          limit: band,
+          actual: distance,
+        };
+      }
+    }
+    return undefined;
+  },
+};
+
+export const BUILT_IN_RISK_RULES: RiskRule[] = [
+  dailyLossLimitRule,
+  priceBandRule,
+  shortSellingRule,
+  maxOpenOrdersRule,
+  maxOrderNotionalRule,
+  buyingPowerRule,
+  positionSizeRule,
+  maxPositionNotionalRule,
+  grossExposureRule,
+  netExposureRule,
+];
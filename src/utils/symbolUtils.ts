@@ -2,17 +2,24 @@
  * Utility functions for handling symbol display based on currency selection
  */
 
+import { TradingSymbol } from '../types/trading';
+import { DEFAULT_SYMBOLS } from './constants';
+
+// OANDA-style currency pairs, e.g. 'EUR_USD'
+const FOREX_PAIR_PATTERN = /^[A-Z]{3}_[A-Z]{3}$/;
+
 export interface SymbolInfo {
   symbol: string; // The actual trading symbol (e.g., 'BTCUSDT')
   baseSymbol: string; // The base asset (e.g., 'BTC')
   name: string;
-  type: 'crypto' | 'stock';
+  type: TradingSymbol['type'];
   icon: string;
 }
 
 /**
  * Gets the display symbol based on the selected currency
  * For crypto: converts BTCUSDT to BTCGBP for display when GBP is selected
+ * For forex: shows the pair as 'EUR/USD'
  * For stocks: returns symbol as-is
  * 
  * @param symbol - The base trading symbol (e.g., 'BTCUSDT')
@@ -20,6 +27,11 @@ export interface SymbolInfo {
  * @returns The display symbol (e.g., 'BTCGBP')
  */
 export const getDisplaySymbol = (symbol: string, selectedCurrency: string): string => {
+  // Forex pairs are quoted in their own currencies, whatever the display currency
+  if (FOREX_PAIR_PATTERN.test(symbol)) {
+    return symbol.replace('_', '/');
+  }
+  
   // For stocks, return as-is
   if (!symbol.includes('USDT')) {
     return symbol;
@@ -51,6 +63,9 @@ export const getDisplaySymbol = (symbol: string, selectedCurrency: string): stri
  * @returns The base asset (e.g., 'BTC')
  */
 export const getBaseAsset = (symbol: string): string => {
+  if (FOREX_PAIR_PATTERN.test(symbol)) {
+    return symbol.slice(0, 3);
+  }
   if (symbol.endsWith('USDT')) {
     return symbol.replace('USDT', '');
   }
@@ -82,7 +97,7 @@ export const getBaseAsset = (symbol: string): string => {
 export const createSymbolInfo = (
   symbol: string, 
   name: string, 
-  type: 'crypto' | 'stock', 
+  type: TradingSymbol['type'], 
   icon: string
 ): SymbolInfo => {
   return {
@@ -102,4 +117,29 @@ export const createSymbolInfo = (
  */
 export const getSymbolDisplay = (symbolInfo: SymbolInfo, selectedCurrency: string): string => {
   return getDisplaySymbol(symbolInfo.symbol, selectedCurrency);
-};
\ No newline at end of file
+};
+
+/**
+ * Strips the exchange prefix from a symbol so it matches the market store keys
+ * @param symbol - The symbol, optionally prefixed (e.g., 'BINANCE:BTCUSDT')
+ * @returns The symbol used for price lookups (e.g., 'BTCUSDT')
+ */
+export const toMarketSymbol = (symbol: string): string => {
+  const separatorIndex = symbol.indexOf(':');
+  return separatorIndex >= 0 ? symbol.slice(separatorIndex + 1) : symbol;
+};
+
+/**
+ * Gets the asset class of a symbol, falling back to its shape when not configured
+ * @param symbol - The symbol, optionally prefixed (e.g., 'BINANCE:BTCUSDT', 'AAPL')
+ * @returns The asset type
+ */
+export const getSymbolType = (symbol: string): TradingSymbol['type'] => {
+  const marketSymbol = toMarketSymbol(symbol);
+  const known = DEFAULT_SYMBOLS.find(s => s.symbol === symbol || toMarketSymbol(s.symbol) === marketSymbol);
+  if (known) return known.type;
+  
+  if (symbol.startsWith('OANDA:') || FOREX_PAIR_PATTERN.test(marketSymbol)) return 'forex';
+  if (/(USDT|BTC|ETH|BUSD)$/.test(marketSymbol.toUpperCase())) return 'crypto';
+  return 'stock';
+};